@@ -23,8 +23,155 @@ const createTestServer = (port = 0) => {
     }
     fs.closeSync(fd);
 
+    // Number of requests received per URL, used by the flaky endpoints to
+    // fail a configured number of times before succeeding
+    const requestCounts = new Map();
+    // Range headers received per URL, used to verify resumed downloads
+    const rangeHeaders = new Map();
+    const etag = '"test-file-v1"';
+    // Absolute URLs requested through the server acting as an HTTP proxy
+    const proxiedUrls = [];
+    // Current version of each versioned file, changed by the tests with setVersion
+    const versions = new Map();
+    // Status codes sent per URL, used to verify conditional requests
+    const responseStatuses = new Map();
+
+    // Serves the test file with range support: a 'Range: bytes=<start>-' request is answered
+    // with a 206 unless If-Range does not match the ETag. When ignoreRanges is set, ranges are
+    // still advertised but every request is answered with the full file. When failAfterBytes
+    // is set, the connection is dropped after sending that many bytes.
+    const serveRanged = (req, res, { ignoreRanges = false, failAfterBytes = null } = {}) => {
+      const range = /^bytes=(\d+)-$/.exec(req.headers.range || '');
+      const ifRange = req.headers['if-range'];
+      const start = range && !ignoreRanges && (!ifRange || ifRange === etag) ? Number(range[1]) : 0;
+      const headers = {
+        'Accept-Ranges': 'bytes',
+        ETag: etag,
+        'Content-Length': fileSize - start,
+        'Content-Type': 'text/plain',
+      };
+      if (start > 0) {
+        headers['Content-Range'] = `bytes ${start}-${fileSize - 1}/${fileSize}`;
+      }
+      res.writeHead(start > 0 ? 206 : 200, headers);
+
+      const content = fs.readFileSync(testFilePath).subarray(start);
+      if (failAfterBytes !== null) {
+        res.write(content.subarray(0, failAfterBytes));
+        setTimeout(() => req.socket.destroy(), 50);
+        return;
+      }
+      res.end(content);
+    };
+
     // Create server
     const server = http.createServer((req, res) => {
+      // Requests sent to the server as an HTTP proxy use the absolute URL as the request
+      // target. They are recorded and then served like a request for the path of that URL.
+      if (/^https?:\/\//.test(req.url)) {
+        proxiedUrls.push(req.url);
+        const target = new URL(req.url);
+        req.url = `${target.pathname}${target.search}`;
+      }
+
+      requestCounts.set(req.url, (requestCounts.get(req.url) || 0) + 1);
+      res.on('finish', () =>
+        responseStatuses.set(req.url, [...(responseStatuses.get(req.url) || []), res.statusCode])
+      );
+      rangeHeaders.set(req.url, [...(rangeHeaders.get(req.url) || []), req.headers.range || null]);
+
+      // Resumable endpoints: /ranged/<failures>/<name> and /ranged-ignore/<failures>/<name>
+      // The first <failures> requests drop the connection after 40KB of the requested range.
+      // /ranged-ignore advertises range support but always sends the full file.
+      const rangedMatch = /^\/(ranged|ranged-ignore)\/(\d+)\/[^/]+$/.exec(req.url);
+      if (rangedMatch) {
+        const failing = requestCounts.get(req.url) <= Number(rangedMatch[2]);
+        serveRanged(req, res, {
+          ignoreRanges: rangedMatch[1] === 'ranged-ignore',
+          failAfterBytes: failing ? 40 * 1024 : null,
+        });
+        return;
+      }
+
+      // Stalling endpoints: /stall/<failures>/<name>
+      // The first <failures> requests send 40KB of the test file and then stop sending data
+      // without closing the connection. After that the test file is served.
+      const stallMatch = /^\/stall\/(\d+)\/[^/]+$/.exec(req.url);
+      if (stallMatch && requestCounts.get(req.url) <= Number(stallMatch[1])) {
+        console.log(`Stalling endpoint ${req.url} stops sending data`);
+        res.writeHead(200, {
+          'Content-Length': fileSize,
+          'Content-Type': 'text/plain',
+        });
+        res.write(fs.readFileSync(testFilePath).subarray(0, 40 * 1024));
+        // Close the connection eventually so the server can shut down
+        setTimeout(() => req.socket.destroy(), 5000).unref();
+        return;
+      }
+      if (stallMatch) {
+        serveRanged(req, res);
+        return;
+      }
+
+      // Versioned endpoints: /versioned/<name> serves a small file whose ETag is the current
+      // version and answers 304 when If-None-Match has that ETag. /moved/<name> redirects to it.
+      const movedMatch = /^\/moved\/([^/]+)$/.exec(req.url);
+      if (movedMatch) {
+        res.writeHead(302, { Location: `/versioned/${movedMatch[1]}` });
+        res.end();
+        return;
+      }
+      const versionedMatch = /^\/versioned\/([^/]+)$/.exec(req.url);
+      if (versionedMatch) {
+        const version = versions.get(versionedMatch[1]) || 1;
+        const versionEtag = `"v${version}"`;
+        if (req.headers['if-none-match'] === versionEtag) {
+          res.writeHead(304, { ETag: versionEtag });
+          res.end();
+          return;
+        }
+        const content = `${versionedMatch[1]} version ${version}\n`;
+        res.writeHead(200, {
+          ETag: versionEtag,
+          'Last-Modified': new Date(Date.UTC(2025, 0, version)).toUTCString(),
+          'Content-Length': Buffer.byteLength(content),
+          'Content-Type': 'text/plain',
+        });
+        res.end(content);
+        return;
+      }
+
+      // Flaky endpoints: /flaky/<mode>/<failures>/<name>
+      // The first <failures> requests to the URL fail, after that the test file is served.
+      // <mode> is an HTTP status code to respond with, 'retry-after' for a 429 response
+      // with a Retry-After header, or 'reset' to drop the connection mid-download.
+      const flakyMatch = /^\/flaky\/([^/]+)\/(\d+)\/[^/]+$/.exec(req.url);
+      if (flakyMatch && requestCounts.get(req.url) <= Number(flakyMatch[2])) {
+        const mode = flakyMatch[1];
+        console.log(`Flaky endpoint ${req.url} failing with '${mode}'`);
+
+        if (mode === 'reset') {
+          // Send the headers and part of the body, then drop the connection
+          res.writeHead(200, {
+            'Content-Length': fileSize,
+            'Content-Type': 'text/plain',
+          });
+          res.write(Buffer.alloc(4096, 'x'));
+          setTimeout(() => req.socket.destroy(), 50);
+          return;
+        }
+
+        if (mode === 'retry-after') {
+          res.writeHead(429, { 'Retry-After': '1', 'Content-Type': 'text/plain' });
+          res.end('Too Many Requests');
+          return;
+        }
+
+        res.writeHead(Number(mode), { 'Content-Type': 'text/plain' });
+        res.end(`Simulated failure ${mode}`);
+        return;
+      }
+
       // Check for timeout test path
       if (req.url === '/timeout-test') {
         console.log('Received request to timeout endpoint - will delay response');
@@ -84,6 +231,19 @@ const createTestServer = (port = 0) => {
         port: actualPort,
         url: `http://localhost:${actualPort}`,
         timeoutUrl: `http://localhost:${actualPort}/timeout-test`,
+        flakyUrl: (mode, failures, name) =>
+          `http://localhost:${actualPort}/flaky/${mode}/${failures}/${name}`,
+        rangedUrl: (failures, name) => `http://localhost:${actualPort}/ranged/${failures}/${name}`,
+        rangedIgnoreUrl: (failures, name) =>
+          `http://localhost:${actualPort}/ranged-ignore/${failures}/${name}`,
+        getRequestCount: (url) => requestCounts.get(new URL(url).pathname) || 0,
+        getRangeHeaders: (url) => rangeHeaders.get(new URL(url).pathname) || [],
+        getProxiedUrls: () => [...proxiedUrls],
+        stallUrl: (failures, name) => `http://localhost:${actualPort}/stall/${failures}/${name}`,
+        versionedUrl: (name) => `http://localhost:${actualPort}/versioned/${name}`,
+        movedUrl: (name) => `http://localhost:${actualPort}/moved/${name}`,
+        setVersion: (name, version) => versions.set(name, version),
+        getResponseStatuses: (url) => responseStatuses.get(new URL(url).pathname) || [],
         testFilePath,
         fileSize,
         close: () => {
@@ -1,3 +1,4 @@
+import * as crypto from 'node:crypto';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
@@ -247,6 +248,289 @@ describe('webUtils - Integration Tests', () => {
       fs.unlinkSync(noProgressFilePath);
     }, 30000);
 
+    test('should retry a 5xx response until the download succeeds', async () => {
+      const retryFilePath = path.join(tempDir, 'retry-5xx.txt');
+      const url = server.flakyUrl(503, 2, 'retry-5xx');
+
+      await downloadFile(url, retryFilePath, { retries: 3, retryDelayMs: 10 });
+
+      expect(server.getRequestCount(url)).toBe(3);
+      expect(fs.statSync(retryFilePath).size).toBe(server.fileSize);
+    }, 30000);
+
+    test('should retry a connection that drops mid-download', async () => {
+      const retryFilePath = path.join(tempDir, 'retry-reset.txt');
+      const url = server.flakyUrl('reset', 1, 'retry-reset');
+
+      await downloadFile(url, retryFilePath, { retries: 2, retryDelayMs: 10 });
+
+      expect(server.getRequestCount(url)).toBe(2);
+      // The partial content of the dropped attempt must not remain in the file
+      expect(fs.statSync(retryFilePath).size).toBe(server.fileSize);
+    }, 30000);
+
+    test('should honor Retry-After for a 429 response', async () => {
+      const retryFilePath = path.join(tempDir, 'retry-429.txt');
+      const url = server.flakyUrl('retry-after', 1, 'retry-429');
+      const start = Date.now();
+
+      await downloadFile(url, retryFilePath, { retries: 1, retryDelayMs: 10 });
+
+      expect(server.getRequestCount(url)).toBe(2);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+    }, 30000);
+
+    test('should not retry a 404 response', async () => {
+      const retryFilePath = path.join(tempDir, 'retry-404.txt');
+      const url = server.flakyUrl(404, 1, 'retry-404');
+
+      await expect(
+        downloadFile(url, retryFilePath, { retries: 3, retryDelayMs: 10 })
+      ).rejects.toThrow('(404)');
+
+      expect(server.getRequestCount(url)).toBe(1);
+      expect(fs.existsSync(retryFilePath)).toBe(false);
+    }, 30000);
+
+    test('should fail after all retries are used', async () => {
+      const retryFilePath = path.join(tempDir, 'retry-exhausted.txt');
+      const url = server.flakyUrl(502, 5, 'retry-exhausted');
+
+      await expect(
+        downloadFile(url, retryFilePath, { retries: 2, retryDelayMs: 10 })
+      ).rejects.toThrow('(502)');
+
+      expect(server.getRequestCount(url)).toBe(3);
+      expect(fs.existsSync(retryFilePath)).toBe(false);
+    }, 30000);
+
+    test('should resume an interrupted download with a Range request', async () => {
+      const resumeFilePath = path.join(tempDir, 'resume.txt');
+      const url = server.rangedUrl(1, 'resume');
+      const progressUpdates: { bytesReceived: number; totalBytes: number | null }[] = [];
+
+      await downloadFile(url, resumeFilePath, {
+        retries: 1,
+        retryDelayMs: 10,
+        onProgress: (progress) => progressUpdates.push({ ...progress }),
+      });
+
+      expect(server.getRangeHeaders(url)).toEqual([null, `bytes=${40 * 1024}-`]);
+      expect(fs.readFileSync(resumeFilePath).equals(fs.readFileSync(server.testFilePath))).toBe(
+        true
+      );
+      expect(fs.existsSync(`${resumeFilePath}.resume.json`)).toBe(false);
+
+      // Progress of the resumed attempt starts at the bytes already on disk
+      const lastUpdate = progressUpdates[progressUpdates.length - 1];
+      expect(lastUpdate).toEqual({
+        bytesReceived: server.fileSize,
+        totalBytes: server.fileSize,
+        percent: 100,
+      });
+      expect(progressUpdates.some((update) => update.totalBytes !== server.fileSize)).toBe(false);
+    }, 30000);
+
+    test('should resume a partial file left by an earlier call', async () => {
+      const resumeFilePath = path.join(tempDir, 'resume-later.txt');
+      const url = server.rangedUrl(1, 'resume-later');
+
+      await expect(downloadFile(url, resumeFilePath)).rejects.toThrow('aborted');
+      expect(fs.statSync(resumeFilePath).size).toBe(40 * 1024);
+      expect(fs.existsSync(`${resumeFilePath}.resume.json`)).toBe(true);
+
+      await downloadFile(url, resumeFilePath);
+
+      expect(server.getRangeHeaders(url)).toEqual([null, `bytes=${40 * 1024}-`]);
+      expect(fs.readFileSync(resumeFilePath).equals(fs.readFileSync(server.testFilePath))).toBe(
+        true
+      );
+    }, 30000);
+
+    test('should download the full file when the server ignores the range', async () => {
+      const resumeFilePath = path.join(tempDir, 'resume-ignored.txt');
+      const url = server.rangedIgnoreUrl(1, 'resume-ignored');
+
+      await downloadFile(url, resumeFilePath, { retries: 1, retryDelayMs: 10 });
+
+      expect(server.getRangeHeaders(url)).toEqual([null, `bytes=${40 * 1024}-`]);
+      expect(fs.readFileSync(resumeFilePath).equals(fs.readFileSync(server.testFilePath))).toBe(
+        true
+      );
+    }, 30000);
+
+    test('should not resume when resume is disabled', async () => {
+      const resumeFilePath = path.join(tempDir, 'resume-disabled.txt');
+      const url = server.rangedUrl(1, 'resume-disabled');
+
+      await downloadFile(url, resumeFilePath, { retries: 1, retryDelayMs: 10, resume: false });
+
+      expect(server.getRangeHeaders(url)).toEqual([null, null]);
+      expect(fs.statSync(resumeFilePath).size).toBe(server.fileSize);
+    }, 30000);
+
+    test('should verify the expected hash while downloading', async () => {
+      const verifiedFilePath = path.join(tempDir, 'verified.txt');
+      const sha256 = crypto
+        .createHash('sha256')
+        .update(fs.readFileSync(server.testFilePath))
+        .digest('hex');
+
+      await downloadFile(server.url, verifiedFilePath, { expectedSha256: sha256 });
+
+      expect(fs.statSync(verifiedFilePath).size).toBe(server.fileSize);
+    }, 30000);
+
+    test('should delete a download that does not have the expected hash', async () => {
+      const tamperedFilePath = path.join(tempDir, 'tampered.txt');
+
+      await expect(
+        downloadFile(server.url, tamperedFilePath, { expectedSha256: '0'.repeat(64) })
+      ).rejects.toThrow('SHA-256 checksum verification failed');
+
+      expect(fs.existsSync(tamperedFilePath)).toBe(false);
+    }, 30000);
+
+    test('should verify the hash of a resumed download', async () => {
+      const resumedFilePath = path.join(tempDir, 'resumed-verified.txt');
+      const url = server.rangedUrl(1, 'resumed-verified');
+      const sha256 = crypto
+        .createHash('sha256')
+        .update(fs.readFileSync(server.testFilePath))
+        .digest('hex');
+
+      await downloadFile(url, resumedFilePath, {
+        retries: 1,
+        retryDelayMs: 10,
+        expectedSha256: sha256,
+      });
+
+      expect(server.getRangeHeaders(url)).toEqual([null, `bytes=${40 * 1024}-`]);
+    }, 30000);
+
+    test('should download through the proxy from HTTP_PROXY', async () => {
+      const proxiedFilePath = path.join(tempDir, 'proxied.txt');
+      // The host does not resolve, so the download only succeeds through the proxy
+      const url = 'http://codecov-mirror.invalid/proxied/codecov';
+      const originalHttpProxy = process.env.HTTP_PROXY;
+      process.env.HTTP_PROXY = server.url;
+
+      try {
+        await downloadFile(url, proxiedFilePath);
+      } finally {
+        if (originalHttpProxy === undefined) {
+          delete process.env.HTTP_PROXY;
+        } else {
+          process.env.HTTP_PROXY = originalHttpProxy;
+        }
+      }
+
+      expect(server.getProxiedUrls()).toContain(url);
+      expect(fs.statSync(proxiedFilePath).size).toBe(server.fileSize);
+    }, 30000);
+
+    test('should abort a download that stalls', async () => {
+      const stalledFilePath = path.join(tempDir, 'stalled.txt');
+      const url = server.stallUrl(1, 'stalled');
+
+      await expect(downloadFile(url, stalledFilePath, { stallTimeoutMs: 300 })).rejects.toThrow(
+        `Download of '${url}' stalled: no data received for 300ms`
+      );
+
+      expect(fs.existsSync(stalledFilePath)).toBe(false);
+    }, 30000);
+
+    test('should retry a download that stalls', async () => {
+      const stalledFilePath = path.join(tempDir, 'stalled-retried.txt');
+      const url = server.stallUrl(1, 'stalled-retried');
+
+      await downloadFile(url, stalledFilePath, {
+        stallTimeoutMs: 300,
+        retries: 1,
+        retryDelayMs: 10,
+      });
+
+      expect(server.getRequestCount(url)).toBe(2);
+      expect(fs.statSync(stalledFilePath).size).toBe(server.fileSize);
+    }, 30000);
+
+    test('should limit the download to maxBytesPerSecond', async () => {
+      const throttledFilePath = path.join(tempDir, 'throttled.txt');
+      const startTime = Date.now();
+
+      await downloadFile(server.rangedUrl(0, 'throttled'), throttledFilePath, {
+        maxBytesPerSecond: 200 * 1024,
+      });
+
+      // 100KB at 200KB per second takes at least half a second
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(450);
+      expect(fs.readFileSync(throttledFilePath).equals(fs.readFileSync(server.testFilePath))).toBe(
+        true
+      );
+    }, 30000);
+
+    test('should keep a file that has not changed on the server', async () => {
+      const revalidatedFilePath = path.join(tempDir, 'revalidated.txt');
+      const url = server.versionedUrl('revalidated');
+
+      await downloadFile(url, revalidatedFilePath, { revalidate: true });
+      const metadata = JSON.parse(fs.readFileSync(`${revalidatedFilePath}.metadata.json`, 'utf8'));
+      expect(metadata).toEqual(expect.objectContaining({ url, finalUrl: url, etag: '"v1"' }));
+
+      await downloadFile(url, revalidatedFilePath, { revalidate: true });
+
+      expect(server.getResponseStatuses(url)).toEqual([200, 304]);
+      expect(fs.readFileSync(revalidatedFilePath, 'utf8')).toBe('revalidated version 1\n');
+    }, 30000);
+
+    test('should download a file again when it changed on the server', async () => {
+      const changedFilePath = path.join(tempDir, 'changed.txt');
+      const url = server.versionedUrl('changed');
+
+      await downloadFile(url, changedFilePath, { revalidate: true });
+      server.setVersion('changed', 2);
+      await downloadFile(url, changedFilePath, { revalidate: true });
+
+      expect(server.getResponseStatuses(url)).toEqual([200, 200]);
+      expect(fs.readFileSync(changedFilePath, 'utf8')).toBe('changed version 2\n');
+      const metadata = JSON.parse(fs.readFileSync(`${changedFilePath}.metadata.json`, 'utf8'));
+      expect(metadata.etag).toBe('"v2"');
+    }, 30000);
+
+    test('should store the URL a redirected download was served from', async () => {
+      const movedFilePath = path.join(tempDir, 'moved.txt');
+      const url = server.movedUrl('moved');
+
+      await downloadFile(url, movedFilePath, { revalidate: true });
+
+      const metadata = JSON.parse(fs.readFileSync(`${movedFilePath}.metadata.json`, 'utf8'));
+      expect(metadata).toEqual(
+        expect.objectContaining({ url, finalUrl: server.versionedUrl('moved') })
+      );
+    }, 30000);
+
+    test('should abort a download that is larger than maxBytes', async () => {
+      const limitedFilePath = path.join(tempDir, 'limited.txt');
+
+      await expect(downloadFile(server.url, limitedFilePath, { maxBytes: 1024 })).rejects.toThrow(
+        `Download of '${server.url}' is ${server.fileSize} bytes, which exceeds the limit of 1024 bytes`
+      );
+
+      expect(fs.existsSync(limitedFilePath)).toBe(false);
+    }, 30000);
+
+    test('should reject a download with an unexpected content type', async () => {
+      const typedFilePath = path.join(tempDir, 'typed.txt');
+
+      await expect(
+        downloadFile(server.url, typedFilePath, {
+          expectedContentTypes: ['application/octet-stream'],
+        })
+      ).rejects.toThrow(`Unexpected content type 'text/plain' for '${server.url}'`);
+
+      expect(fs.existsSync(typedFilePath)).toBe(false);
+    }, 30000);
+
     test('should try to download from a non-existent URL', async () => {
       const invalidFilePath = path.join(tempDir, 'invalid-url.txt');
       // Using a URL that doesn't exist
@@ -0,0 +1,245 @@
+import { findChecksumEntry, parseChecksumManifest } from '../utils/checksumManifestUtils';
+
+const CODECOV_SHA256 = '1827547e1f1f01bd900909366e28b1cdea4235e94440371b7239c966391ed3b2';
+const NODE_DARWIN_SHA256 = '217f313b2128635cb58882ee5d3ee7c7a8cf87c7ea2ca4c9cc0fc9de61dd0cc0';
+const NODE_LINUX_SHA256 = '47c817f1919e39a3a22aa4705816b556559270fcbeebb975561d832e742e3a8e';
+const NODE_WIN_SHA256 = 'a26ade45313957d9b6f28e8acbf21effc36154c5cd4e5727d55823da71b4bd5b';
+const UBUNTU_DESKTOP_SHA256 = '33fc6752e3d5501252a89b348aaea192d56269a782daa391638498750cffd237';
+const UBUNTU_SERVER_SHA256 = '2ec38a3b10aa21b72d7aa880b8611306908f5a16e9bc06485f536eea85ca0cb9';
+const FREEBSD_DISC1_SHA512 =
+  'b662f482221a5e8b8945db5566ff3dfcb2ab38b4ac79ea98d1410c35b2c03aa5dbe3304ef5ac58f481cc8c5b1843b2ec25edac3b8ea84fc6c9868aa72bb5c3b4';
+const FREEBSD_MEMSTICK_SHA512 =
+  'ae14948431509ee7c861a475c6a34c9edca13784d07ead1a50e41fd0f944c4261f87e85d5fb23ccc5d3d75c08c00574e4297af838a17d302df3b183c476f7228';
+const SHA1 = '11f6ad8ec52a2984abaafd7c3b516503785c2072';
+const SHA384 =
+  'd752c2c51fba0e29aa190570a9d4253e44077a058d3297fa3a5630d5bd012622f97c28acaed313b5c83bb990caa7da85';
+
+describe('checksumManifestUtils', () => {
+  describe('parseChecksumManifest', () => {
+    test('should parse a Codecov CLI SHA256SUM file', () => {
+      const manifest = parseChecksumManifest(`${CODECOV_SHA256}  codecov\n`, 'codecov.SHA256SUM');
+
+      expect(manifest).toEqual({
+        source: 'codecov.SHA256SUM',
+        entries: [
+          {
+            fileName: 'codecov',
+            digest: CODECOV_SHA256,
+            algorithm: null,
+            binary: false,
+            lineNumber: 1,
+          },
+        ],
+        ignoredLines: [],
+      });
+    });
+
+    test('should parse a Node.js SHASUMS256.txt file with directories', () => {
+      const manifest = parseChecksumManifest(
+        [
+          `${NODE_DARWIN_SHA256}  node-v20.11.0-darwin-arm64.tar.gz`,
+          `${NODE_LINUX_SHA256}  node-v20.11.0-linux-x64.tar.xz`,
+          `${NODE_WIN_SHA256}  win-x64/node.exe`,
+          '',
+        ].join('\n'),
+        'SHASUMS256.txt'
+      );
+
+      expect(manifest.entries.map((entry) => [entry.fileName, entry.digest])).toEqual([
+        ['node-v20.11.0-darwin-arm64.tar.gz', NODE_DARWIN_SHA256],
+        ['node-v20.11.0-linux-x64.tar.xz', NODE_LINUX_SHA256],
+        ['win-x64/node.exe', NODE_WIN_SHA256],
+      ]);
+    });
+
+    test('should parse the binary marker of an Ubuntu SHA256SUMS file', () => {
+      const manifest = parseChecksumManifest(
+        `${UBUNTU_DESKTOP_SHA256} *ubuntu-22.04.3-desktop-amd64.iso\n${UBUNTU_SERVER_SHA256} *ubuntu-22.04.3-live-server-amd64.iso\n`,
+        'SHA256SUMS'
+      );
+
+      expect(manifest.entries).toEqual([
+        expect.objectContaining({
+          fileName: 'ubuntu-22.04.3-desktop-amd64.iso',
+          digest: UBUNTU_DESKTOP_SHA256,
+          binary: true,
+        }),
+        expect.objectContaining({
+          fileName: 'ubuntu-22.04.3-live-server-amd64.iso',
+          digest: UBUNTU_SERVER_SHA256,
+          binary: true,
+        }),
+      ]);
+    });
+
+    test('should parse the BSD format of a FreeBSD CHECKSUM.SHA512 file', () => {
+      const manifest = parseChecksumManifest(
+        [
+          `SHA512 (FreeBSD-14.0-RELEASE-amd64-disc1.iso) = ${FREEBSD_DISC1_SHA512}`,
+          `SHA512 (FreeBSD-14.0-RELEASE-amd64-memstick.img) = ${FREEBSD_MEMSTICK_SHA512.toUpperCase()}`,
+        ].join('\n'),
+        'CHECKSUM.SHA512-FreeBSD-14.0-RELEASE-amd64'
+      );
+
+      expect(manifest.entries).toEqual([
+        {
+          fileName: 'FreeBSD-14.0-RELEASE-amd64-disc1.iso',
+          digest: FREEBSD_DISC1_SHA512,
+          algorithm: 'sha512',
+          binary: false,
+          lineNumber: 1,
+        },
+        {
+          fileName: 'FreeBSD-14.0-RELEASE-amd64-memstick.img',
+          digest: FREEBSD_MEMSTICK_SHA512,
+          algorithm: 'sha512',
+          binary: false,
+          lineNumber: 2,
+        },
+      ]);
+    });
+
+    test('should parse the tags written by shasum and openssl dgst', () => {
+      const manifest = parseChecksumManifest(
+        [
+          `SHA1 (codecov) = ${SHA1}`,
+          `SHA2-256(codecov)= ${CODECOV_SHA256}`,
+          `SHA384 (codecov (copy)) = ${SHA384}`,
+        ].join('\n'),
+        'checksums.txt'
+      );
+
+      expect(
+        manifest.entries.map((entry) => [entry.fileName, entry.algorithm, entry.digest])
+      ).toEqual([
+        ['codecov', 'sha1', SHA1],
+        ['codecov', 'sha256', CODECOV_SHA256],
+        ['codecov (copy)', 'sha384', SHA384],
+      ]);
+    });
+
+    test('should unescape the file names written by GNU coreutils', () => {
+      const manifest = parseChecksumManifest(
+        [
+          `\\${CODECOV_SHA256}  coverage\\\\report.xml`,
+          `\\${NODE_LINUX_SHA256}  line\\nbreak.xml`,
+          `\\SHA256 (tagged\\\\name.xml) = ${NODE_WIN_SHA256}`,
+          `${NODE_DARWIN_SHA256}  coverage report.xml`,
+        ].join('\n'),
+        'SHA256SUMS'
+      );
+
+      expect(manifest.entries.map((entry) => entry.fileName)).toEqual([
+        'coverage\\report.xml',
+        'line\nbreak.xml',
+        'tagged\\name.xml',
+        'coverage report.xml',
+      ]);
+    });
+
+    test('should handle CRLF line endings and a byte order mark', () => {
+      // As written by Get-FileHash | Out-File on Windows PowerShell
+      const manifest = parseChecksumManifest(
+        `\uFEFF${CODECOV_SHA256}  codecov.exe\r\n${NODE_WIN_SHA256}  node.exe\r\n`,
+        'codecov.exe.SHA256SUM'
+      );
+
+      expect(manifest.entries.map((entry) => entry.fileName)).toEqual(['codecov.exe', 'node.exe']);
+      expect(manifest.ignoredLines).toEqual([]);
+    });
+
+    test('should list comments and unsupported lines as ignored', () => {
+      const manifest = parseChecksumManifest(
+        [
+          '-----BEGIN PGP SIGNED MESSAGE-----',
+          '# SHA-256 checksums',
+          `MD5 (codecov) = d41d8cd98f00b204e9800998ecf8427e`,
+          `\\${CODECOV_SHA256}  invalid\\escape`,
+          `${CODECOV_SHA256}  codecov`,
+        ].join('\n'),
+        'SHA256SUMS'
+      );
+
+      expect(manifest.entries.map((entry) => entry.fileName)).toEqual(['codecov']);
+      expect(manifest.ignoredLines).toEqual([
+        { lineNumber: 1, reason: 'Not a checksum line' },
+        { lineNumber: 2, reason: 'Not a checksum line' },
+        { lineNumber: 3, reason: 'Unsupported checksum algorithm MD5' },
+        { lineNumber: 4, reason: 'Invalid escape sequence in the file name' },
+      ]);
+    });
+
+    test('should merge duplicate entries with the same checksum', () => {
+      const manifest = parseChecksumManifest(
+        `${CODECOV_SHA256}  codecov\n${CODECOV_SHA256.toUpperCase()} *./codecov\n`,
+        'SHA256SUMS'
+      );
+
+      expect(manifest.entries).toHaveLength(1);
+      expect(manifest.entries[0]?.lineNumber).toBe(1);
+    });
+
+    test('should reject conflicting checksums for the same file', () => {
+      expect(() =>
+        parseChecksumManifest(
+          `${CODECOV_SHA256}  codecov\n# rebuilt\n${NODE_LINUX_SHA256}  codecov\n`,
+          'codecov.SHA256SUM'
+        )
+      ).toThrow("Conflicting checksums for 'codecov' in codecov.SHA256SUM on lines 1 and 3");
+    });
+
+    test('should reject a tagged checksum with the length of another algorithm', () => {
+      expect(() =>
+        parseChecksumManifest(`SHA512 (codecov) = ${CODECOV_SHA256}`, 'CHECKSUM.SHA512')
+      ).toThrow(
+        "Invalid SHA512 checksum for 'codecov' on line 1 of CHECKSUM.SHA512: expected 128 hexadecimal characters, found 64"
+      );
+    });
+  });
+
+  describe('findChecksumEntry', () => {
+    const nodeManifest = parseChecksumManifest(
+      [
+        `${NODE_LINUX_SHA256}  node-v20.11.0-linux-x64.tar.xz`,
+        `${NODE_WIN_SHA256}  win-x64/node.exe`,
+        `${NODE_DARWIN_SHA256}  win-x86/node.exe`,
+      ].join('\n'),
+      'SHASUMS256.txt'
+    );
+
+    test('should find a file by its name or path', () => {
+      expect(findChecksumEntry(nodeManifest, 'node-v20.11.0-linux-x64.tar.xz')?.digest).toBe(
+        NODE_LINUX_SHA256
+      );
+      expect(findChecksumEntry(nodeManifest, 'win-x64/node.exe')?.digest).toBe(NODE_WIN_SHA256);
+      expect(findChecksumEntry(nodeManifest, './win-x86/node.exe')?.digest).toBe(
+        NODE_DARWIN_SHA256
+      );
+    });
+
+    test('should return null for a file that is not listed', () => {
+      expect(findChecksumEntry(nodeManifest, 'node-v20.11.0-linux-x64')).toBeNull();
+    });
+
+    test('should reject a base name that matches several paths', () => {
+      expect(() => findChecksumEntry(nodeManifest, 'node.exe')).toThrow(
+        "Ambiguous checksum entries for 'node.exe' in SHASUMS256.txt: 'win-x64/node.exe', 'win-x86/node.exe'"
+      );
+    });
+
+    test('should use the strongest algorithm unless one is requested', () => {
+      const manifest = parseChecksumManifest(
+        [
+          `SHA1 (codecov) = ${SHA1}`,
+          `SHA384 (codecov) = ${SHA384}`,
+          `SHA256 (codecov) = ${CODECOV_SHA256}`,
+        ].join('\n'),
+        'checksums.txt'
+      );
+
+      expect(findChecksumEntry(manifest, 'codecov')?.algorithm).toBe('sha384');
+      expect(findChecksumEntry(manifest, 'codecov', 'sha256')?.digest).toBe(CODECOV_SHA256);
+      expect(findChecksumEntry(manifest, 'codecov', 'sha512')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import logger from '../utils/logger';
+import {
+  compareCliVersions,
+  findLocalCodecovCli,
+  getCodecovCliPlatform,
+  getCodecovCliUrls,
+  getCodecovUploadUrl,
+  normalizeCliBaseUrl,
+  normalizeCliVersion,
+  normalizeMinimumCliVersion,
+  parseCodecovCliVersion,
+  resolveCodecovCliVersion,
+} from '../utils/cliUtils';
+
+jest.mock('azure-pipelines-task-lib/task');
+jest.mock('node:child_process');
+jest.mock('node:fs');
+
+describe('cliUtils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    jest.spyOn(logger, 'debug').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('normalizeCliVersion', () => {
+    test('should return latest for an empty value', () => {
+      expect(normalizeCliVersion('')).toBe('latest');
+      expect(normalizeCliVersion('   ')).toBe('latest');
+    });
+
+    test('should return latest regardless of casing', () => {
+      expect(normalizeCliVersion('Latest')).toBe('latest');
+    });
+
+    test('should prefix a semantic version with v', () => {
+      expect(normalizeCliVersion('0.7.4')).toBe('v0.7.4');
+      expect(normalizeCliVersion(' v0.7.4 ')).toBe('v0.7.4');
+    });
+
+    test('should accept pre-release versions', () => {
+      expect(normalizeCliVersion('v1.0.0-beta.1')).toBe('v1.0.0-beta.1');
+    });
+
+    test('should reject values that are not a version', () => {
+      expect(() => normalizeCliVersion('../../evil')).toThrow(
+        "Invalid Codecov CLI version '../../evil'"
+      );
+      expect(() => normalizeCliVersion('1.2')).toThrow("Invalid Codecov CLI version '1.2'");
+    });
+  });
+
+  describe('getCodecovCliPlatform', () => {
+    test('should select the linux build on Linux x64', () => {
+      expect(getCodecovCliPlatform('linux', 'x64')).toEqual({
+        name: 'linux',
+        executableName: 'codecov',
+        requiresChmod: true,
+      });
+    });
+
+    test('should select the linux-arm64 build on Linux arm64', () => {
+      expect(getCodecovCliPlatform('linux', 'arm64')).toEqual({
+        name: 'linux-arm64',
+        executableName: 'codecov',
+        requiresChmod: true,
+      });
+    });
+
+    test('should select the macos build on macOS regardless of architecture', () => {
+      const expected = { name: 'macos', executableName: 'codecov', requiresChmod: true };
+      expect(getCodecovCliPlatform('darwin', 'x64')).toEqual(expected);
+      expect(getCodecovCliPlatform('darwin', 'arm64')).toEqual(expected);
+    });
+
+    test('should select the windows build with an .exe executable on Windows', () => {
+      expect(getCodecovCliPlatform('win32', 'x64')).toEqual({
+        name: 'windows',
+        executableName: 'codecov.exe',
+        requiresChmod: false,
+      });
+    });
+
+    test('should default to the current platform and architecture', () => {
+      expect(getCodecovCliPlatform()).toEqual(
+        getCodecovCliPlatform(process.platform, process.arch)
+      );
+    });
+
+    test('should throw for an unsupported Linux architecture', () => {
+      expect(() => getCodecovCliPlatform('linux', 's390x')).toThrow(
+        "The Codecov CLI is not available for platform 'linux' (s390x)"
+      );
+    });
+
+    test('should throw for an unsupported operating system', () => {
+      expect(() => getCodecovCliPlatform('freebsd', 'x64')).toThrow(
+        "The Codecov CLI is not available for platform 'freebsd' (x64)"
+      );
+    });
+  });
+
+  describe('getCodecovCliUrls', () => {
+    const linux = { name: 'linux', executableName: 'codecov', requiresChmod: true };
+
+    test('should build URLs for the latest version', () => {
+      expect(getCodecovCliUrls('latest', linux)).toEqual({
+        cliUrl: 'https://cli.codecov.io/latest/linux/codecov',
+        sha256sumUrl: 'https://cli.codecov.io/latest/linux/codecov.SHA256SUM',
+        sha256sumSigUrl: 'https://cli.codecov.io/latest/linux/codecov.SHA256SUM.sig',
+      });
+    });
+
+    test('should build URLs for a pinned version', () => {
+      expect(getCodecovCliUrls('v0.7.4', linux)).toEqual({
+        cliUrl: 'https://cli.codecov.io/v0.7.4/linux/codecov',
+        sha256sumUrl: 'https://cli.codecov.io/v0.7.4/linux/codecov.SHA256SUM',
+        sha256sumSigUrl: 'https://cli.codecov.io/v0.7.4/linux/codecov.SHA256SUM.sig',
+      });
+    });
+
+    test('should build URLs for a mirror', () => {
+      expect(getCodecovCliUrls('v0.7.4', linux, 'https://mirror.example.com/codecov')).toEqual({
+        cliUrl: 'https://mirror.example.com/codecov/v0.7.4/linux/codecov',
+        sha256sumUrl: 'https://mirror.example.com/codecov/v0.7.4/linux/codecov.SHA256SUM',
+        sha256sumSigUrl: 'https://mirror.example.com/codecov/v0.7.4/linux/codecov.SHA256SUM.sig',
+      });
+    });
+
+    test('should build URLs for the Windows executable', () => {
+      const windows = { name: 'windows', executableName: 'codecov.exe', requiresChmod: false };
+      expect(getCodecovCliUrls('latest', windows)).toEqual({
+        cliUrl: 'https://cli.codecov.io/latest/windows/codecov.exe',
+        sha256sumUrl: 'https://cli.codecov.io/latest/windows/codecov.exe.SHA256SUM',
+        sha256sumSigUrl: 'https://cli.codecov.io/latest/windows/codecov.exe.SHA256SUM.sig',
+      });
+    });
+  });
+
+  describe('getCodecovUploadUrl', () => {
+    const originalEnterpriseUrl = process.env.CODECOV_ENTERPRISE_URL;
+
+    afterEach(() => {
+      if (originalEnterpriseUrl === undefined) {
+        delete process.env.CODECOV_ENTERPRISE_URL;
+      } else {
+        process.env.CODECOV_ENTERPRISE_URL = originalEnterpriseUrl;
+      }
+    });
+
+    test('should default to the Codecov API', () => {
+      delete process.env.CODECOV_ENTERPRISE_URL;
+
+      expect(getCodecovUploadUrl()).toBe('https://api.codecov.io');
+    });
+
+    test('should use the self-hosted server of CODECOV_ENTERPRISE_URL', () => {
+      process.env.CODECOV_ENTERPRISE_URL = ' https://codecov.example.com ';
+
+      expect(getCodecovUploadUrl()).toBe('https://codecov.example.com/');
+    });
+
+    test('should reject an invalid CODECOV_ENTERPRISE_URL', () => {
+      process.env.CODECOV_ENTERPRISE_URL = 'codecov.example.com';
+
+      expect(() => getCodecovUploadUrl()).toThrow(
+        "Invalid CODECOV_ENTERPRISE_URL value 'codecov.example.com'. Expected an absolute URL"
+      );
+    });
+  });
+
+  describe('normalizeCliBaseUrl', () => {
+    test('should remove trailing slashes', () => {
+      expect(normalizeCliBaseUrl(' https://artifactory.example.com/codecov-cli/ ')).toBe(
+        'https://artifactory.example.com/codecov-cli'
+      );
+    });
+
+    test('should reject relative URLs', () => {
+      expect(() => normalizeCliBaseUrl('mirror/codecov')).toThrow(
+        "Invalid Codecov CLI base URL 'mirror/codecov'. Expected an absolute URL"
+      );
+    });
+
+    test('should reject protocols other than http and https', () => {
+      expect(() => normalizeCliBaseUrl('file:///mnt/mirror')).toThrow(
+        'Only http and https URLs are supported'
+      );
+    });
+  });
+
+  describe('parseCodecovCliVersion', () => {
+    test('should parse the version from the CLI output', () => {
+      expect(parseCodecovCliVersion('codecovcli, version 0.7.4\n')).toBe('v0.7.4');
+    });
+
+    test('should return null when no version is present', () => {
+      expect(parseCodecovCliVersion('something unexpected')).toBeNull();
+    });
+  });
+
+  describe('resolveCodecovCliVersion', () => {
+    test('should return the version reported by the CLI', () => {
+      (execFileSync as jest.Mock).mockReturnValue('codecovcli, version 10.1.0');
+
+      expect(resolveCodecovCliVersion('./codecov', 'latest')).toBe('v10.1.0');
+      expect(execFileSync).toHaveBeenCalledWith('./codecov', ['--version'], {
+        encoding: 'utf8',
+      });
+    });
+
+    test('should fall back to the requested version when the output cannot be parsed', () => {
+      (execFileSync as jest.Mock).mockReturnValue('');
+
+      expect(resolveCodecovCliVersion('./codecov', 'v0.7.4')).toBe('v0.7.4');
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Unable to parse Codecov CLI version')
+      );
+    });
+
+    test('should fall back to the requested version when the CLI fails to run', () => {
+      (execFileSync as jest.Mock).mockImplementation(() => {
+        throw new Error('spawn failed');
+      });
+
+      expect(resolveCodecovCliVersion('./codecov', 'latest')).toBe('latest');
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Unable to determine Codecov CLI version: spawn failed'
+      );
+    });
+  });
+
+  describe('normalizeMinimumCliVersion', () => {
+    test('should return undefined when no minimum version is specified', () => {
+      expect(normalizeMinimumCliVersion(' ')).toBeUndefined();
+    });
+
+    test('should prefix the version with v', () => {
+      expect(normalizeMinimumCliVersion('0.7.4')).toBe('v0.7.4');
+    });
+
+    test('should reject latest', () => {
+      expect(() => normalizeMinimumCliVersion('latest')).toThrow(
+        "Invalid minimum Codecov CLI version 'latest'"
+      );
+    });
+  });
+
+  describe('compareCliVersions', () => {
+    test('should compare major, minor and patch numerically', () => {
+      expect(compareCliVersions('v10.0.0', 'v9.9.9')).toBeGreaterThan(0);
+      expect(compareCliVersions('v0.7.4', 'v0.7.10')).toBeLessThan(0);
+      expect(compareCliVersions('0.7.4', 'v0.7.4')).toBe(0);
+    });
+
+    test('should sort a pre-release before its release', () => {
+      expect(compareCliVersions('v1.0.0-beta.1', 'v1.0.0')).toBeLessThan(0);
+      expect(compareCliVersions('v1.0.0', 'v1.0.0-beta.1')).toBeGreaterThan(0);
+      expect(compareCliVersions('v1.0.0-beta.2', 'v1.0.0-beta.10')).toBeLessThan(0);
+    });
+
+    test('should throw for a value that is not a version', () => {
+      expect(() => compareCliVersions('latest', 'v1.0.0')).toThrow(
+        "Invalid Codecov CLI version 'latest'"
+      );
+    });
+  });
+
+  describe('findLocalCodecovCli', () => {
+    beforeEach(() => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (tl.which as jest.Mock).mockReturnValue('');
+    });
+
+    test('should use the configured cliPath', () => {
+      (execFileSync as jest.Mock).mockReturnValue('codecovcli, version 10.1.0');
+
+      expect(
+        findLocalCodecovCli({ cliPath: '/opt/codecov/codecov', requestedVersion: 'latest' })
+      ).toEqual({
+        path: '/opt/codecov/codecov',
+        version: 'v10.1.0',
+        source: 'cliPath',
+        reason: 'version v10.1.0, no minimum version required',
+      });
+      expect(execFileSync).toHaveBeenCalledWith('/opt/codecov/codecov', ['--version'], {
+        encoding: 'utf8',
+      });
+      expect(tl.which).not.toHaveBeenCalled();
+    });
+
+    test('should throw when the configured cliPath does not exist', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      expect(() =>
+        findLocalCodecovCli({ cliPath: '/opt/codecov/codecov', requestedVersion: 'latest' })
+      ).toThrow('Specified Codecov CLI not found at /opt/codecov/codecov');
+    });
+
+    test('should throw when the configured cliPath is older than the minimum version', () => {
+      (execFileSync as jest.Mock).mockReturnValue('codecovcli, version 0.6.0');
+
+      expect(() =>
+        findLocalCodecovCli({
+          cliPath: '/opt/codecov/codecov',
+          requestedVersion: 'latest',
+          minimumVersion: 'v0.7.4',
+        })
+      ).toThrow(
+        'Specified Codecov CLI at /opt/codecov/codecov cannot be used: version v0.6.0 is older than the minimum version v0.7.4'
+      );
+    });
+
+    test('should throw when the configured cliPath cannot be run', () => {
+      (execFileSync as jest.Mock).mockImplementation(() => {
+        throw new Error('EACCES');
+      });
+
+      expect(() =>
+        findLocalCodecovCli({ cliPath: '/opt/codecov/codecov', requestedVersion: 'latest' })
+      ).toThrow("cannot be used: running '--version' failed: EACCES");
+    });
+
+    test('should use a CLI found on PATH that satisfies the minimum version', () => {
+      (tl.which as jest.Mock).mockReturnValue('/usr/local/bin/codecov');
+      (execFileSync as jest.Mock).mockReturnValue('codecovcli, version 10.1.0');
+
+      expect(
+        findLocalCodecovCli({
+          requestedVersion: 'latest',
+          minimumVersion: 'v0.7.4',
+          searchPath: true,
+        })
+      ).toEqual({
+        path: '/usr/local/bin/codecov',
+        version: 'v10.1.0',
+        source: 'PATH',
+        reason: 'version v10.1.0 satisfies the minimum version v0.7.4',
+      });
+      expect(tl.which).toHaveBeenCalledWith('codecov', false);
+    });
+
+    test('should not search PATH unless asked to', () => {
+      (tl.which as jest.Mock).mockReturnValue('/usr/local/bin/codecov');
+
+      expect(findLocalCodecovCli({ requestedVersion: 'latest' })).toBeNull();
+      expect(tl.which).not.toHaveBeenCalled();
+      expect(execFileSync).not.toHaveBeenCalled();
+    });
+
+    test('should return null when no CLI is found on PATH', () => {
+      expect(findLocalCodecovCli({ requestedVersion: 'latest', searchPath: true })).toBeNull();
+      expect(execFileSync).not.toHaveBeenCalled();
+    });
+
+    test('should ignore a CLI on PATH that is older than the minimum version', () => {
+      (tl.which as jest.Mock).mockReturnValue('/usr/local/bin/codecov');
+      (execFileSync as jest.Mock).mockReturnValue('codecovcli, version 0.6.0');
+
+      expect(
+        findLocalCodecovCli({
+          requestedVersion: 'latest',
+          minimumVersion: 'v0.7.4',
+          searchPath: true,
+        })
+      ).toBeNull();
+      expect(logger.info).toHaveBeenCalledWith(
+        'Ignoring Codecov CLI found on PATH at /usr/local/bin/codecov: version v0.6.0 is older than the minimum version v0.7.4'
+      );
+    });
+
+    test('should ignore a CLI on PATH that does not match the pinned version', () => {
+      (tl.which as jest.Mock).mockReturnValue('/usr/local/bin/codecov');
+      (execFileSync as jest.Mock).mockReturnValue('codecovcli, version 10.1.0');
+
+      expect(findLocalCodecovCli({ requestedVersion: 'v0.7.4', searchPath: true })).toBeNull();
+      expect(logger.info).toHaveBeenCalledWith(
+        'Ignoring Codecov CLI found on PATH at /usr/local/bin/codecov: version v10.1.0 does not match the requested version v0.7.4'
+      );
+    });
+
+    test('should use a CLI on PATH that matches the pinned version', () => {
+      (tl.which as jest.Mock).mockReturnValue('/usr/local/bin/codecov');
+      (execFileSync as jest.Mock).mockReturnValue('codecovcli, version 0.7.4');
+
+      expect(findLocalCodecovCli({ requestedVersion: 'v0.7.4', searchPath: true })).toEqual(
+        expect.objectContaining({
+          version: 'v0.7.4',
+          reason: 'version v0.7.4 matches the requested version',
+        })
+      );
+    });
+
+    test('should ignore a CLI on PATH whose version cannot be parsed', () => {
+      (tl.which as jest.Mock).mockReturnValue('/usr/local/bin/codecov');
+      (execFileSync as jest.Mock).mockReturnValue('usage: codecov [OPTIONS]');
+
+      expect(findLocalCodecovCli({ requestedVersion: 'latest', searchPath: true })).toBeNull();
+      expect(logger.info).toHaveBeenCalledWith(
+        "Ignoring Codecov CLI found on PATH at /usr/local/bin/codecov: unable to parse the version from 'usage: codecov [OPTIONS]'"
+      );
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import logger from '../utils/logger';
+import {
+  canConvertCoverageFormat,
+  convertCoverageFiles,
+  convertCoverageReport,
+} from '../utils/coverageConverterUtils';
+import { parseCoverageReport } from '../utils/coverageFormatUtils';
+
+describe('coverageConverterUtils', () => {
+  const openCover = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<CoverageSession>',
+    '  <Summary numSequencePoints="3" visitedSequencePoints="2" numBranchPoints="2" visitedBranchPoints="1" />',
+    '  <Modules>',
+    '    <Module hash="A1">',
+    '      <ModuleName>App</ModuleName>',
+    '      <Files>',
+    '        <File uid="1" fullPath="C:\\src\\App\\Calc &amp; Co.cs" />',
+    '      </Files>',
+    '      <Classes><Class><Methods><Method>',
+    '        <FileRef uid="1" />',
+    '        <SequencePoints>',
+    '          <SequencePoint vc="3" sl="10" />',
+    '          <SequencePoint vc="0" sl="11" />',
+    '          <SequencePoint vc="1" sl="12" />',
+    '          <SequencePoint vc="1" sl="0" />',
+    '        </SequencePoints>',
+    '        <BranchPoints>',
+    '          <BranchPoint vc="1" sl="10" />',
+    '          <BranchPoint vc="0" sl="10" />',
+    '        </BranchPoints>',
+    '      </Method></Methods></Class></Classes>',
+    '    </Module>',
+    '  </Modules>',
+    '</CoverageSession>',
+  ].join('\n');
+
+  const istanbul = JSON.stringify({
+    '/repo/src/app.js': {
+      path: '/repo/src/app.js',
+      statementMap: {
+        '0': { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
+        '1': { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
+      },
+      s: { '0': 4, '1': 0 },
+      branchMap: { '0': { loc: { start: { line: 1, column: 0 } }, line: 1 } },
+      b: { '0': [4, 0] },
+    },
+  });
+
+  const goProfile = ['mode: set', 'example.com/app/main.go:3.14,5.2 1 1', ''].join('\n');
+
+  describe('convertCoverageReport', () => {
+    test('should convert an OpenCover report to Cobertura', () => {
+      const converted = convertCoverageReport(openCover, 'opencover', 'cobertura');
+
+      expect(converted).toContain('filename="C:\\src\\App\\Calc &amp; Co.cs"');
+      expect(converted).toContain(
+        '<line number="10" hits="3" branch="true" condition-coverage="50% (1/2)"/>'
+      );
+      expect(parseCoverageReport(converted)).toEqual({
+        format: 'cobertura',
+        lines: { total: 3, covered: 2 },
+        branches: { total: 2, covered: 1 },
+        packages: [
+          {
+            name: 'C:/src/App',
+            lines: { total: 3, covered: 2 },
+            branches: { total: 2, covered: 1 },
+          },
+        ],
+      });
+    });
+
+    test('should convert an Istanbul report to lcov', () => {
+      expect(convertCoverageReport(istanbul, 'istanbul', 'lcov')).toBe(
+        [
+          'TN:',
+          'SF:/repo/src/app.js',
+          'BRDA:1,0,0,1',
+          'BRDA:1,0,1,0',
+          'BRF:2',
+          'BRH:1',
+          'DA:1,4',
+          'DA:2,0',
+          'LF:2',
+          'LH:1',
+          'end_of_record',
+          '',
+        ].join('\n')
+      );
+    });
+
+    test('should convert every line of a Go block', () => {
+      expect(parseCoverageReport(convertCoverageReport(goProfile, 'go', 'lcov'))).toEqual({
+        format: 'lcov',
+        lines: { total: 3, covered: 3 },
+        branches: { total: 0, covered: 0 },
+        packages: [
+          {
+            name: 'example.com/app',
+            lines: { total: 3, covered: 3 },
+            branches: { total: 0, covered: 0 },
+          },
+        ],
+      });
+    });
+
+    test('should reject a format that cannot be converted', () => {
+      expect(canConvertCoverageFormat('jacoco')).toBe(false);
+      expect(() => convertCoverageReport('<report/>', 'jacoco', 'cobertura')).toThrow(
+        'JaCoCo reports cannot be converted. Supported formats: OpenCover, Istanbul JSON, Go coverprofile'
+      );
+    });
+  });
+
+  describe('convertCoverageFiles', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverageconverter-test-'));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should convert the reports it can and keep the others', async () => {
+      const outputDirectory = path.join(tempDir, 'converted');
+      fs.mkdirSync(path.join(tempDir, 'web'));
+      fs.mkdirSync(path.join(tempDir, 'api'));
+      fs.mkdirSync(outputDirectory);
+      fs.writeFileSync(path.join(outputDirectory, 'stale.cobertura.xml'), '');
+      const files = [
+        { path: path.join(tempDir, 'web', 'coverage-final.json'), format: 'istanbul' as const },
+        { path: path.join(tempDir, 'api', 'coverage-final.json'), format: 'istanbul' as const },
+        { path: path.join(tempDir, 'coverage.xml'), format: 'cobertura' as const },
+        { path: path.join(tempDir, 'jacoco.xml'), format: 'jacoco' as const },
+        { path: path.join(tempDir, 'app.c.gcov'), format: null },
+      ];
+      for (const file of files.slice(0, 2)) {
+        fs.writeFileSync(file.path, istanbul);
+      }
+
+      const result = await convertCoverageFiles(files, 'cobertura', outputDirectory);
+
+      const outputs = [
+        path.join(outputDirectory, 'coverage-final.cobertura.xml'),
+        path.join(outputDirectory, 'coverage-final-2.cobertura.xml'),
+      ];
+      expect(result).toEqual({
+        files: [
+          ...outputs.map((output) => ({ path: output, format: 'cobertura' })),
+          ...files.slice(2),
+        ],
+        converted: [
+          { source: files[0]?.path, output: outputs[0] },
+          { source: files[1]?.path, output: outputs[1] },
+        ],
+      });
+      expect(fs.readdirSync(outputDirectory).sort()).toEqual([
+        'coverage-final-2.cobertura.xml',
+        'coverage-final.cobertura.xml',
+      ]);
+      expect(parseCoverageReport(fs.readFileSync(outputs[0] ?? '', 'utf8')).lines).toEqual({
+        total: 2,
+        covered: 1,
+      });
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringMatching(/jacoco\.xml is a JaCoCo report, which cannot be converted/)
+      );
+    });
+
+    test('should name the report that cannot be converted', async () => {
+      const report = path.join(tempDir, 'coverage.json');
+      fs.writeFileSync(report, '{ not json');
+
+      await expect(
+        convertCoverageFiles(
+          [{ path: report, format: 'istanbul' }],
+          'lcov',
+          path.join(tempDir, 'converted')
+        )
+      ).rejects.toThrow(/^Failed to convert coverage file .*coverage\.json: /);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { findCoverageFiles, resolveCoverageFilePatterns } from '../utils/coverageFileUtils';
+
+describe('coverageFileUtils', () => {
+  let tempDir: string;
+
+  /**
+   * Creates an empty file, and the folders it is in, below the temporary directory
+   */
+  const createFile = (relativePath: string): string => {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '');
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coveragefiles-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('findCoverageFiles', () => {
+    test('should find the reports matched by the Codecov CLI patterns in all subfolders', async () => {
+      const expected = [
+        createFile('coverage.xml'),
+        createFile('lcov.info'),
+        createFile('backend/cobertura.xml'),
+        createFile('backend/jacocoTestReport.xml'),
+        createFile('frontend/coverage/coverage-final.json'),
+        createFile('go/cover.out'),
+      ];
+      createFile('README.md');
+      createFile('results.trx');
+      createFile('coverage.py');
+      createFile('coverage-summary.json');
+      createFile('.coveragerc');
+
+      await expect(findCoverageFiles(tempDir)).resolves.toEqual(expected.sort());
+    });
+
+    test('should skip the folders the Codecov CLI ignores', async () => {
+      const expected = createFile('coverage/lcov.info');
+      createFile('node_modules/some-package/coverage/lcov.info');
+      createFile('.git/coverage.xml');
+      createFile('.venv-3.12/lib/coverage.xml');
+
+      await expect(findCoverageFiles(tempDir)).resolves.toEqual([expected]);
+    });
+
+    test('should skip excluded folders given by name or relative path', async () => {
+      const expected = createFile('src/coverage.xml');
+      createFile('generated/coverage.xml');
+      createFile('src/legacy/coverage.xml');
+      createFile('legacy/coverage.xml');
+
+      await expect(
+        findCoverageFiles(tempDir, { excludeFolders: ['generated', 'src/legacy', 'legacy'] })
+      ).resolves.toEqual([expected]);
+    });
+
+    test('should throw when the search root cannot be read', async () => {
+      const missing = path.join(tempDir, 'missing');
+
+      await expect(findCoverageFiles(missing)).rejects.toThrow(
+        /^Failed to search for coverage files in .*missing: .*ENOENT/
+      );
+    });
+  });
+
+  describe('resolveCoverageFilePatterns', () => {
+    test('should match every line of the input with tl.findMatch', () => {
+      const api = createFile('packages/api/coverage/cobertura-coverage.xml');
+      const web = createFile('packages/web/coverage/cobertura-coverage.xml');
+      const lcov = createFile('lcov.info');
+      createFile('packages/web/coverage/lcov.info');
+
+      expect(
+        resolveCoverageFilePatterns(
+          tempDir,
+          '**/coverage/cobertura-coverage.xml\r\n\nlcov.info\n**/api/**/cobertura-coverage.xml\n'
+        )
+      ).toEqual({ files: [api, web, lcov], unmatched: [] });
+    });
+
+    test('should remove the files matched by exclusion patterns', () => {
+      const api = createFile('packages/api/coverage/cobertura-coverage.xml');
+      createFile('packages/legacy/coverage/cobertura-coverage.xml');
+
+      expect(
+        resolveCoverageFilePatterns(tempDir, '**/cobertura-coverage.xml\n!packages/legacy/**').files
+      ).toEqual([api]);
+    });
+
+    test('should report the entries that match no file', () => {
+      fs.mkdirSync(path.join(tempDir, 'coverage.xml.d'));
+
+      expect(
+        resolveCoverageFilePatterns(tempDir, 'coverage.xml\n**/cobertura.xml\ncoverage.xml.*')
+      ).toEqual({
+        files: [],
+        unmatched: [
+          {
+            entry: 'coverage.xml',
+            message: `Specified coverage file not found at ${path.join(tempDir, 'coverage.xml')}`,
+          },
+          {
+            entry: '**/cobertura.xml',
+            message: `No coverage files match '**/cobertura.xml' in ${tempDir}`,
+          },
+          {
+            entry: 'coverage.xml.*',
+            message: `No coverage files match 'coverage.xml.*' in ${tempDir}`,
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { parseCoverageReport, validateCoverageFile } from '../utils/coverageFormatUtils';
+
+describe('coverageFormatUtils', () => {
+  describe('parseCoverageReport', () => {
+    test('should detect Cobertura and use the declared totals', () => {
+      const report = [
+        '\uFEFF<?xml version="1.0" ?>',
+        '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">',
+        '<coverage line-rate="0.75" lines-valid="4" lines-covered="3" branches-valid="4" branches-covered="3" version="1.9">',
+        '  <!-- Generated by coverage.py -->',
+        '  <sources><source>/agent/_work/1/s</source></sources>',
+        '  <packages>',
+        '    <package name="app" line-rate="0.75">',
+        '      <classes>',
+        "        <class name='main.py' filename='app/main.py'>",
+        '          <methods><method name="main"><lines>',
+        '            <line number="1" hits="1"/>',
+        '          </lines></method></methods>',
+        '          <lines>',
+        '            <line number="1" hits="1"/>',
+        '            <line number="2" hits="0" branch="true" condition-coverage="50% (1/2)"/>',
+        '          </lines>',
+        '        </class>',
+        '      </classes>',
+        '    </package>',
+        '  </packages>',
+        '</coverage>',
+      ].join('\r\n');
+
+      expect(parseCoverageReport(report)).toEqual({
+        format: 'cobertura',
+        lines: { total: 4, covered: 3 },
+        branches: { total: 4, covered: 3 },
+        packages: [
+          { name: 'app', lines: { total: 2, covered: 1 }, branches: { total: 2, covered: 1 } },
+        ],
+      });
+    });
+
+    test('should count the line elements of a Cobertura report without totals', () => {
+      const report =
+        '<coverage line-rate="0.5"><packages><package><classes><class><lines>' +
+        '<line number="1" hits="3"/><line number="2" hits="0"/>' +
+        '</lines></class></classes></package></packages></coverage>';
+
+      expect(parseCoverageReport(report)).toEqual({
+        format: 'cobertura',
+        lines: { total: 2, covered: 1 },
+        branches: { total: 0, covered: 0 },
+        packages: [
+          { name: '', lines: { total: 2, covered: 1 }, branches: { total: 0, covered: 0 } },
+        ],
+      });
+    });
+
+    test('should detect JaCoCo and use the report and package counters', () => {
+      const report = [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<!DOCTYPE report PUBLIC "-//JACOCO//DTD Report 1.1//EN" "report.dtd">',
+        '<report name="app">',
+        '  <package name="com/example">',
+        '    <sourcefile name="App.java">',
+        '      <line nr="3" mi="0" ci="2" mb="0" cb="0"/>',
+        '      <counter type="LINE" missed="1" covered="1"/>',
+        '    </sourcefile>',
+        '    <counter type="LINE" missed="1" covered="1"/>',
+        '    <counter type="BRANCH" missed="1" covered="3"/>',
+        '  </package>',
+        '  <counter type="INSTRUCTION" missed="4" covered="10"/>',
+        '  <counter type="LINE" missed="5" covered="15"/>',
+        '  <counter type="BRANCH" missed="2" covered="6"/>',
+        '</report>',
+      ].join('\n');
+
+      expect(parseCoverageReport(report)).toEqual({
+        format: 'jacoco',
+        lines: { total: 20, covered: 15 },
+        branches: { total: 8, covered: 6 },
+        packages: [
+          {
+            name: 'com/example',
+            lines: { total: 2, covered: 1 },
+            branches: { total: 4, covered: 3 },
+          },
+        ],
+      });
+    });
+
+    test('should detect OpenCover and count its sequence points by module', () => {
+      const summary =
+        'numSequencePoints="12" visitedSequencePoints="9" numBranchPoints="4" visitedBranchPoints="3"';
+      const report = [
+        '<CoverageSession xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+        `  <Summary ${summary} />`,
+        '  <Modules>',
+        '    <Module hash="A1">',
+        `      <Summary ${summary} />`,
+        '      <ModulePath>C:\\src\\bin\\App.dll</ModulePath>',
+        '      <ModuleName>App</ModuleName>',
+        '      <Files><File uid="1" fullPath="C:\\src\\App.cs" /></Files>',
+        '    </Module>',
+        '    <Module hash="B2" skippedDueTo="Filter"><ModuleName>xunit.core</ModuleName></Module>',
+        '  </Modules>',
+        '</CoverageSession>',
+      ].join('\n');
+
+      expect(parseCoverageReport(report)).toEqual({
+        format: 'opencover',
+        lines: { total: 12, covered: 9 },
+        branches: { total: 4, covered: 3 },
+        packages: [
+          { name: 'App', lines: { total: 12, covered: 9 }, branches: { total: 4, covered: 3 } },
+        ],
+      });
+    });
+
+    test('should detect Clover and skip method lines', () => {
+      const report = [
+        '<coverage generated="1700000000" clover="4.4.1">',
+        '  <project timestamp="1700000000">',
+        '    <package name="app">',
+        '      <file name="app.php">',
+        '        <line num="2" type="method" name="run" count="1"/>',
+        '        <line num="3" type="stmt" count="1"/>',
+        '        <line num="4" type="stmt" count="0"/>',
+        '        <line num="5" type="cond" truecount="1" falsecount="0" count="2"/>',
+        '      </file>',
+        '    </package>',
+        '  </project>',
+        '</coverage>',
+      ].join('\n');
+
+      expect(parseCoverageReport(report)).toEqual({
+        format: 'clover',
+        lines: { total: 3, covered: 2 },
+        branches: { total: 2, covered: 1 },
+        packages: [
+          { name: 'app', lines: { total: 3, covered: 2 }, branches: { total: 2, covered: 1 } },
+        ],
+      });
+    });
+
+    test('should detect lcov and count its DA and BRDA records by folder', () => {
+      const report = [
+        'TN:',
+        'SF:src/app.ts',
+        'FN:1,main',
+        'FNDA:1,main',
+        'DA:1,1',
+        'DA:2,0',
+        'DA:3,4,checksum',
+        'BRDA:2,0,0,-',
+        'BRDA:2,0,1,3',
+        'LF:3',
+        'LH:2',
+        'end_of_record',
+        'SF:lib/util.ts',
+        'DA:1,0',
+        'end_of_record',
+        '',
+      ].join('\n');
+
+      expect(parseCoverageReport(report)).toEqual({
+        format: 'lcov',
+        lines: { total: 4, covered: 2 },
+        branches: { total: 2, covered: 1 },
+        packages: [
+          { name: 'lib', lines: { total: 1, covered: 0 }, branches: { total: 0, covered: 0 } },
+          { name: 'src', lines: { total: 3, covered: 2 }, branches: { total: 2, covered: 1 } },
+        ],
+      });
+    });
+
+    test('should skip lcov records it does not know', () => {
+      const report = [
+        'TN:',
+        'SF:src/app.ts',
+        'VER:a1b2c3',
+        'FNL:0,1,3',
+        'FNA:0,1,main',
+        'MCDC:2,2,t,1,0,a',
+        'DA:1,1',
+        'end_of_record',
+        '',
+      ].join('\n');
+
+      expect(parseCoverageReport(report)).toMatchObject({
+        format: 'lcov',
+        lines: { total: 1, covered: 1 },
+      });
+    });
+
+    test('should detect a Go coverprofile and count the lines of its blocks', () => {
+      const report = [
+        'mode: atomic',
+        'example.com/app/main.go:5.13,7.2 2 1',
+        'example.com/app/main.go:7.2,9.3 1 0',
+        'example.com/app/util.go:3.20,3.40 1 0',
+        '',
+      ].join('\n');
+
+      expect(parseCoverageReport(report)).toEqual({
+        format: 'go',
+        lines: { total: 6, covered: 3 },
+        branches: { total: 0, covered: 0 },
+        packages: [
+          {
+            name: 'example.com/app',
+            lines: { total: 6, covered: 3 },
+            branches: { total: 0, covered: 0 },
+          },
+        ],
+      });
+    });
+
+    test('should detect Istanbul JSON and count the lines statements start on', () => {
+      const statement = (line: number): unknown => ({
+        start: { line, column: 0 },
+        end: { line, column: 10 },
+      });
+      const report = JSON.stringify({
+        '/src/app.js': {
+          path: '/src/app.js',
+          statementMap: { '0': statement(1), '1': statement(1), '2': statement(2) },
+          s: { '0': 1, '1': 0, '2': 0 },
+          branchMap: {},
+          b: { '0': [1, 0] },
+        },
+        '/src/util.js': {
+          data: { statementMap: { '0': statement(4) }, s: { '0': 7 } },
+        },
+      });
+
+      expect(parseCoverageReport(report)).toEqual({
+        format: 'istanbul',
+        lines: { total: 3, covered: 2 },
+        branches: { total: 2, covered: 1 },
+        packages: [
+          { name: '/src', lines: { total: 3, covered: 2 }, branches: { total: 2, covered: 1 } },
+        ],
+      });
+    });
+
+    test.each([
+      ['plain text', 'Total coverage: 80%', /^Unrecognized coverage format\. Expected Cobertura/],
+      [
+        'an XML document of another kind',
+        '<testsuites><testsuite/></testsuites>',
+        /^Unrecognized XML coverage format with root element <testsuites>$/,
+      ],
+      [
+        'a <coverage> element of another tool',
+        '<coverage><file/></coverage>',
+        /neither a line-rate attribute \(Cobertura\) nor a <project> element \(Clover\)$/,
+      ],
+      [
+        'a JSON document of another kind',
+        '{"total": {"lines": {"pct": 80}}}',
+        /^Unrecognized JSON coverage format: the entry for 'total' has no statementMap and s$/,
+      ],
+    ])('should reject %s', (_description, report, message) => {
+      expect(() => parseCoverageReport(report)).toThrow(message);
+    });
+
+    test.each([
+      [
+        'a truncated XML report',
+        '<coverage line-rate="1">\n  <packages>\n    <package name="app">',
+        /^Malformed XML on line 3: unexpected end of document, <package> is not closed$/,
+      ],
+      [
+        'mismatched XML tags',
+        '<report name="app">\n  <package>\n  </sourcefile>\n</report>',
+        /^Malformed XML on line 3: <\/sourcefile> does not close <package>$/,
+      ],
+      [
+        'two XML root elements',
+        '<coverage line-rate="1"></coverage>\n<coverage line-rate="1"></coverage>',
+        /^Malformed XML on line 2: <coverage> after the end of the root element$/,
+      ],
+      [
+        'an unquoted XML attribute',
+        '<coverage line-rate=1></coverage>',
+        /^Malformed XML on line 1: invalid start tag$/,
+      ],
+      [
+        'an out of range XML character reference',
+        '<report name="app">\n  <package name="a&#99999999;b"/>\n</report>',
+        /^Malformed XML on line 2: invalid character reference '&#99999999;'$/,
+      ],
+      [
+        'an XML character reference to a control character',
+        '<coverage line-rate="1">\n  <sources><source>&#x0;</source></sources>\n</coverage>',
+        /^Malformed XML on line 2: invalid character reference '&#x0;'$/,
+      ],
+      [
+        'an invalid Cobertura line total',
+        '<coverage line-rate="1" lines-valid="many" lines-covered="1"/>',
+        /^Invalid lines-valid value 'many'\. Expected a non-negative integer$/,
+      ],
+      [
+        'an lcov record without end_of_record',
+        'TN:\nSF:src/app.ts\nDA:1,1\n',
+        /^Malformed lcov: the record of src\/app\.ts has no end_of_record$/,
+      ],
+      [
+        'an invalid lcov DA record',
+        'SF:src/app.ts\nDA:one,1\nend_of_record\n',
+        /^Malformed lcov on line 2: invalid DA: 'one,1'$/,
+      ],
+      [
+        'an invalid lcov BRDA record',
+        'SF:src/app.ts\nBRDA:2,0,0,yes\nend_of_record\n',
+        /^Malformed lcov on line 2: invalid BRDA: '2,0,0,yes'$/,
+      ],
+      [
+        'an invalid Go coverprofile mode',
+        'mode: fast\n',
+        /^Malformed Go coverprofile on line 1: expected 'mode: set'/,
+      ],
+      [
+        'an invalid Go coverprofile block',
+        'mode: set\nmain.go:5.13,7.2 2\n',
+        /^Malformed Go coverprofile on line 2: 'main\.go:5\.13,7\.2 2'$/,
+      ],
+      ['truncated JSON', '{"/src/app.js": {"statementMap": {', /^Malformed JSON: /],
+    ])('should reject %s', (_description, report, message) => {
+      expect(() => parseCoverageReport(report)).toThrow(message);
+    });
+  });
+
+  describe('validateCoverageFile', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coverageformat-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should read and validate a coverage file', async () => {
+      const filePath = path.join(tempDir, 'lcov.info');
+      fs.writeFileSync(filePath, 'SF:src/app.ts\nDA:1,1\nend_of_record\n');
+
+      await expect(validateCoverageFile(filePath)).resolves.toMatchObject({
+        format: 'lcov',
+        lines: { total: 1, covered: 1 },
+      });
+    });
+
+    test('should name the file when it is invalid', async () => {
+      const filePath = path.join(tempDir, 'coverage.xml');
+      fs.writeFileSync(filePath, '<coverage line-rate="1">');
+
+      await expect(validateCoverageFile(filePath)).rejects.toThrow(
+        `Invalid coverage file ${filePath}: Malformed XML on line 1: unexpected end of document, <coverage> is not closed`
+      );
+    });
+
+    test('should throw when the file cannot be read', async () => {
+      const missing = path.join(tempDir, 'missing.xml');
+
+      await expect(validateCoverageFile(missing)).rejects.toThrow(
+        /^Failed to read coverage file .*missing\.xml: .*ENOENT/
+      );
+    });
+  });
+});
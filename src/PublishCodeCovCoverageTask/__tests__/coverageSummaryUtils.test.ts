@@ -0,0 +1,215 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import logger from '../utils/logger';
+import {
+  checkCoverageThresholds,
+  formatCoveragePercentage,
+  formatCoverageSummary,
+  parseCoverageThreshold,
+  publishCoverageSummary,
+  summarizeCoverageFiles,
+  type CoverageSummary,
+} from '../utils/coverageSummaryUtils';
+
+jest.mock('azure-pipelines-task-lib/task');
+
+describe('coverageSummaryUtils', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'coveragesummary-test-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const summary: CoverageSummary = {
+    files: [{ path: '/agent/_work/1/s/coverage.xml', format: 'cobertura' }],
+    lines: { total: 1024, covered: 812 },
+    branches: { total: 16, covered: 10 },
+    packages: [
+      { name: '', lines: { total: 24, covered: 12 }, branches: { total: 0, covered: 0 } },
+      {
+        name: 'api|v2',
+        lines: { total: 1000, covered: 800 },
+        branches: { total: 16, covered: 10 },
+      },
+    ],
+  };
+
+  describe('summarizeCoverageFiles', () => {
+    test('should add up the coverage of the reports and merge packages with the same name', async () => {
+      const cobertura = path.join(tempDir, 'coverage.xml');
+      const lcov = path.join(tempDir, 'lcov.info');
+      const gcov = path.join(tempDir, 'app.c.gcov');
+      fs.writeFileSync(
+        cobertura,
+        '<coverage line-rate="0.5"><packages><package name="src"><classes>' +
+          '<class filename="src/app.py"><lines><line number="1" hits="1"/><line number="2" hits="0"/></lines></class>' +
+          '</classes></package></packages></coverage>'
+      );
+      fs.writeFileSync(
+        lcov,
+        'SF:src/app.ts\nDA:1,1\nBRDA:1,0,0,1\nBRDA:1,0,1,0\nend_of_record\nSF:lib/util.ts\nDA:1,0\nend_of_record\n'
+      );
+      fs.writeFileSync(gcov, '        -:    0:Source:app.c\n');
+
+      const result = await summarizeCoverageFiles([cobertura, lcov, gcov]);
+
+      expect(result).toEqual({
+        files: [
+          { path: cobertura, format: 'cobertura' },
+          { path: lcov, format: 'lcov' },
+        ],
+        lines: { total: 4, covered: 2 },
+        branches: { total: 2, covered: 1 },
+        packages: [
+          { name: 'lib', lines: { total: 1, covered: 0 }, branches: { total: 0, covered: 0 } },
+          { name: 'src', lines: { total: 3, covered: 2 }, branches: { total: 2, covered: 1 } },
+        ],
+      });
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Coverage file .*app\.c\.gcov is left out of the coverage summary: Invalid coverage file/
+        )
+      );
+    });
+  });
+
+  describe('formatCoveragePercentage', () => {
+    test('should format the percentage with two decimals', () => {
+      expect(formatCoveragePercentage({ total: 3, covered: 2 })).toBe('66.67%');
+      expect(formatCoveragePercentage({ total: 0, covered: 0 })).toBe('n/a');
+    });
+  });
+
+  describe('parseCoverageThreshold', () => {
+    test('should parse a percentage', () => {
+      expect(parseCoverageThreshold('80', 'minimumLineCoverage')).toBe(80);
+      expect(parseCoverageThreshold(' 72.5% ', 'minimumLineCoverage')).toBe(72.5);
+      expect(parseCoverageThreshold('', 'minimumLineCoverage')).toBeNull();
+    });
+
+    test.each(['abc', '-5', '100.1', '1e2'])('should reject %p', (value) => {
+      expect(() => parseCoverageThreshold(value, 'minimumBranchCoverage')).toThrow(
+        `Invalid minimumBranchCoverage value '${value}'. Expected a percentage between 0 and 100`
+      );
+    });
+  });
+
+  describe('checkCoverageThresholds', () => {
+    test('should report every minimum that is not met', () => {
+      expect(checkCoverageThresholds(summary, { lines: 80, branches: 62.5 })).toEqual([
+        'Line coverage 79.30% is below the minimum of 80%',
+      ]);
+      expect(checkCoverageThresholds(summary, { lines: 79, branches: 70 })).toEqual([
+        'Branch coverage 62.50% is below the minimum of 70%',
+      ]);
+      expect(checkCoverageThresholds(summary, { lines: null, branches: null })).toEqual([]);
+    });
+
+    test('should not meet a minimum without coverage data', () => {
+      expect(
+        checkCoverageThresholds(
+          { ...summary, branches: { total: 0, covered: 0 } },
+          { lines: null, branches: 50 }
+        )
+      ).toEqual([
+        'Branch coverage cannot be checked against the minimum of 50%: the coverage reports have no branch data',
+      ]);
+    });
+  });
+
+  describe('formatCoverageSummary', () => {
+    test('should list the total and every package in a table', () => {
+      expect(
+        formatCoverageSummary(summary, 'https://app.codecov.io/gh/contoso/app/commit/abc123')
+      ).toBe(
+        [
+          '### Code coverage',
+          '',
+          'Computed from 1 coverage report(s). [View the commit on Codecov](https://app.codecov.io/gh/contoso/app/commit/abc123).',
+          '',
+          '| Package | Line coverage | Branch coverage |',
+          '| --- | ---: | ---: |',
+          '| **Total** | **79.30% (812 of 1024)** | **62.50% (10 of 16)** |',
+          '| (default) | 50.00% (12 of 24) | n/a |',
+          '| api\\|v2 | 80.00% (800 of 1000) | 62.50% (10 of 16) |',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('publishCoverageSummary', () => {
+    /**
+     * Mocks the predefined variables of a build of a GitHub repository
+     */
+    const mockBuildVariables = (variables: Record<string, string>): void => {
+      (tl.getVariable as jest.Mock).mockImplementation(
+        (name: string) =>
+          ({
+            'Build.Repository.Provider': 'GitHub',
+            'Build.Repository.Name': 'contoso/app',
+            'Build.SourceVersion': 'abc123',
+            ...variables,
+          })[name]
+      );
+    };
+
+    test('should write the summary with a link to the commit and add it to the build', async () => {
+      mockBuildVariables({});
+
+      const summaryPath = await publishCoverageSummary(summary, tempDir, false);
+
+      expect(summaryPath).toBe(path.join(tempDir, 'codecov-coverage-summary.md'));
+      expect(tl.uploadSummary).toHaveBeenCalledWith(summaryPath);
+      expect(fs.readFileSync(summaryPath, 'utf8')).toContain(
+        '[View the commit on Codecov](https://app.codecov.io/gh/contoso/app/commit/abc123)'
+      );
+    });
+
+    test('should link to the head commit of a pull request', async () => {
+      mockBuildVariables({
+        'Build.Repository.Provider': 'Bitbucket',
+        'System.PullRequest.SourceCommitId': 'def456',
+      });
+
+      const summaryPath = await publishCoverageSummary(summary, tempDir, false);
+
+      expect(fs.readFileSync(summaryPath, 'utf8')).toContain(
+        '(https://app.codecov.io/bb/contoso/app/commit/def456)'
+      );
+    });
+
+    test.each([
+      ['the repository is in Azure Repos', { 'Build.Repository.Provider': 'TfsGit' }, false],
+      ['the upload was a dry run', {}, true],
+    ])('should not link to Codecov when %s', async (_description, variables, dryRun) => {
+      mockBuildVariables(variables);
+
+      const summaryPath = await publishCoverageSummary(summary, tempDir, dryRun);
+
+      expect(fs.readFileSync(summaryPath, 'utf8')).not.toContain('codecov.io');
+    });
+
+    test('should not link to app.codecov.io for a self-hosted Codecov server', async () => {
+      mockBuildVariables({});
+      process.env.CODECOV_ENTERPRISE_URL = 'https://codecov.contoso.com';
+
+      try {
+        const summaryPath = await publishCoverageSummary(summary, tempDir, false);
+
+        expect(fs.readFileSync(summaryPath, 'utf8')).not.toContain('View the commit on Codecov');
+      } finally {
+        delete process.env.CODECOV_ENTERPRISE_URL;
+      }
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import logger from '../utils/logger';
+import { downloadFile, type DownloadProgress } from '../utils/webUtils';
+import {
+  downloadAll,
+  fileDownload,
+  type DownloadAllProgress,
+  type DownloadJob,
+} from '../utils/downloadManager';
+
+jest.mock('../utils/webUtils');
+
+/**
+ * Creates a job that can be completed or failed from the test, and rejects like downloadFile
+ * when its signal is aborted
+ */
+function createControlledJob(name: string): {
+  job: DownloadJob;
+  started: () => boolean;
+  signal: () => AbortSignal | undefined;
+  progress: (progress: DownloadProgress) => void;
+  complete: () => void;
+  fail: (message: string) => void;
+} {
+  let resolveJob: (() => void) | undefined;
+  let rejectJob: ((error: Error) => void) | undefined;
+  let jobSignal: AbortSignal | undefined;
+  let onProgress: ((progress: DownloadProgress) => void) | undefined;
+
+  return {
+    job: {
+      name,
+      download: (options) => {
+        jobSignal = options.signal;
+        onProgress = options.onProgress;
+        return new Promise<void>((resolve, reject) => {
+          resolveJob = resolve;
+          rejectJob = reject;
+          options.signal.addEventListener('abort', () =>
+            reject(new Error(`Download aborted by user: ${name}`))
+          );
+        });
+      },
+    },
+    started: () => jobSignal !== undefined,
+    signal: () => jobSignal,
+    progress: (progress) => onProgress?.(progress),
+    complete: () => resolveJob?.(),
+    fail: (message) => rejectJob?.(new Error(message)),
+  };
+}
+
+/**
+ * Lets pending promise callbacks run
+ */
+const flushPromises = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe('downloadManager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('fileDownload', () => {
+    test('should download the file with the signal and progress of the manager', async () => {
+      (downloadFile as jest.Mock).mockResolvedValue(undefined);
+      const controller = new AbortController();
+      const onProgress = jest.fn();
+
+      const job = fileDownload('https://example.com/codecov', 'codecov', { retries: 3 });
+      await job.download({ signal: controller.signal, onProgress });
+
+      expect(job.name).toBe('codecov');
+      expect(downloadFile).toHaveBeenCalledWith('https://example.com/codecov', 'codecov', {
+        retries: 3,
+        signal: controller.signal,
+        onProgress,
+      });
+    });
+
+    test('should not pass onProgress when progress is not tracked', async () => {
+      (downloadFile as jest.Mock).mockResolvedValue(undefined);
+      const controller = new AbortController();
+
+      await fileDownload('https://example.com/codecov', 'codecov').download({
+        signal: controller.signal,
+      });
+
+      expect(downloadFile).toHaveBeenCalledWith('https://example.com/codecov', 'codecov', {
+        signal: controller.signal,
+      });
+    });
+  });
+
+  describe('downloadAll', () => {
+    test('should run the downloads concurrently up to the concurrency limit', async () => {
+      const jobs = ['a', 'b', 'c'].map((name) => createControlledJob(name));
+
+      const downloadPromise = downloadAll(
+        jobs.map(({ job }) => job),
+        { concurrency: 2 }
+      );
+      await flushPromises();
+
+      expect(jobs.map(({ started }) => started())).toEqual([true, true, false]);
+
+      jobs[0]?.complete();
+      await flushPromises();
+      expect(jobs[2]?.started()).toBe(true);
+
+      jobs[1]?.complete();
+      jobs[2]?.complete();
+      await expect(downloadPromise).resolves.toBeUndefined();
+    });
+
+    test('should cancel the other downloads and list the failed ones in one error', async () => {
+      const jobs = ['codecov.SHA256SUM', 'codecov.SHA256SUM.sig', 'pgp_keys.asc', 'extra'].map(
+        (name) => createControlledJob(name)
+      );
+
+      const downloadPromise = downloadAll(
+        jobs.map(({ job }) => job),
+        { concurrency: 3 }
+      );
+      await flushPromises();
+      jobs[1]?.fail("Failed to get 'https://example.com/codecov.SHA256SUM.sig' (404)");
+
+      await expect(downloadPromise).rejects.toThrow(
+        "Failed to download 1 of 4 files:\ncodecov.SHA256SUM.sig: Failed to get 'https://example.com/codecov.SHA256SUM.sig' (404)\nCancelled: codecov.SHA256SUM, pgp_keys.asc, extra"
+      );
+      expect(jobs[0]?.signal()?.aborted).toBe(true);
+      // Downloads that did not start yet are never started
+      expect(jobs[3]?.started()).toBe(false);
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Failed to download codecov.SHA256SUM.sig: Failed to get 'https://example.com/codecov.SHA256SUM.sig' (404). Cancelling the other downloads"
+      );
+    });
+
+    test('should cancel all downloads when the signal of the caller is aborted', async () => {
+      const jobs = ['a', 'b'].map((name) => createControlledJob(name));
+      const controller = new AbortController();
+
+      const downloadPromise = downloadAll(
+        jobs.map(({ job }) => job),
+        { signal: controller.signal }
+      );
+      await flushPromises();
+      controller.abort();
+
+      await expect(downloadPromise).rejects.toThrow('Downloads aborted by user: a, b');
+    });
+
+    test('should aggregate the progress of all downloads', async () => {
+      const jobs = ['a', 'b'].map((name) => createControlledJob(name));
+      const onProgress = jest.fn<void, [DownloadAllProgress]>();
+
+      const downloadPromise = downloadAll(
+        jobs.map(({ job }) => job),
+        { onProgress }
+      );
+      await flushPromises();
+
+      jobs[0]?.progress({ bytesReceived: 50, totalBytes: 100, percent: 50 });
+      // The total size is unknown until every download reported its size
+      expect(onProgress).toHaveBeenLastCalledWith({
+        bytesReceived: 50,
+        totalBytes: null,
+        percent: null,
+        completedFiles: 0,
+        totalFiles: 2,
+      });
+
+      jobs[1]?.progress({ bytesReceived: 25, totalBytes: 300, percent: 8 });
+      expect(onProgress).toHaveBeenLastCalledWith({
+        bytesReceived: 75,
+        totalBytes: 400,
+        percent: 19,
+        completedFiles: 0,
+        totalFiles: 2,
+      });
+
+      jobs[0]?.progress({ bytesReceived: 100, totalBytes: 100, percent: 100 });
+      jobs[0]?.complete();
+      await flushPromises();
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ bytesReceived: 125, completedFiles: 1 })
+      );
+
+      jobs[1]?.complete();
+      await downloadPromise;
+    });
+
+    test('should resolve immediately without downloads', async () => {
+      await expect(downloadAll([])).resolves.toBeUndefined();
+    });
+  });
+});
@@ -2,7 +2,17 @@ import * as fs from 'node:fs';
 import { promises as fsPromises } from 'node:fs';
 import * as path from 'node:path';
 import * as crypto from 'node:crypto';
-import { verifyFileChecksum, calculateFileHashStreaming } from '../utils/fileUtils';
+import logger from '../utils/logger';
+import {
+  verifyFileChecksum,
+  verifyChecksumManifest,
+  calculateFileHashStreaming,
+  detectHashAlgorithm,
+  formatHashAlgorithm,
+  parseIntegrity,
+  parseSha256,
+  readExpectedChecksum,
+} from '../utils/fileUtils';
 
 // Mock fs, fs.promises, path and crypto modules
 jest.mock('node:fs', () => ({
@@ -14,6 +24,11 @@ jest.mock('node:fs', () => ({
 }));
 jest.mock('node:path');
 jest.mock('node:crypto');
+// The task library behind the logger needs the real crypto module
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
 
 // Define interface for mocked stream
 interface MockedStream {
@@ -131,7 +146,7 @@ describe('verifyFileChecksum', () => {
     // Mock fsPromises.readFile for the checksum file
     (fsPromises.readFile as jest.Mock).mockImplementation((path: string, encoding?: string) => {
       if (path === checksumFilePath && encoding === 'utf8') {
-        return Promise.resolve('expected1234567890 file.txt');
+        return Promise.resolve('0123456789abcdef file.txt');
       }
       return Promise.resolve(Buffer.from('file content'));
     });
@@ -170,7 +185,7 @@ describe('verifyFileChecksum', () => {
 
     // Execute function and expect error
     await expect(verifyFileChecksum(filePath, checksumFilePath)).rejects.toThrow(
-      `SHA-256 checksum verification failed for ${filePath}:\nExpected: expected1234567890\nActual: actual0987654321`
+      `SHA-256 checksum verification failed for ${filePath}:\nExpected: 0123456789abcdef\nActual: actual0987654321`
     );
   });
   it('should not match partial filenames', async () => {
@@ -694,3 +709,320 @@ describe('calculateFileHashStreaming', () => {
     );
   });
 });
+
+/**
+ * Mocks reading and hashing files so that each file has the given digest
+ * Reading a file without a digest fails like a missing file
+ * @returns The algorithms passed to crypto.createHash
+ */
+function mockFileDigests(digests: Record<string, string>): string[] {
+  const algorithms: string[] = [];
+  (path.basename as jest.Mock).mockImplementation((filePath: string) => filePath.split('/').pop());
+  (fs.createReadStream as jest.Mock).mockImplementation((filePath: string) => {
+    const stream: MockedStream = {
+      on: jest.fn((event: string, handler: (value?: unknown) => void) => {
+        if (!(filePath in digests)) {
+          if (event === 'error') {
+            setTimeout(() => handler(new Error(`ENOENT: no such file or directory`)), 0);
+          }
+        } else if (event === 'data') {
+          handler(Buffer.from(filePath));
+        } else if (event === 'end') {
+          setTimeout(() => handler(), 0);
+        }
+        return stream;
+      }),
+    };
+    return stream;
+  });
+  (crypto.createHash as jest.Mock).mockImplementation((algorithm: string) => {
+    algorithms.push(algorithm);
+    let hashedFile = '';
+    const hash: MockedHash = {
+      update: jest.fn((chunk: Buffer) => {
+        hashedFile = chunk.toString();
+      }),
+      digest: jest.fn(() => digests[hashedFile]),
+      on: jest.fn(),
+    };
+    return hash;
+  });
+  return algorithms;
+}
+
+describe('verifyFileChecksum algorithms', () => {
+  const sha512 = 'a'.repeat(128);
+  const sha1 = 'b'.repeat(40);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should detect the algorithm from the name of the checksum file', async () => {
+    const algorithms = mockFileDigests({ '/dist/codecov': sha512 });
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(`${sha512}  codecov\n`);
+    const mockLogger = jest.fn();
+
+    await verifyFileChecksum('/dist/codecov', '/dist/SHA512SUMS', mockLogger);
+
+    expect(algorithms).toEqual(['sha512']);
+    expect(mockLogger).toHaveBeenCalledWith('SHA-512 checksum verified for /dist/codecov');
+  });
+
+  it('should use the given algorithm', async () => {
+    const algorithms = mockFileDigests({ '/dist/codecov': sha512 });
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(`${sha512}  codecov\n`);
+
+    await verifyFileChecksum('/dist/codecov', '/dist/checksums.txt', undefined, 'sha512');
+
+    expect(algorithms).toEqual(['sha512']);
+  });
+
+  it('should accept SHA-1 with a deprecation warning', async () => {
+    const algorithms = mockFileDigests({ '/dist/codecov': sha1 });
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(`${sha1}  codecov\n`);
+    // The warning is logged also when no logging function is passed
+    await verifyFileChecksum('/dist/codecov', '/dist/checksums.txt');
+
+    expect(algorithms).toEqual(['sha1']);
+    expect(logger.warn).toHaveBeenCalledWith(
+      '/dist/checksums.txt uses SHA-1 checksums, which are deprecated because SHA-1 is no longer collision resistant. Use SHA-256 or stronger checksums'
+    );
+  });
+
+  it('should use the algorithm named by a BSD-style line', async () => {
+    const algorithms = mockFileDigests({ '/dist/codecov': sha512 });
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(
+      `SHA1 (codecov) = ${sha1}\r\nSHA512 (codecov) = ${sha512}\r\n`
+    );
+
+    await verifyFileChecksum('/dist/codecov', '/dist/CHECKSUM');
+
+    expect(algorithms).toEqual(['sha512']);
+  });
+});
+
+describe('verifyChecksumManifest', () => {
+  const sha256 = (char: string): string => char.repeat(64);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should report the result of every file instead of stopping at the first failure', async () => {
+    mockFileDigests({
+      '/dist/codecov': sha256('a'),
+      '/dist/codecov.exe': sha256('f'),
+      '/dist/codecov-arm64': sha256('c'),
+    });
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(
+      [
+        `${sha256('a')}  codecov`,
+        `${sha256('b')}  codecov.exe`,
+        `${sha256('c')}  codecov-arm64`,
+        `${sha256('d')}  codecov-missing`,
+      ].join('\n')
+    );
+    const mockLogger = jest.fn();
+
+    const report = await verifyChecksumManifest(
+      ['/dist/codecov', '/dist/codecov.exe', '/dist/codecov-macos', '/dist/codecov-missing'],
+      '/dist/SHA256SUMS',
+      { logger: mockLogger }
+    );
+
+    expect(report.verified).toBe(false);
+    expect(report.checksumFilePath).toBe('/dist/SHA256SUMS');
+    expect(report.results.map(({ filePath, status }) => ({ filePath, status }))).toEqual([
+      { filePath: '/dist/codecov', status: 'verified' },
+      { filePath: '/dist/codecov.exe', status: 'mismatch' },
+      { filePath: '/dist/codecov-macos', status: 'missing' },
+      { filePath: '/dist/codecov-missing', status: 'error' },
+    ]);
+    expect(report.results[1]).toEqual({
+      filePath: '/dist/codecov.exe',
+      status: 'mismatch',
+      algorithm: 'sha256',
+      expected: sha256('b'),
+      actual: sha256('f'),
+      message: `SHA-256 checksum verification failed for /dist/codecov.exe:\nExpected: ${sha256('b')}\nActual: ${sha256('f')}`,
+    });
+    expect(report.results[2]?.message).toBe(
+      'Checksum not found for codecov-macos in /dist/SHA256SUMS'
+    );
+    expect(report.results[3]?.message).toBe(
+      'Failed to verify checksum for /dist/codecov-missing: Failed to read file /dist/codecov-missing: ENOENT: no such file or directory'
+    );
+    expect(mockLogger).toHaveBeenCalledTimes(4);
+  });
+
+  it('should read the manifest once', async () => {
+    mockFileDigests({ '/dist/a': sha256('a'), '/dist/b': sha256('b') });
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(`${sha256('a')}  a\n${sha256('b')}  b\n`);
+
+    const report = await verifyChecksumManifest(['/dist/a', '/dist/b'], '/dist/SHA256SUMS');
+
+    expect(report.verified).toBe(true);
+    expect(fsPromises.readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a checksum that does not match the algorithm of the manifest', async () => {
+    mockFileDigests({ '/dist/a': sha256('a') });
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(`${sha256('a')}  a\n`);
+
+    const report = await verifyChecksumManifest(['/dist/a'], '/dist/SHA512SUMS');
+
+    expect(report.results[0]?.status).toBe('error');
+    expect(report.results[0]?.message).toContain(
+      'is a SHA-256 digest, but the file name indicates SHA-512'
+    );
+  });
+
+  it('should report a file that matches several entries of the manifest', async () => {
+    mockFileDigests({ '/dist/codecov': sha256('a') });
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(
+      `${sha256('a')}  linux/codecov\n${sha256('b')}  macos/codecov\n`
+    );
+
+    const report = await verifyChecksumManifest(['/dist/codecov'], '/dist/SHA256SUMS');
+
+    expect(report.results[0]).toEqual({
+      filePath: '/dist/codecov',
+      status: 'error',
+      message:
+        "Failed to verify checksum for /dist/codecov: Ambiguous checksum entries for 'codecov' in /dist/SHA256SUMS: 'linux/codecov', 'macos/codecov'",
+    });
+  });
+
+  it('should throw when the manifest lists conflicting checksums', async () => {
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(
+      `${sha256('a')}  codecov\n${sha256('b')}  codecov\n`
+    );
+
+    await expect(verifyChecksumManifest(['/dist/codecov'], '/dist/SHA256SUMS')).rejects.toThrow(
+      "Conflicting checksums for 'codecov' in /dist/SHA256SUMS on lines 1 and 2"
+    );
+  });
+
+  it('should throw when the manifest cannot be read', async () => {
+    (fsPromises.readFile as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+
+    await expect(verifyChecksumManifest(['/dist/a'], '/dist/SHA256SUMS')).rejects.toThrow(
+      'Failed to read checksum file /dist/SHA256SUMS: ENOENT'
+    );
+  });
+});
+
+describe('detectHashAlgorithm', () => {
+  it.each([
+    ['SHA512SUMS', 'sha512'],
+    ['/dist/codecov.SHA256SUM', 'sha256'],
+    ['C:\\dist\\codecov.exe.sha384', 'sha384'],
+    ['sha1sums.txt', 'sha1'],
+    ['SHA-256SUMS', 'sha256'],
+  ])('should detect the algorithm from the file name %s', (checksumFilePath, expected) => {
+    expect(detectHashAlgorithm('0123456789abcdef', checksumFilePath)).toBe(expected);
+  });
+
+  it.each([
+    [40, 'sha1'],
+    [64, 'sha256'],
+    [96, 'sha384'],
+    [128, 'sha512'],
+  ])('should detect the algorithm of a %i character digest', (length, expected) => {
+    expect(detectHashAlgorithm('a'.repeat(length), 'checksums.txt')).toBe(expected);
+  });
+
+  it('should return null when the algorithm cannot be detected', () => {
+    expect(detectHashAlgorithm('0123456789abcdef')).toBeNull();
+  });
+
+  it('should reject a digest that does not match the algorithm named by the file', () => {
+    expect(() => detectHashAlgorithm('a'.repeat(64), 'SHA512SUMS')).toThrow(
+      `Checksum '${'a'.repeat(64)}' in SHA512SUMS is a SHA-256 digest, but the file name indicates SHA-512`
+    );
+  });
+});
+
+describe('readExpectedChecksum', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should return the lowercase hash of the file', async () => {
+    (fsPromises.readFile as jest.Mock).mockResolvedValue(
+      'ABCDEF1234567890  codecov\nfedcba0987654321  codecov.exe\n'
+    );
+
+    await expect(readExpectedChecksum('/path/to/codecov.SHA256SUM', 'codecov')).resolves.toBe(
+      'abcdef1234567890'
+    );
+  });
+
+  it('should throw when the file is not listed', async () => {
+    (fsPromises.readFile as jest.Mock).mockResolvedValue('fedcba0987654321  codecov.exe\n');
+
+    await expect(readExpectedChecksum('/path/to/codecov.SHA256SUM', 'codecov')).rejects.toThrow(
+      'Checksum not found for codecov in /path/to/codecov.SHA256SUM'
+    );
+  });
+});
+
+describe('parseSha256', () => {
+  const sha256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+  it('should normalize a hex digest to lowercase', () => {
+    expect(parseSha256(` ${sha256.toUpperCase()} `)).toEqual({
+      algorithm: 'sha256',
+      digest: sha256,
+    });
+  });
+
+  it('should reject a value that is not a SHA-256 digest', () => {
+    expect(() => parseSha256(sha256.slice(1))).toThrow(
+      `Invalid SHA-256 digest '${sha256.slice(1)}'. Expected 64 hexadecimal characters`
+    );
+    expect(() => parseSha256(`sha256-${sha256}`)).toThrow('Invalid SHA-256 digest');
+  });
+});
+
+describe('parseIntegrity', () => {
+  // Digests of the empty string
+  const sha256 = '47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=';
+  const sha384 = 'OLBgp1GsljhM2TJ+sbHjaiH9txEUvgdDTAzHv2P24donTt6/529l+9Ua0vFImLlb';
+
+  it('should convert the base64 digest to hex', () => {
+    expect(parseIntegrity(`sha256-${sha256}`)).toEqual({
+      algorithm: 'sha256',
+      digest: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    });
+  });
+
+  it('should use the strongest algorithm and ignore options and unknown entries', () => {
+    expect(
+      parseIntegrity(
+        `md5-1B2M2Y8AsgTpgAmY7PhCfg== sha384-${sha384}?ct=application/octet-stream sha256-${sha256}`
+      )
+    ).toEqual({
+      algorithm: 'sha384',
+      digest:
+        '38b060a751ac96384cd9327eb1b1e36a21fdb71114be07434c0cc7bf63f6e1da274edebfe76f65fbd51ad2f14898b95b',
+    });
+  });
+
+  it('should reject a value without a supported digest', () => {
+    expect(() => parseIntegrity('sha1-2jmj7l5rSw0yVb/vlWAYkK/YBwk=')).toThrow(
+      "Invalid integrity value 'sha1-2jmj7l5rSw0yVb/vlWAYkK/YBwk='"
+    );
+    // A SHA-256 digest labelled as SHA-512
+    expect(() => parseIntegrity(`sha512-${sha256}`)).toThrow('Invalid integrity value');
+  });
+});
+
+describe('formatHashAlgorithm', () => {
+  it('should format the algorithm for messages', () => {
+    expect(formatHashAlgorithm('sha256')).toBe('SHA-256');
+    expect(formatHashAlgorithm('sha512')).toBe('SHA-512');
+    expect(formatHashAlgorithm('sha1')).toBe('SHA-1');
+  });
+});
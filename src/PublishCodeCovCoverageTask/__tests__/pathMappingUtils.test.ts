@@ -0,0 +1,262 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import logger from '../utils/logger';
+import {
+  mapPath,
+  parsePathMappings,
+  remapCoverageFiles,
+  rewriteCoveragePaths,
+} from '../utils/pathMappingUtils';
+
+describe('pathMappingUtils', () => {
+  describe('parsePathMappings', () => {
+    test('should parse prefix and regular expression rules', () => {
+      const mappings = parsePathMappings(
+        [
+          '/src/app/ => ',
+          '',
+          '  D:\\a\\1\\s\\=>src  ',
+          'regex:^C:\\\\build\\\\(\\w+)\\\\=>$1/',
+        ].join('\r\n')
+      );
+
+      expect(mappings).toEqual([
+        { rule: '/src/app/ =>', from: '/src/app', to: '' },
+        { rule: 'D:\\a\\1\\s\\=>src', from: 'D:/a/1/s', to: 'src' },
+        { rule: 'regex:^C:\\\\build\\\\(\\w+)\\\\=>$1/', from: /^C:\\build\\(\w+)\\/, to: '$1/' },
+      ]);
+    });
+
+    test.each([
+      ['src/app', "Invalid pathMappings rule 'src/app'. Expected 'from=>to'"],
+      ['=>src', "Invalid pathMappings rule '=>src'. Expected 'from=>to'"],
+      ['regex:=>src', "Invalid pathMappings rule 'regex:=>src'. Expected 'from=>to'"],
+      ['regex:(=>src', "Invalid regular expression in pathMappings rule 'regex:(=>src': "],
+    ])('should reject %p', (input, message) => {
+      expect(() => parsePathMappings(input)).toThrow(message);
+    });
+  });
+
+  describe('mapPath', () => {
+    const mappings = parsePathMappings(
+      ['/src/app=>', 'D:\\a\\1\\s=>repo/', 'regex:^/home/(\\w+)/project/=>users/$1/'].join('\n')
+    );
+
+    test('should rewrite a path with the first rule that matches', () => {
+      expect(mapPath('/src/app/lib/util.ts', mappings)).toBe('lib/util.ts');
+      expect(mapPath('D:\\a\\1\\s\\Api\\Calc.cs', mappings)).toBe('repo/Api/Calc.cs');
+      expect(mapPath('/home/alice/project/main.go', mappings)).toBe('users/alice/main.go');
+    });
+
+    test('should match a Windows prefix regardless of case', () => {
+      expect(mapPath('d:\\A\\1\\S\\Api\\Calc.cs', mappings)).toBe('repo/Api/Calc.cs');
+      expect(
+        mapPath('\\\\BUILD\\Share\\lib\\a.cs', parsePathMappings('\\\\build\\share=>src'))
+      ).toBe('src/lib/a.cs');
+      // Paths on other platforms are case-sensitive
+      expect(mapPath('/SRC/app/lib/util.ts', mappings)).toBeNull();
+    });
+
+    test('should only match a prefix at a folder boundary', () => {
+      expect(mapPath('/src/application/main.ts', mappings)).toBeNull();
+      expect(mapPath('lib/util.ts', mappings)).toBeNull();
+    });
+  });
+
+  describe('rewriteCoveragePaths', () => {
+    const mappings = parsePathMappings('/src/app=>\n/build/sources=>src');
+
+    test('should rewrite the file names and source folders of a Cobertura report', () => {
+      const report = [
+        '<?xml version="1.0" ?>',
+        '<coverage line-rate="1">',
+        '  <sources><source>/build/sources</source></sources>',
+        '  <packages><package name="lib"><classes>',
+        '    <class name="util" filename="/src/app/lib/a&amp;b.ts" line-rate="1"><lines/></class>',
+        "    <class name='main' filename='main.ts'><lines/></class>",
+        '  </classes></package></packages>',
+        '</coverage>',
+      ].join('\n');
+
+      const result = rewriteCoveragePaths(report, 'cobertura', mappings);
+
+      expect(result.content).toBe(
+        report
+          .replace('<source>/build/sources</source>', '<source>src</source>')
+          .replace('filename="/src/app/lib/a&amp;b.ts"', 'filename="lib/a&amp;b.ts"')
+          .replace("filename='main.ts'", 'filename="main.ts"')
+      );
+      expect(result).toMatchObject({
+        total: 3,
+        rewritten: 2,
+        sourceFiles: ['lib/a&b.ts', 'main.ts'],
+        sourceFolders: ['src'],
+      });
+    });
+
+    test('should rewrite the package names of a JaCoCo report', () => {
+      const report = [
+        '<report name="app">',
+        '  <package name="/src/app/com/example">',
+        '    <class name="com/example/App" sourcefilename="App.java"/>',
+        '    <sourcefile name="App.java"><counter type="LINE" missed="0" covered="1"/></sourcefile>',
+        '  </package>',
+        "  <package name='org/example'>",
+        '    <sourcefile name="Lib.java"><counter type="LINE" missed="0" covered="1"/></sourcefile>',
+        '  </package>',
+        '</report>',
+      ].join('\n');
+
+      const result = rewriteCoveragePaths(report, 'jacoco', mappings);
+
+      expect(result.content).toContain('<package name="com/example">');
+      expect(result.content).toContain('<class name="com/example/App"');
+      expect(result.content).toContain('<package name="org/example">');
+      // A package name no rule rewrote is a Java package, not a folder of the repository
+      expect(result).toMatchObject({
+        total: 2,
+        rewritten: 1,
+        sourceFiles: ['com/example/App.java'],
+      });
+    });
+
+    test('should rewrite the SF records of an lcov report', () => {
+      const report = 'TN:\r\nSF:/src/app/main.ts\r\nDA:1,1\r\nend_of_record\r\nSF:lib.ts\r\n';
+
+      const result = rewriteCoveragePaths(report, 'lcov', mappings);
+
+      expect(result.content).toBe('TN:\r\nSF:main.ts\r\nDA:1,1\r\nend_of_record\r\nSF:lib.ts\r\n');
+      expect(result).toMatchObject({ total: 2, rewritten: 1, sourceFiles: ['main.ts', 'lib.ts'] });
+    });
+
+    test('should name the line of an invalid character reference', () => {
+      const report =
+        '<coverage>\n  <packages><package name="app"><classes>\n    <class filename="/src/app/a&#x110000;.ts"/>\n  </classes></package></packages>\n</coverage>';
+
+      expect(() => rewriteCoveragePaths(report, 'cobertura', mappings)).toThrow(
+        "Malformed XML on line 3: invalid character reference '&#x110000;'"
+      );
+    });
+
+    test('should reject a format without rewritable paths', () => {
+      expect(() => rewriteCoveragePaths('mode: set\n', 'go', mappings)).toThrow(
+        'The paths of Go coverprofile reports cannot be rewritten'
+      );
+    });
+  });
+
+  describe('remapCoverageFiles', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pathmapping-test-'));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should write the rewritten reports to copies and name the missing source files', async () => {
+      const repository = path.join(tempDir, 'repo');
+      const outputDirectory = path.join(tempDir, 'remapped');
+      fs.mkdirSync(path.join(repository, 'lib'), { recursive: true });
+      fs.writeFileSync(path.join(repository, 'lib', 'util.ts'), '');
+      for (const folder of ['web', 'api']) {
+        fs.mkdirSync(path.join(tempDir, folder));
+        fs.writeFileSync(
+          path.join(tempDir, folder, 'lcov.info'),
+          'SF:/src/app/lib/util.ts\nend_of_record\nSF:/src/app/lib/gone.ts\nend_of_record\n'
+        );
+      }
+      const unchanged = path.join(tempDir, 'unchanged.info');
+      fs.writeFileSync(unchanged, `SF:${path.join(repository, 'lib', 'util.ts')}\nend_of_record\n`);
+      const files = [
+        { path: path.join(tempDir, 'web', 'lcov.info'), format: 'lcov' as const },
+        { path: path.join(tempDir, 'api', 'lcov.info'), format: 'lcov' as const },
+        { path: unchanged, format: 'lcov' as const },
+        { path: path.join(tempDir, 'coverage.out'), format: 'go' as const },
+        { path: path.join(tempDir, 'app.c.gcov'), format: null },
+      ];
+
+      const result = await remapCoverageFiles(
+        files,
+        parsePathMappings('/src/app=>'),
+        outputDirectory,
+        repository
+      );
+
+      expect(result).toEqual([
+        { path: path.join(outputDirectory, 'lcov.info'), format: 'lcov' },
+        { path: path.join(outputDirectory, 'lcov-2.info'), format: 'lcov' },
+        ...files.slice(2),
+      ]);
+      expect(fs.readFileSync(path.join(outputDirectory, 'lcov.info'), 'utf8')).toBe(
+        'SF:lib/util.ts\nend_of_record\nSF:lib/gone.ts\nend_of_record\n'
+      );
+      expect(fs.readdirSync(outputDirectory).sort()).toEqual(['lcov-2.info', 'lcov.info']);
+      expect(logger.info).toHaveBeenCalledWith(
+        `Rewrote 2 of 2 path(s) in coverage file ${files[0]?.path} into ${result[0]?.path}`
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        `Rewrote 0 of 1 path(s) in coverage file ${unchanged}`
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        `The paths of coverage file ${files[3]?.path} are not rewritten: Go coverprofile reports are not supported`
+      );
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledWith(
+        `1 source file(s) of coverage file ${files[0]?.path} do not exist on disk: lib/gone.ts`
+      );
+    });
+
+    test('should only look up the source files of rewritten JaCoCo packages', async () => {
+      const repository = path.join(tempDir, 'repo');
+      fs.mkdirSync(path.join(repository, 'app', 'src', 'main', 'java', 'com', 'example'), {
+        recursive: true,
+      });
+      const report = path.join(tempDir, 'jacoco.xml');
+      fs.writeFileSync(
+        report,
+        [
+          '<report name="app">',
+          '  <package name="com/example"><sourcefile name="App.java"/></package>',
+          '  <package name="org/example"><sourcefile name="Lib.java"/></package>',
+          '</report>',
+        ].join('\n')
+      );
+
+      await remapCoverageFiles(
+        [{ path: report, format: 'jacoco' }],
+        parsePathMappings('com/example=>app/src/main/java/com/example'),
+        path.join(tempDir, 'remapped'),
+        repository
+      );
+
+      // org/example is resolved by Codecov under a source root such as src/main/java
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        `1 source file(s) of coverage file ${report} do not exist on disk: app/src/main/java/com/example/App.java`
+      );
+    });
+
+    test('should name the report that cannot be rewritten', async () => {
+      const report = path.join(tempDir, 'coverage.xml');
+      fs.writeFileSync(report, '<coverage line-rate="1"><packages>');
+
+      await expect(
+        remapCoverageFiles(
+          [{ path: report, format: 'cobertura' }],
+          parsePathMappings('/src=>'),
+          path.join(tempDir, 'remapped'),
+          tempDir
+        )
+      ).rejects.toThrow(
+        /^Failed to rewrite the paths of coverage file .*coverage\.xml: Malformed XML/
+      );
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as openpgp from 'openpgp';
+import logger from '../utils/logger';
+import { downloadFile } from '../utils/webUtils';
+import {
+  CODECOV_PGP_KEY_FINGERPRINT,
+  downloadPgpKeys,
+  getPgpKeyUrls,
+  normalizePgpFingerprint,
+  verifyDetachedSignature,
+} from '../utils/pgpUtils';
+
+jest.mock('../utils/webUtils');
+
+/**
+ * These tests generate throwaway key pairs locally so signature verification
+ * can be tested offline without relying on the real Codecov keys.
+ */
+describe('pgpUtils', () => {
+  let tempDir: string;
+  let signingKey: { privateKey: string; publicKey: string };
+  let otherKey: { privateKey: string; publicKey: string };
+  let signingKeyFingerprint: string;
+
+  const generateKeyPair = (name: string): Promise<{ privateKey: string; publicKey: string }> =>
+    openpgp.generateKey({
+      type: 'ecc',
+      curve: 'curve25519Legacy',
+      userIDs: [{ name, email: `${name.toLowerCase()}@example.com` }],
+      format: 'armored',
+    });
+
+  const signFile = async (
+    content: string,
+    privateKeyArmored: string,
+    armored: boolean
+  ): Promise<string | Uint8Array> => {
+    const privateKey = await openpgp.readPrivateKey({ armoredKey: privateKeyArmored });
+    const message = await openpgp.createMessage({ binary: Buffer.from(content) });
+    if (armored) {
+      return openpgp.sign({ message, signingKeys: privateKey, detached: true });
+    }
+    return openpgp.sign({ message, signingKeys: privateKey, detached: true, format: 'binary' });
+  };
+
+  beforeAll(async () => {
+    signingKey = await generateKeyPair('Signer');
+    otherKey = await generateKeyPair('Other');
+    const publicKey = await openpgp.readKey({ armoredKey: signingKey.publicKey });
+    signingKeyFingerprint = publicKey.getFingerprint().toUpperCase();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pgputils-test-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeFiles = async (options: {
+    content: string;
+    signedContent?: string;
+    signer?: string;
+    keys?: string;
+    armored?: boolean;
+  }): Promise<{ file: string; signature: string; keys: string }> => {
+    const file = path.join(tempDir, 'codecov.SHA256SUM');
+    const signature = path.join(tempDir, 'codecov.SHA256SUM.sig');
+    const keys = path.join(tempDir, 'pgp_keys.asc');
+    fs.writeFileSync(file, options.content);
+    fs.writeFileSync(
+      signature,
+      await signFile(
+        options.signedContent ?? options.content,
+        options.signer ?? signingKey.privateKey,
+        options.armored ?? false
+      )
+    );
+    fs.writeFileSync(keys, options.keys ?? signingKey.publicKey);
+    return { file, signature, keys };
+  };
+
+  test('should verify a binary detached signature and report the signing key', async () => {
+    const { file, signature, keys } = await writeFiles({ content: 'abc123  codecov\n' });
+
+    const result = await verifyDetachedSignature(file, signature, keys);
+
+    expect(result.fingerprint).toBe(signingKeyFingerprint);
+    expect(result.keyId).toMatch(/^[0-9A-F]{16}$/);
+  });
+
+  test('should verify an ASCII armored detached signature', async () => {
+    const { file, signature, keys } = await writeFiles({
+      content: 'abc123  codecov\n',
+      armored: true,
+    });
+
+    await expect(verifyDetachedSignature(file, signature, keys)).resolves.toEqual(
+      expect.objectContaining({ fingerprint: signingKeyFingerprint })
+    );
+  });
+
+  test('should find the signing key among several public keys', async () => {
+    const { file, signature, keys } = await writeFiles({
+      content: 'abc123  codecov\n',
+      keys: `${otherKey.publicKey}\n${signingKey.publicKey}`,
+    });
+
+    await expect(verifyDetachedSignature(file, signature, keys)).resolves.toEqual(
+      expect.objectContaining({ fingerprint: signingKeyFingerprint })
+    );
+  });
+
+  test('should fail when the signed file was modified', async () => {
+    const { file, signature, keys } = await writeFiles({
+      content: 'tampered  codecov\n',
+      signedContent: 'abc123  codecov\n',
+    });
+
+    await expect(verifyDetachedSignature(file, signature, keys)).rejects.toThrow(
+      `Signature verification failed for ${file} using ${signature}`
+    );
+  });
+
+  test('should fail when the signature was made by an untrusted key', async () => {
+    const { file, signature, keys } = await writeFiles({
+      content: 'abc123  codecov\n',
+      signer: otherKey.privateKey,
+    });
+
+    await expect(verifyDetachedSignature(file, signature, keys)).rejects.toThrow(
+      'Signature verification failed'
+    );
+  });
+
+  test('should fail with a clear error when the signature cannot be parsed', async () => {
+    const { file, signature, keys } = await writeFiles({ content: 'abc123  codecov\n' });
+    fs.writeFileSync(signature, 'not a signature');
+
+    await expect(verifyDetachedSignature(file, signature, keys)).rejects.toThrow(
+      `Failed to read signature ${signature}`
+    );
+  });
+
+  test('should fail with a clear error when the public keys cannot be parsed', async () => {
+    const { file, signature, keys } = await writeFiles({ content: 'abc123  codecov\n' });
+    fs.writeFileSync(keys, '<html>Service unavailable</html>');
+
+    await expect(verifyDetachedSignature(file, signature, keys)).rejects.toThrow(
+      `Failed to read public keys from ${keys}`
+    );
+  });
+
+  test('should fail with a clear error when a file is missing', async () => {
+    const missing = path.join(tempDir, 'missing');
+
+    await expect(verifyDetachedSignature(missing, missing, missing)).rejects.toThrow(
+      `Failed to read file ${missing}`
+    );
+  });
+
+  test('should accept the signature when it was made by the pinned key', async () => {
+    const { file, signature, keys } = await writeFiles({
+      content: 'abc123  codecov\n',
+      keys: `${otherKey.publicKey}\n${signingKey.publicKey}`,
+    });
+
+    await expect(
+      verifyDetachedSignature(file, signature, keys, {
+        expectedFingerprint: signingKeyFingerprint.toLowerCase(),
+      })
+    ).resolves.toEqual(expect.objectContaining({ fingerprint: signingKeyFingerprint }));
+  });
+
+  test('should reject a signature made by a trusted but not pinned key', async () => {
+    const otherFingerprint = (await openpgp.readKey({ armoredKey: otherKey.publicKey }))
+      .getFingerprint()
+      .toUpperCase();
+    const { file, signature, keys } = await writeFiles({
+      content: 'abc123  codecov\n',
+      signer: otherKey.privateKey,
+      keys: `${otherKey.publicKey}\n${signingKey.publicKey}`,
+    });
+
+    // The other key is in the key file and made a valid signature, but it is not the pinned key
+    await expect(verifyDetachedSignature(file, signature, keys)).resolves.toEqual(
+      expect.objectContaining({ fingerprint: otherFingerprint })
+    );
+    await expect(
+      verifyDetachedSignature(file, signature, keys, { expectedFingerprint: signingKeyFingerprint })
+    ).rejects.toThrow('Signature verification failed');
+  });
+
+  test('should fail when the key file does not contain the pinned key', async () => {
+    const { file, signature, keys } = await writeFiles({
+      content: 'abc123  codecov\n',
+      keys: otherKey.publicKey,
+    });
+
+    await expect(
+      verifyDetachedSignature(file, signature, keys, { expectedFingerprint: signingKeyFingerprint })
+    ).rejects.toThrow(
+      `No public key with the expected fingerprint ${signingKeyFingerprint} was found in ${keys}`
+    );
+  });
+
+  describe('normalizePgpFingerprint', () => {
+    test('should remove spaces and a 0x prefix and convert to uppercase', () => {
+      expect(normalizePgpFingerprint('0x2703 4e7f db85 0e0b bc2c  62ff 806b b28a ed77 9869')).toBe(
+        CODECOV_PGP_KEY_FINGERPRINT
+      );
+    });
+
+    test('should reject a key ID or other invalid values', () => {
+      expect(() => normalizePgpFingerprint('806BB28AED779869')).toThrow(
+        "Invalid PGP key fingerprint '806BB28AED779869'"
+      );
+      expect(() => normalizePgpFingerprint('not-a-fingerprint')).toThrow(
+        'Invalid PGP key fingerprint'
+      );
+    });
+  });
+
+  describe('getPgpKeyUrls', () => {
+    test('should prefer keybase.io and fall back to a keyserver lookup by fingerprint', () => {
+      expect(getPgpKeyUrls(CODECOV_PGP_KEY_FINGERPRINT)).toEqual([
+        'https://keybase.io/codecovsecurity/pgp_keys.asc',
+        `https://keyserver.ubuntu.com/pks/lookup?op=get&options=mr&search=0x${CODECOV_PGP_KEY_FINGERPRINT}`,
+      ]);
+    });
+
+    test('should only use the mirror when a mirror base URL is given', () => {
+      expect(
+        getPgpKeyUrls(CODECOV_PGP_KEY_FINGERPRINT, 'https://mirror.example.com/codecov')
+      ).toEqual(['https://mirror.example.com/codecov/pgp_keys.asc']);
+    });
+  });
+
+  describe('downloadPgpKeys', () => {
+    test('should download from the first location', async () => {
+      (downloadFile as jest.Mock).mockResolvedValueOnce(undefined);
+
+      await expect(downloadPgpKeys(['https://a/keys', 'https://b/keys'], 'keys.asc')).resolves.toBe(
+        'https://a/keys'
+      );
+      expect(downloadFile).toHaveBeenCalledTimes(1);
+      expect(downloadFile).toHaveBeenCalledWith('https://a/keys', 'keys.asc', {});
+    });
+
+    test('should fall back to the next location when a download fails', async () => {
+      (downloadFile as jest.Mock)
+        .mockRejectedValueOnce(new Error("Failed to get 'https://a/keys' (503)"))
+        .mockResolvedValueOnce(undefined);
+
+      await expect(downloadPgpKeys(['https://a/keys', 'https://b/keys'], 'keys.asc')).resolves.toBe(
+        'https://b/keys'
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Failed to download PGP keys from https://a/keys: Failed to get 'https://a/keys' (503)"
+      );
+    });
+
+    test('should not try the next location when the download is cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      (downloadFile as jest.Mock).mockRejectedValueOnce(
+        new Error('Download aborted by user: https://a/keys')
+      );
+
+      await expect(
+        downloadPgpKeys(['https://a/keys', 'https://b/keys'], 'keys.asc', {
+          signal: controller.signal,
+        })
+      ).rejects.toThrow('Download aborted by user: https://a/keys');
+      expect(downloadFile).toHaveBeenCalledTimes(1);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    test('should list every location when all downloads fail', async () => {
+      (downloadFile as jest.Mock)
+        .mockRejectedValueOnce(new Error('503'))
+        .mockRejectedValueOnce(new Error('Network Error'));
+
+      await expect(
+        downloadPgpKeys(['https://a/keys', 'https://b/keys'], 'keys.asc')
+      ).rejects.toThrow(
+        'Failed to download PGP keys from any location:\nhttps://a/keys: 503\nhttps://b/keys: Network Error'
+      );
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import logger from '../utils/logger';
+import { createProgressReporter } from '../utils/progressUtils';
+
+jest.mock('azure-pipelines-task-lib/task');
+
+const MB = 1024 * 1024;
+
+describe('progressUtils', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('createProgressReporter', () => {
+    test('should report every new percentage to the pipeline', () => {
+      const onProgress = createProgressReporter('Downloading Codecov CLI');
+
+      onProgress({ bytesReceived: 5 * MB, totalBytes: 50 * MB, percent: 10 });
+      onProgress({ bytesReceived: 5.1 * MB, totalBytes: 50 * MB, percent: 10 });
+      onProgress({ bytesReceived: 10 * MB, totalBytes: 50 * MB, percent: 20 });
+
+      expect(tl.setProgress).toHaveBeenCalledTimes(2);
+      expect(tl.setProgress).toHaveBeenNthCalledWith(1, 10, 'Downloading Codecov CLI');
+      expect(tl.setProgress).toHaveBeenNthCalledWith(2, 20, 'Downloading Codecov CLI');
+    });
+
+    test('should throttle the log lines and always log the completed download', () => {
+      const onProgress = createProgressReporter('Downloading Codecov CLI', {
+        logIntervalMs: 1000,
+      });
+
+      onProgress({ bytesReceived: 5 * MB, totalBytes: 50 * MB, percent: 10 });
+      expect(logger.info).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      onProgress({ bytesReceived: 25 * MB, totalBytes: 50 * MB, percent: 50 });
+      onProgress({ bytesReceived: 30 * MB, totalBytes: 50 * MB, percent: 60 });
+      onProgress({ bytesReceived: 50 * MB, totalBytes: 50 * MB, percent: 100 });
+      onProgress({ bytesReceived: 50 * MB, totalBytes: 50 * MB, percent: 100 });
+
+      expect(logger.info).toHaveBeenCalledTimes(2);
+      expect(logger.info).toHaveBeenNthCalledWith(
+        1,
+        'Downloading Codecov CLI: 25.00 of 50.00 MB (50%)'
+      );
+      expect(logger.info).toHaveBeenNthCalledWith(
+        2,
+        'Downloading Codecov CLI: 50.00 of 50.00 MB (100%)'
+      );
+    });
+
+    test('should only log the bytes received without a Content-Length', () => {
+      const onProgress = createProgressReporter('Downloading Codecov CLI', {
+        logIntervalMs: 1000,
+      });
+
+      jest.advanceTimersByTime(1000);
+      onProgress({ bytesReceived: 1.5 * MB, totalBytes: null, percent: null });
+
+      expect(tl.setProgress).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith('Downloading Codecov CLI: 1.50 MB received');
+    });
+  });
+});
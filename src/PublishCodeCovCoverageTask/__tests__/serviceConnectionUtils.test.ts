@@ -0,0 +1,88 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { getDownloadSourceFromServiceConnection } from '../utils/serviceConnectionUtils';
+
+jest.mock('azure-pipelines-task-lib/task');
+
+describe('serviceConnectionUtils', () => {
+  const mockEndpoint = (scheme: string | undefined, parameters: Record<string, string>): void => {
+    (tl.getEndpointUrl as jest.Mock).mockReturnValue('https://artifactory.example.com/codecov');
+    (tl.getEndpointAuthorizationScheme as jest.Mock).mockReturnValue(scheme);
+    (tl.getEndpointAuthorizationParameter as jest.Mock).mockImplementation(
+      (_id: string, key: string) => parameters[key]
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should use basic authentication for a UsernamePassword connection', () => {
+    mockEndpoint('UsernamePassword', { username: 'build', password: 'secret' });
+
+    expect(getDownloadSourceFromServiceConnection('mirror')).toEqual({
+      baseUrl: 'https://artifactory.example.com/codecov',
+      auth: {
+        type: 'basic',
+        username: 'build',
+        password: 'secret',
+        origin: 'https://artifactory.example.com',
+      },
+    });
+    expect(tl.setSecret).toHaveBeenCalledWith('secret');
+  });
+
+  test('should allow an empty username, e.g. for a personal access token', () => {
+    mockEndpoint('UsernamePassword', { password: 'pat' });
+
+    expect(getDownloadSourceFromServiceConnection('mirror').auth).toEqual({
+      type: 'basic',
+      username: '',
+      password: 'pat',
+      origin: 'https://artifactory.example.com',
+    });
+  });
+
+  test('should use a bearer token for a Token connection', () => {
+    mockEndpoint('Token', { apitoken: 'token-value' });
+
+    expect(getDownloadSourceFromServiceConnection('mirror')).toEqual({
+      baseUrl: 'https://artifactory.example.com/codecov',
+      auth: { type: 'bearer', token: 'token-value', origin: 'https://artifactory.example.com' },
+    });
+    expect(tl.setSecret).toHaveBeenCalledWith('token-value');
+  });
+
+  test('should not send credentials for a connection without authorization', () => {
+    mockEndpoint(undefined, {});
+
+    expect(getDownloadSourceFromServiceConnection('mirror')).toEqual({
+      baseUrl: 'https://artifactory.example.com/codecov',
+    });
+  });
+
+  test('should throw for an unsupported authorization scheme', () => {
+    mockEndpoint('OAuth', {});
+
+    expect(() => getDownloadSourceFromServiceConnection('mirror')).toThrow(
+      "Service connection 'mirror' uses the unsupported authorization scheme 'OAuth'"
+    );
+  });
+
+  test('should throw when the connection has no URL', () => {
+    mockEndpoint('None', {});
+    (tl.getEndpointUrl as jest.Mock).mockReturnValue(undefined);
+
+    expect(() => getDownloadSourceFromServiceConnection('mirror')).toThrow(
+      "Service connection 'mirror' does not define a URL"
+    );
+  });
+
+  test('should throw when the connection URL is invalid', () => {
+    mockEndpoint('None', {});
+    (tl.getEndpointUrl as jest.Mock).mockReturnValue('artifactory/codecov');
+
+    expect(() => getDownloadSourceFromServiceConnection('mirror')).toThrow(
+      "Service connection 'mirror' has an invalid URL 'artifactory/codecov'"
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import logger from '../utils/logger';
+import {
+  cacheCodecovCli,
+  findCachedCodecovCli,
+  getCodecovCliCacheDirectory,
+} from '../utils/toolCacheUtils';
+
+describe('toolCacheUtils', () => {
+  let tempDir: string;
+  let toolsDirectory: string;
+  let sourceExecutable: string;
+  let sourceChecksumFile: string;
+
+  beforeEach(() => {
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    jest.spyOn(logger, 'debug').mockImplementation(() => logger);
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'toolcache-test-'));
+    toolsDirectory = path.join(tempDir, 'tools');
+
+    // Create a fake verified CLI with a matching SHA256SUM file
+    const downloadDir = path.join(tempDir, 'download');
+    fs.mkdirSync(downloadDir);
+    sourceExecutable = path.join(downloadDir, 'codecov');
+    sourceChecksumFile = path.join(downloadDir, 'codecov.SHA256SUM');
+    fs.writeFileSync(sourceExecutable, 'fake codecov binary');
+    const hash = crypto.createHash('sha256').update('fake codecov binary').digest('hex');
+    fs.writeFileSync(sourceChecksumFile, `${hash}  codecov\n`);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should build the cache directory from tool name, version and platform', () => {
+    expect(getCodecovCliCacheDirectory('/tools', 'v0.7.4', 'linux')).toBe(
+      path.join('/tools', 'codecov', 'v0.7.4', 'linux')
+    );
+  });
+
+  test('should return null when the version is not cached', async () => {
+    await expect(
+      findCachedCodecovCli(toolsDirectory, 'v0.7.4', 'linux', 'codecov')
+    ).resolves.toBeNull();
+  });
+
+  test('should cache a verified CLI and find it again', async () => {
+    const cachedPath = await cacheCodecovCli(
+      toolsDirectory,
+      'v0.7.4',
+      'linux',
+      sourceExecutable,
+      sourceChecksumFile
+    );
+
+    const cacheDirectory = getCodecovCliCacheDirectory(toolsDirectory, 'v0.7.4', 'linux');
+    expect(cachedPath).toBe(path.join(cacheDirectory, 'codecov'));
+    expect(fs.existsSync(`${cacheDirectory}.complete`)).toBe(true);
+    expect(fs.readFileSync(cachedPath, 'utf8')).toBe('fake codecov binary');
+
+    await expect(findCachedCodecovCli(toolsDirectory, 'v0.7.4', 'linux', 'codecov')).resolves.toBe(
+      cachedPath
+    );
+  });
+
+  test('should ignore a cache entry without the completion marker', async () => {
+    await cacheCodecovCli(toolsDirectory, 'v0.7.4', 'linux', sourceExecutable, sourceChecksumFile);
+    const cacheDirectory = getCodecovCliCacheDirectory(toolsDirectory, 'v0.7.4', 'linux');
+    fs.rmSync(`${cacheDirectory}.complete`);
+
+    await expect(
+      findCachedCodecovCli(toolsDirectory, 'v0.7.4', 'linux', 'codecov')
+    ).resolves.toBeNull();
+  });
+
+  test('should remove a cached CLI whose checksum no longer matches', async () => {
+    const cachedPath = await cacheCodecovCli(
+      toolsDirectory,
+      'v0.7.4',
+      'linux',
+      sourceExecutable,
+      sourceChecksumFile
+    );
+    fs.writeFileSync(cachedPath, 'tampered binary');
+
+    await expect(
+      findCachedCodecovCli(toolsDirectory, 'v0.7.4', 'linux', 'codecov')
+    ).resolves.toBeNull();
+
+    const cacheDirectory = getCodecovCliCacheDirectory(toolsDirectory, 'v0.7.4', 'linux');
+    expect(fs.existsSync(cacheDirectory)).toBe(false);
+    expect(fs.existsSync(`${cacheDirectory}.complete`)).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('failed verification'));
+  });
+
+  test('should replace an existing cache entry', async () => {
+    await cacheCodecovCli(toolsDirectory, 'v0.7.4', 'linux', sourceExecutable, sourceChecksumFile);
+    const cacheDirectory = getCodecovCliCacheDirectory(toolsDirectory, 'v0.7.4', 'linux');
+    fs.writeFileSync(path.join(cacheDirectory, 'stale-file'), 'stale');
+
+    await cacheCodecovCli(toolsDirectory, 'v0.7.4', 'linux', sourceExecutable, sourceChecksumFile);
+
+    expect(fs.existsSync(path.join(cacheDirectory, 'stale-file'))).toBe(false);
+    expect(fs.existsSync(path.join(cacheDirectory, 'codecov'))).toBe(true);
+  });
+});
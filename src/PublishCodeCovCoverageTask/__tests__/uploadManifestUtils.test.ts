@@ -0,0 +1,183 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import logger from '../utils/logger';
+import {
+  createUploadManifest,
+  formatUploadManifestSummary,
+  publishUploadManifest,
+  type UploadManifest,
+} from '../utils/uploadManifestUtils';
+
+jest.mock('azure-pipelines-task-lib/task');
+
+describe('uploadManifestUtils', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploadmanifest-test-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const manifest: UploadManifest = {
+    createdAt: '2026-01-01T00:00:00.000Z',
+    cliVersion: 'v10.4.0',
+    dryRun: false,
+    estimated: false,
+    files: [
+      { path: '/agent/_work/1/s/coverage.xml', size: 1234, sha256: 'a'.repeat(64) },
+      { path: 'C:\\agent\\_work\\1\\s\\lcov|1.info', size: 56, sha256: 'b'.repeat(64) },
+    ],
+  };
+
+  describe('createUploadManifest', () => {
+    test('should record the size and SHA-256 checksum of every file', async () => {
+      const coverageFile = path.join(tempDir, 'coverage.xml');
+      const lcovFile = path.join(tempDir, 'lcov.info');
+      fs.writeFileSync(coverageFile, '<coverage line-rate="0.8"/>');
+      fs.writeFileSync(lcovFile, 'TN:\nend_of_record\n');
+
+      const result = await createUploadManifest([coverageFile, lcovFile], {
+        cliVersion: 'v10.4.0',
+        dryRun: true,
+        estimated: true,
+      });
+
+      expect(result).toEqual({
+        createdAt: expect.any(String),
+        cliVersion: 'v10.4.0',
+        dryRun: true,
+        estimated: true,
+        files: [
+          {
+            path: coverageFile,
+            size: 27,
+            sha256: crypto.createHash('sha256').update('<coverage line-rate="0.8"/>').digest('hex'),
+          },
+          {
+            path: lcovFile,
+            size: 18,
+            sha256: crypto.createHash('sha256').update('TN:\nend_of_record\n').digest('hex'),
+          },
+        ],
+      });
+      expect(new Date(result.createdAt).toISOString()).toBe(result.createdAt);
+    });
+
+    test('should throw when a file cannot be read', async () => {
+      const missing = path.join(tempDir, 'missing.xml');
+
+      await expect(
+        createUploadManifest([missing], { cliVersion: 'v10.4.0', dryRun: false, estimated: false })
+      ).rejects.toThrow(
+        /^Failed to record coverage file .*missing\.xml in the upload manifest: .*ENOENT/
+      );
+    });
+  });
+
+  describe('publishUploadManifest', () => {
+    /**
+     * Mocks the variables of a job, keeping the variables the task sets like the agent does
+     */
+    const mockJobVariables = (variables: Record<string, string>): void => {
+      const values = new Map(Object.entries(variables));
+      (tl.getVariable as jest.Mock).mockImplementation((name: string) => values.get(name));
+      (tl.setVariable as jest.Mock).mockImplementation((name: string, value: string) => {
+        values.set(name, value);
+      });
+    };
+
+    test('should write the manifest, upload it as an artifact and add a summary', async () => {
+      mockJobVariables({
+        'System.CollectionUri': 'https://dev.azure.com/contoso/',
+        'System.TeamProject': 'Fabrikam Fiber',
+        'Build.BuildId': '42',
+      });
+
+      const manifestPath = await publishUploadManifest(
+        manifest,
+        tempDir,
+        'codecov-upload-manifest'
+      );
+
+      expect(manifestPath).toBe(
+        path.join(tempDir, 'codecov-upload-manifest', 'codecov-upload-manifest.json')
+      );
+      expect(JSON.parse(fs.readFileSync(manifestPath, 'utf8'))).toEqual(manifest);
+      expect(tl.uploadArtifact).toHaveBeenCalledWith(
+        'codecov-upload-manifest',
+        manifestPath,
+        'codecov-upload-manifest'
+      );
+      const summaryPath = path.join(
+        tempDir,
+        'codecov-upload-manifest',
+        'codecov-upload-manifest.md'
+      );
+      expect(tl.uploadSummary).toHaveBeenCalledWith(summaryPath);
+      expect(fs.readFileSync(summaryPath, 'utf8')).toContain(
+        '[codecov-upload-manifest](https://dev.azure.com/contoso/Fabrikam%20Fiber/_build/results?buildId=42&view=artifacts&type=publishedArtifacts)'
+      );
+    });
+
+    test('should give every upload in the same run its own artifact', async () => {
+      mockJobVariables({ 'System.JobId': 'job-a', 'System.JobAttempt': '2' });
+
+      const firstPath = await publishUploadManifest(manifest, tempDir, 'codecov-upload-manifest');
+      const secondPath = await publishUploadManifest(manifest, tempDir, 'codecov-upload-manifest');
+
+      expect((tl.uploadArtifact as jest.Mock).mock.calls).toEqual([
+        ['codecov-upload-manifest-job-a-2', firstPath, 'codecov-upload-manifest-job-a-2'],
+        ['codecov-upload-manifest-job-a-2-2', secondPath, 'codecov-upload-manifest-job-a-2-2'],
+      ]);
+      expect(firstPath).not.toBe(secondPath);
+      expect(fs.existsSync(firstPath)).toBe(true);
+      expect(fs.existsSync(secondPath)).toBe(true);
+    });
+  });
+
+  describe('formatUploadManifestSummary', () => {
+    test('should list every file in a table', () => {
+      expect(formatUploadManifestSummary(manifest, 'codecov-upload-manifest', null)).toBe(
+        [
+          '### Codecov upload manifest',
+          '',
+          '2 coverage file(s) were uploaded with Codecov CLI v10.4.0. The full manifest, `codecov-upload-manifest.json`, is published in the `codecov-upload-manifest` artifact.',
+          '',
+          '| File | Size (bytes) | SHA-256 |',
+          '| --- | ---: | --- |',
+          `| /agent/_work/1/s/coverage.xml | 1234 | \`${'a'.repeat(64)}\` |`,
+          `| C:\\\\agent\\\\_work\\\\1\\\\s\\\\lcov\\|1.info | 56 | \`${'b'.repeat(64)}\` |`,
+          '',
+        ].join('\n')
+      );
+    });
+
+    test('should describe a dry run without files', () => {
+      expect(
+        formatUploadManifestSummary({ ...manifest, dryRun: true, files: [] }, 'manifest', null)
+      ).toContain('0 coverage file(s) were found for a dry run of Codecov CLI v10.4.0.');
+    });
+
+    test('should mark the files found by a folder search as an estimate', () => {
+      const summary = formatUploadManifestSummary(
+        { ...manifest, estimated: true },
+        'manifest',
+        null
+      );
+
+      expect(summary).toContain(
+        '> The Codecov CLI searched the folder for coverage files itself. This list is an estimate'
+      );
+      expect(formatUploadManifestSummary(manifest, 'manifest', null)).not.toContain('estimate');
+    });
+  });
+});
@@ -1,8 +1,11 @@
 // filepath: /Users/johlju/source/PublishCodeCovCoverage/src/PublishCodeCovCoverageTask/__tests__/webUtils.test.ts
 import axios from 'axios';
+import * as crypto from 'node:crypto';
 import { EventEmitter } from 'node:events';
 import * as fs from 'node:fs';
-import { downloadFile } from '../utils/webUtils';
+import logger from '../utils/logger';
+import { calculateFileHashStreaming, updateHashFromFile } from '../utils/fileUtils';
+import { downloadFile, urlExists } from '../utils/webUtils';
 
 // Create fully typed mock implementations
 jest.mock('node:fs', () => {
@@ -14,6 +17,9 @@ jest.mock('node:fs', () => {
     existsSync: jest.fn(),
     writeFileSync: jest.fn(),
     readFileSync: jest.fn(),
+    statSync: jest.fn(),
+    rmSync: jest.fn(),
+    truncateSync: jest.fn(),
     constants: { F_OK: 1 },
     promises: {
       mkdir: jest.fn().mockResolvedValue(undefined),
@@ -22,6 +28,13 @@ jest.mock('node:fs', () => {
   return mockFs;
 });
 
+// Reading files for hashing is covered by the fileUtils tests
+jest.mock('../utils/fileUtils', () => ({
+  ...jest.requireActual('../utils/fileUtils'),
+  calculateFileHashStreaming: jest.fn(),
+  updateHashFromFile: jest.fn(),
+}));
+
 /**
  * Mock axios module for testing.
  * IMPORTANT: This project uses strongly-typed mocks for better maintainability.
@@ -642,4 +655,1123 @@ describe('webUtils', () => {
       expect(mockFs.unlink).toHaveBeenCalledWith('/path/to/destination.zip', expect.any(Function));
     });
   });
+
+  describe('downloadFile authentication', () => {
+    const completeDownload = (): void => {
+      setTimeout(() => {
+        mockFileStream.emit('finish');
+        mockFileStream.emit('close');
+      }, 10);
+    };
+
+    test('should send basic authentication credentials', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      const downloadPromise = downloadFile('https://mirror.example.com/codecov', '/tmp/codecov', {
+        auth: {
+          type: 'basic',
+          username: 'build',
+          password: 'secret',
+          origin: 'https://mirror.example.com',
+        },
+      });
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ auth: { username: 'build', password: 'secret' } })
+      );
+    });
+
+    test('should send a bearer token', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      const downloadPromise = downloadFile('https://mirror.example.com/codecov', '/tmp/codecov', {
+        auth: { type: 'bearer', token: 'token-value', origin: 'https://mirror.example.com' },
+      });
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ headers: { Authorization: 'Bearer token-value' } })
+      );
+    });
+
+    test('should not send credentials by default', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      const downloadPromise = downloadFile('https://example.com/codecov', '/tmp/codecov');
+      completeDownload();
+      await downloadPromise;
+
+      const config = mockAxios.mock.calls[0]?.[0] as unknown as Record<string, unknown>;
+      expect(config).not.toHaveProperty('auth');
+      expect(config).not.toHaveProperty('headers');
+    });
+
+    test.each([
+      ['another host', 'https://keybase.io/codecovsecurity/pgp_keys.asc'],
+      ['another port', 'https://mirror.example.com:8443/codecov'],
+      ['another scheme', 'http://mirror.example.com/codecov'],
+    ])('should not send credentials to %s', async (_name, fileUrl) => {
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      const downloadPromise = downloadFile(fileUrl, '/tmp/codecov', {
+        auth: {
+          type: 'basic',
+          username: 'build',
+          password: 'secret',
+          origin: 'https://mirror.example.com',
+        },
+      });
+      completeDownload();
+      await downloadPromise;
+
+      const config = mockAxios.mock.calls[0]?.[0] as unknown as Record<string, unknown>;
+      expect(config).not.toHaveProperty('auth');
+      expect(config).not.toHaveProperty('headers');
+    });
+  });
+
+  describe('downloadFile retries', () => {
+    const retryOptions = { retryDelayMs: 4, retryJitter: false };
+
+    beforeEach(() => {
+      jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      mockFs.access.mockImplementation(
+        (path: string, mode: number, callback: (err: Error | null) => void) => {
+          callback(null);
+        }
+      );
+      mockFs.unlink.mockImplementation((path: string, callback: (err: Error | null) => void) => {
+        callback(null);
+      });
+    });
+
+    // Resolves with a successful response and completes the file stream once it is piped
+    const mockSuccessfulResponse = (): void => {
+      mockAxios.mockImplementationOnce((() => {
+        setTimeout(() => mockFileStream.emit('finish'), 10);
+        return Promise.resolve({ status: 200, headers: {}, data: mockDataStream });
+      }) as unknown as typeof axios);
+    };
+
+    const createNetworkError = (code: string): Error => {
+      const error = new Error(`connect ${code}`);
+      Object.defineProperty(error, 'code', { value: code });
+      return error;
+    };
+
+    test('should retry a 5xx response and succeed', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 502, headers: {} });
+      mockSuccessfulResponse();
+
+      await downloadFile('https://example.com/codecov', '/tmp/codecov', {
+        retries: 2,
+        ...retryOptions,
+      });
+
+      expect(mockAxios).toHaveBeenCalledTimes(2);
+      expect(logger.info).toHaveBeenCalledWith(
+        'Downloading https://example.com/codecov to /tmp/codecov (attempt 1 of 3)'
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        'Downloading https://example.com/codecov to /tmp/codecov (attempt 2 of 3)'
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Attempt 1 of 3 to download https://example.com/codecov failed: Failed to get 'https://example.com/codecov' (502). Retrying in 4ms"
+      );
+      // The partial file of the failed attempt is removed before retrying
+      expect(mockFs.unlink).toHaveBeenCalledTimes(1);
+    });
+
+    test('should retry a dropped connection', async () => {
+      mockAxios.mockRejectedValueOnce(createNetworkError('ECONNRESET'));
+      mockSuccessfulResponse();
+
+      await downloadFile('https://example.com/codecov', '/tmp/codecov', {
+        retries: 1,
+        ...retryOptions,
+      });
+
+      expect(mockAxios).toHaveBeenCalledTimes(2);
+    });
+
+    test('should retry a timeout', async () => {
+      const timeoutError = new Error('timeout of 1000ms exceeded');
+      Object.defineProperty(timeoutError, 'code', { value: 'ECONNABORTED' });
+      mockAxios.mockRejectedValueOnce(timeoutError);
+      (mockAxios as any).isAxiosError.mockReturnValueOnce(true);
+      mockSuccessfulResponse();
+
+      await downloadFile('https://example.com/codecov', '/tmp/codecov', {
+        retries: 1,
+        timeout: 1000,
+        ...retryOptions,
+      });
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('failed: Request timed out after 1000ms')
+      );
+    });
+
+    test('should wait as long as Retry-After requests for a 429 response', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 429, headers: { 'retry-after': '0' } });
+      mockSuccessfulResponse();
+
+      await downloadFile('https://example.com/codecov', '/tmp/codecov', {
+        retries: 1,
+        retryDelayMs: 10000,
+      });
+
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('(429). Retrying in 0ms'));
+    });
+
+    test('should limit the Retry-After delay to maxRetryDelayMs', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 429, headers: { 'retry-after': '120' } });
+      mockSuccessfulResponse();
+
+      await downloadFile('https://example.com/codecov', '/tmp/codecov', {
+        retries: 1,
+        maxRetryDelayMs: 5,
+      });
+
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Retrying in 5ms'));
+    });
+
+    test('should not retry a 429 response without Retry-After', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 429, headers: {} });
+
+      await expect(
+        downloadFile('https://example.com/codecov', '/tmp/codecov', { retries: 3, ...retryOptions })
+      ).rejects.toThrow("Failed to get 'https://example.com/codecov' (429)");
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not retry a 404 response', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 404, headers: {} });
+
+      await expect(
+        downloadFile('https://example.com/codecov', '/tmp/codecov', { retries: 3, ...retryOptions })
+      ).rejects.toThrow("Failed to get 'https://example.com/codecov' (404)");
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    test('should fail with the last error when all attempts fail', async () => {
+      mockAxios
+        .mockResolvedValueOnce({ status: 503, headers: {} })
+        .mockResolvedValueOnce({ status: 503, headers: {} })
+        .mockResolvedValueOnce({ status: 500, headers: {} });
+
+      await expect(
+        downloadFile('https://example.com/codecov', '/tmp/codecov', { retries: 2, ...retryOptions })
+      ).rejects.toThrow("Failed to get 'https://example.com/codecov' (500)");
+      expect(mockAxios).toHaveBeenCalledTimes(3);
+      expect(mockFs.unlink).toHaveBeenCalledTimes(3);
+    });
+
+    test('should double the delay for every retry', async () => {
+      mockAxios
+        .mockResolvedValueOnce({ status: 503, headers: {} })
+        .mockResolvedValueOnce({ status: 503, headers: {} })
+        .mockResolvedValueOnce({ status: 503, headers: {} });
+
+      await expect(
+        downloadFile('https://example.com/codecov', '/tmp/codecov', { retries: 2, ...retryOptions })
+      ).rejects.toThrow('(503)');
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Retrying in 4ms'));
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Retrying in 8ms'));
+    });
+
+    test('should apply jitter between half and the full delay', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      mockAxios.mockResolvedValueOnce({ status: 503, headers: {} });
+      mockSuccessfulResponse();
+
+      await downloadFile('https://example.com/codecov', '/tmp/codecov', {
+        retries: 1,
+        retryDelayMs: 8,
+      });
+
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Retrying in 4ms'));
+    });
+
+    test('should stop retrying when the download is aborted during the delay', async () => {
+      const controller = new AbortController();
+      mockAxios.mockImplementationOnce((() => {
+        setTimeout(() => controller.abort(), 20);
+        return Promise.resolve({ status: 503, headers: {} });
+      }) as unknown as typeof axios);
+
+      await expect(
+        downloadFile('https://example.com/codecov', '/tmp/codecov', {
+          retries: 3,
+          retryDelayMs: 10000,
+          retryJitter: false,
+          signal: controller.signal,
+        })
+      ).rejects.toThrow('Download aborted by user: https://example.com/codecov');
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not retry by default', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 503, headers: {} });
+
+      await expect(downloadFile('https://example.com/codecov', '/tmp/codecov')).rejects.toThrow(
+        '(503)'
+      );
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+      expect(logger.info).toHaveBeenCalledWith(
+        'Downloading https://example.com/codecov to /tmp/codecov'
+      );
+    });
+  });
+
+  describe('downloadFile resume', () => {
+    const url = 'https://example.com/codecov';
+    const dest = '/tmp/codecov';
+    const statePath = '/tmp/codecov.resume.json';
+
+    beforeEach(() => {
+      jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      mockFs.access.mockImplementation(
+        (path: string, mode: number, callback: (err: Error | null) => void) => {
+          callback(null);
+        }
+      );
+      mockFs.unlink.mockImplementation((path: string, callback: (err: Error | null) => void) => {
+        callback(null);
+      });
+    });
+
+    // Simulates a partial file of 100 bytes with resume state for the given URL
+    const mockPartialFile = (stateUrl = url, validator = '"v1"'): void => {
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ url: stateUrl, validator }));
+      mockFs.statSync.mockReturnValue({ size: 100 });
+    };
+
+    const completeDownload = (chunks: Buffer[] = []): void => {
+      setTimeout(() => {
+        for (const chunk of chunks) {
+          mockDataStream.emit('data', chunk);
+        }
+        mockFileStream.emit('finish');
+      }, 10);
+    };
+
+    test('should continue a partial file with a Range request', async () => {
+      mockPartialFile();
+      mockAxios.mockResolvedValueOnce({
+        status: 206,
+        headers: {
+          'content-length': '100',
+          'content-range': 'bytes 100-199/200',
+          'accept-ranges': 'bytes',
+          etag: '"v1"',
+        },
+        data: mockDataStream,
+      });
+      const onProgress = jest.fn();
+
+      const downloadPromise = downloadFile(url, dest, { onProgress });
+      completeDownload([Buffer.alloc(50)]);
+      await downloadPromise;
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ headers: { Range: 'bytes=100-', 'If-Range': '"v1"' } })
+      );
+      expect(mockFs.createWriteStream).toHaveBeenCalledWith(dest, { flags: 'a' });
+      expect(mockFs.truncateSync).not.toHaveBeenCalled();
+      // Progress includes the 100 bytes already on disk
+      expect(onProgress).toHaveBeenCalledWith({ bytesReceived: 150, totalBytes: 200, percent: 75 });
+      // The resume state is removed once the download is complete
+      expect(mockFs.rmSync).toHaveBeenCalledWith(statePath, { force: true });
+    });
+
+    test('should send the credentials together with the Range header', async () => {
+      mockPartialFile();
+      mockAxios.mockResolvedValueOnce({
+        status: 206,
+        headers: { 'content-range': 'bytes 100-199/200' },
+        data: mockDataStream,
+      });
+
+      const downloadPromise = downloadFile(url, dest, {
+        auth: { type: 'bearer', token: 'token-value', origin: 'https://example.com' },
+      });
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: {
+            Authorization: 'Bearer token-value',
+            Range: 'bytes=100-',
+            'If-Range': '"v1"',
+          },
+        })
+      );
+    });
+
+    test('should download the full file when the server ignores the range', async () => {
+      mockPartialFile();
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'content-length': '200' },
+        data: mockDataStream,
+      });
+
+      const downloadPromise = downloadFile(url, dest);
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockFs.truncateSync).toHaveBeenCalledWith(dest, 0);
+      expect(logger.info).toHaveBeenCalledWith(
+        `Server did not resume the download of ${url}, downloading the full file`
+      );
+    });
+
+    test('should start over when the server resumes at an unexpected position', async () => {
+      mockPartialFile();
+      mockAxios.mockResolvedValueOnce({
+        status: 206,
+        headers: { 'content-range': 'bytes 0-199/200' },
+        data: mockDataStream,
+      });
+
+      await expect(downloadFile(url, dest)).rejects.toThrow(
+        `Server resumed the download of '${url}' at an unexpected position`
+      );
+      expect(mockFs.unlink).toHaveBeenCalledWith(dest, expect.any(Function));
+      expect(mockFs.rmSync).toHaveBeenCalledWith(statePath, { force: true });
+    });
+
+    test('should not resume a partial file downloaded from another URL', async () => {
+      mockPartialFile('https://example.com/other');
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      const downloadPromise = downloadFile(url, dest);
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockAxios.mock.calls[0]?.[0]).not.toHaveProperty('headers');
+      expect(mockFs.createWriteStream).toHaveBeenCalledWith(dest);
+    });
+
+    test('should not resume when resume is disabled', async () => {
+      mockPartialFile();
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      const downloadPromise = downloadFile(url, dest, { resume: false });
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockFs.readFileSync).not.toHaveBeenCalled();
+      expect(mockAxios.mock.calls[0]?.[0]).not.toHaveProperty('headers');
+    });
+
+    test('should keep the partial file when a resumable download is interrupted', async () => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'content-length': '200', 'accept-ranges': 'bytes', etag: '"v1"' },
+        data: mockDataStream,
+      });
+      setTimeout(() => {
+        const error = new Error('aborted');
+        Object.defineProperty(error, 'code', { value: 'ECONNRESET' });
+        mockDataStream.emit('error', error);
+      }, 10);
+
+      await expect(downloadFile(url, dest)).rejects.toThrow('aborted');
+
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        statePath,
+        JSON.stringify({ url, validator: '"v1"' })
+      );
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith(
+        `Keeping partial download '${dest}' so it can be resumed`
+      );
+    });
+
+    test('should use Last-Modified when the ETag is weak', async () => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: {
+          'accept-ranges': 'bytes',
+          etag: 'W/"v1"',
+          'last-modified': 'Wed, 21 Oct 2026 07:28:00 GMT',
+        },
+        data: mockDataStream,
+      });
+      setTimeout(() => {
+        const error = new Error('aborted');
+        Object.defineProperty(error, 'code', { value: 'ECONNRESET' });
+        mockDataStream.emit('error', error);
+      }, 10);
+
+      await expect(downloadFile(url, dest)).rejects.toThrow('aborted');
+
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        statePath,
+        JSON.stringify({ url, validator: 'Wed, 21 Oct 2026 07:28:00 GMT' })
+      );
+    });
+
+    test('should remove the partial file when the server does not support ranges', async () => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'content-length': '200', etag: '"v1"' },
+        data: mockDataStream,
+      });
+      setTimeout(() => {
+        const error = new Error('aborted');
+        Object.defineProperty(error, 'code', { value: 'ECONNRESET' });
+        mockDataStream.emit('error', error);
+      }, 10);
+
+      await expect(downloadFile(url, dest)).rejects.toThrow('aborted');
+
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      expect(mockFs.unlink).toHaveBeenCalledWith(dest, expect.any(Function));
+    });
+  });
+
+  describe('downloadFile integrity', () => {
+    const url = 'https://example.com/codecov';
+    const dest = '/tmp/codecov';
+    const content = Buffer.from('codecov binary');
+    const sha256 = crypto.createHash('sha256').update(content).digest('hex');
+    const sha512Integrity = `sha512-${crypto.createHash('sha512').update(content).digest('base64')}`;
+
+    beforeEach(() => {
+      jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      mockFs.access.mockImplementation(
+        (path: string, mode: number, callback: (err: Error | null) => void) => {
+          callback(null);
+        }
+      );
+      mockFs.unlink.mockImplementation((path: string, callback: (err: Error | null) => void) => {
+        callback(null);
+      });
+      mockAxios.mockResolvedValue({
+        status: 200,
+        headers: { 'content-length': String(content.length) },
+        data: mockDataStream,
+      });
+    });
+
+    const completeDownload = (chunks: Buffer[]): void => {
+      setTimeout(() => {
+        for (const chunk of chunks) {
+          mockDataStream.emit('data', chunk);
+        }
+        mockFileStream.emit('finish');
+      }, 10);
+    };
+
+    test('should hash the file while it is downloaded', async () => {
+      const downloadPromise = downloadFile(url, dest, { expectedSha256: sha256.toUpperCase() });
+      completeDownload([content.subarray(0, 5), content.subarray(5)]);
+      await downloadPromise;
+
+      expect(logger.info).toHaveBeenCalledWith(`SHA-256 checksum verified for ${url}`);
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+    });
+
+    test('should verify a Subresource Integrity string', async () => {
+      const downloadPromise = downloadFile(url, dest, { integrity: sha512Integrity });
+      completeDownload([content]);
+      await downloadPromise;
+
+      expect(logger.info).toHaveBeenCalledWith(`SHA-512 checksum verified for ${url}`);
+    });
+
+    test('should reject and delete the file when the hash does not match', async () => {
+      const downloadPromise = downloadFile(url, dest, { expectedSha256: sha256 });
+      completeDownload([Buffer.from('tampered binary')]);
+
+      await expect(downloadPromise).rejects.toThrow(
+        `SHA-256 checksum verification failed for ${url}:\nExpected: ${sha256}`
+      );
+      expect(mockFs.unlink).toHaveBeenCalledWith(dest, expect.any(Function));
+    });
+
+    test('should not retry a hash mismatch', async () => {
+      const downloadPromise = downloadFile(url, dest, { expectedSha256: sha256, retries: 2 });
+      completeDownload([Buffer.from('tampered binary')]);
+
+      await expect(downloadPromise).rejects.toThrow('SHA-256 checksum verification failed');
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+    });
+
+    test('should continue the hash of a resumed download with the bytes on disk', async () => {
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ url, validator: '"v1"' }));
+      mockFs.statSync.mockReturnValue({ size: 5 });
+      (updateHashFromFile as jest.Mock).mockImplementation((hash: crypto.Hash) => {
+        hash.update(content.subarray(0, 5));
+        return Promise.resolve();
+      });
+      mockAxios.mockResolvedValueOnce({
+        status: 206,
+        headers: { 'content-range': `bytes 5-${content.length - 1}/${content.length}` },
+        data: mockDataStream,
+      });
+
+      const downloadPromise = downloadFile(url, dest, { expectedSha256: sha256 });
+      completeDownload([content.subarray(5)]);
+      await downloadPromise;
+
+      expect(updateHashFromFile).toHaveBeenCalledWith(expect.anything(), dest);
+      expect(logger.info).toHaveBeenCalledWith(`SHA-256 checksum verified for ${url}`);
+    });
+
+    test('should keep an existing file with the expected hash when overwrite is false', async () => {
+      // The file exists without resume state
+      mockFs.existsSync.mockImplementation((filePath: string) => filePath === dest);
+      (calculateFileHashStreaming as jest.Mock).mockResolvedValue(sha256);
+
+      await downloadFile(url, dest, { overwrite: false, expectedSha256: sha256 });
+
+      expect(calculateFileHashStreaming).toHaveBeenCalledWith(dest, 'sha256');
+      expect(mockAxios).not.toHaveBeenCalled();
+    });
+
+    test('should replace an existing file without the expected hash when overwrite is false', async () => {
+      // The file exists without resume state
+      mockFs.existsSync.mockImplementation((filePath: string) => filePath === dest);
+      (calculateFileHashStreaming as jest.Mock).mockResolvedValue('0'.repeat(64));
+
+      const downloadPromise = downloadFile(url, dest, { overwrite: false, expectedSha256: sha256 });
+      completeDownload([content]);
+      await downloadPromise;
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        `File already exists at '${dest}' but does not have the expected checksum, will be overwritten`
+      );
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject invalid or conflicting expected hashes before downloading', async () => {
+      await expect(downloadFile(url, dest, { expectedSha256: 'abc' })).rejects.toThrow(
+        "Invalid SHA-256 digest 'abc'. Expected 64 hexadecimal characters"
+      );
+      await expect(
+        downloadFile(url, dest, { expectedSha256: sha256, integrity: sha512Integrity })
+      ).rejects.toThrow('Specify either expectedSha256 or integrity, not both');
+      expect(mockAxios).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloadFile revalidation', () => {
+    const url = 'https://example.com/codecov.SHA256SUM';
+    const dest = '/tmp/codecov.SHA256SUM';
+    const metadataPath = '/tmp/codecov.SHA256SUM.metadata.json';
+    const metadata = {
+      url,
+      finalUrl: 'https://cdn.example.com/v1/codecov.SHA256SUM',
+      etag: '"v1"',
+      lastModified: 'Wed, 01 Oct 2025 10:00:00 GMT',
+      size: 100,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      mockFs.statSync.mockReturnValue({ size: 100 });
+    });
+
+    // Simulates a file downloaded earlier with the given metadata and no resume state
+    const mockDownloadedFile = (storedMetadata: object = metadata): void => {
+      mockFs.existsSync.mockImplementation(
+        (filePath: string) => filePath === dest || filePath === metadataPath
+      );
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(storedMetadata));
+    };
+
+    const completeDownload = (): void => {
+      setTimeout(() => {
+        mockFileStream.emit('finish');
+      }, 10);
+    };
+
+    test('should store the validators and the final URL of the download', async () => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { etag: '"v1"', 'last-modified': metadata.lastModified },
+        data: mockDataStream,
+        request: { res: { responseUrl: metadata.finalUrl } },
+      });
+
+      const downloadPromise = downloadFile(url, dest, { revalidate: true });
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(metadataPath, JSON.stringify(metadata));
+    });
+
+    test('should keep the existing file when the server answers 304', async () => {
+      mockDownloadedFile();
+      mockAxios.mockResolvedValueOnce({ status: 304, headers: {}, data: mockDataStream });
+
+      await downloadFile(url, dest, { revalidate: true });
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: { 'If-None-Match': '"v1"', 'If-Modified-Since': metadata.lastModified },
+        })
+      );
+      expect(mockFs.createWriteStream).not.toHaveBeenCalled();
+      expect(mockFs.rmSync).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith(
+        `${url} has not changed since it was downloaded, keeping '${dest}'`
+      );
+    });
+
+    test('should replace the file and its metadata when the file changed', async () => {
+      mockDownloadedFile();
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { etag: '"v2"' },
+        data: mockDataStream,
+      });
+
+      const downloadPromise = downloadFile(url, dest, { revalidate: true });
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockFs.rmSync).toHaveBeenCalledWith(metadataPath, { force: true });
+      expect(mockFs.createWriteStream).toHaveBeenCalledWith(dest);
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        metadataPath,
+        JSON.stringify({ url, finalUrl: url, etag: '"v2"', size: 100 })
+      );
+    });
+
+    test('should leave the existing file untouched when the request fails', async () => {
+      mockDownloadedFile();
+      mockAxios.mockResolvedValueOnce({ status: 404, headers: {}, data: mockDataStream });
+
+      await expect(downloadFile(url, dest, { revalidate: true })).rejects.toThrow(
+        `Failed to get '${url}' (404)`
+      );
+      expect(mockFs.createWriteStream).not.toHaveBeenCalled();
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+    });
+
+    test.each([
+      ['another URL', { ...metadata, url: 'https://example.com/other' }],
+      ['another size', { ...metadata, size: 50 }],
+      ['no validators', { url, finalUrl: url, size: 100 }],
+    ])('should download the file again when the metadata has %s', async (_, storedMetadata) => {
+      mockDownloadedFile(storedMetadata);
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      const downloadPromise = downloadFile(url, dest, { revalidate: true });
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.not.objectContaining({ headers: expect.anything() })
+      );
+      expect(mockFs.createWriteStream).toHaveBeenCalledWith(dest);
+    });
+
+    test('should not store metadata without revalidate', async () => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { etag: '"v1"' },
+        data: mockDataStream,
+      });
+
+      const downloadPromise = downloadFile(url, dest);
+      completeDownload();
+      await downloadPromise;
+
+      expect(mockFs.writeFileSync).not.toHaveBeenCalledWith(metadataPath, expect.anything());
+    });
+  });
+
+  describe('downloadFile limits', () => {
+    const url = 'https://mirror.example.com/codecov';
+    const dest = '/tmp/codecov';
+
+    beforeEach(() => {
+      jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      mockFs.access.mockImplementation(
+        (path: string, mode: number, callback: (err: Error | null) => void) => {
+          callback(null);
+        }
+      );
+      mockFs.unlink.mockImplementation((path: string, callback: (err: Error | null) => void) => {
+        callback(null);
+      });
+    });
+
+    test('should reject a Content-Length above maxBytes before writing the file', async () => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'content-length': '2048' },
+        data: mockDataStream,
+      });
+
+      await expect(downloadFile(url, dest, { maxBytes: 1024 })).rejects.toThrow(
+        `Download of '${url}' is 2048 bytes, which exceeds the limit of 1024 bytes`
+      );
+      expect(mockDataStream.pipe).not.toHaveBeenCalled();
+      expect(mockFs.unlink).toHaveBeenCalledWith(dest, expect.any(Function));
+    });
+
+    test('should abort a download that exceeds maxBytes without a Content-Length', async () => {
+      mockDataStream.destroy = jest.fn();
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      const downloadPromise = downloadFile(url, dest, { maxBytes: 1024 });
+      setTimeout(() => {
+        mockDataStream.emit('data', Buffer.alloc(1000));
+        mockDataStream.emit('data', Buffer.alloc(1000));
+      }, 10);
+
+      await expect(downloadPromise).rejects.toThrow(
+        `Download of '${url}' exceeded the limit of 1024 bytes`
+      );
+      expect(mockDataStream.destroy).toHaveBeenCalled();
+      expect(mockFs.unlink).toHaveBeenCalledWith(dest, expect.any(Function));
+    });
+
+    test('should accept a download of exactly maxBytes', async () => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'content-length': '1024' },
+        data: mockDataStream,
+      });
+
+      const downloadPromise = downloadFile(url, dest, { maxBytes: 1024 });
+      setTimeout(() => {
+        mockDataStream.emit('data', Buffer.alloc(1024));
+        mockFileStream.emit('finish');
+      }, 10);
+
+      await expect(downloadPromise).resolves.toBeUndefined();
+    });
+
+    test('should reject an unexpected content type', async () => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'content-type': 'text/html; charset=utf-8' },
+        data: mockDataStream,
+      });
+
+      await expect(
+        downloadFile(url, dest, { expectedContentTypes: ['application/octet-stream'] })
+      ).rejects.toThrow(
+        `Unexpected content type 'text/html; charset=utf-8' for '${url}'. Expected application/octet-stream`
+      );
+      expect(mockDataStream.pipe).not.toHaveBeenCalled();
+    });
+
+    test('should reject a response without a content type', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: mockDataStream });
+
+      await expect(
+        downloadFile(url, dest, { expectedContentTypes: ['application/octet-stream'] })
+      ).rejects.toThrow(`Unexpected content type '' for '${url}'`);
+    });
+
+    test.each([
+      ['application/octet-stream', ['application/octet-stream']],
+      ['Application/Octet-Stream', ['application/octet-stream']],
+      ['text/plain; charset=utf-8', ['application/octet-stream', 'text/*']],
+    ])('should accept the content type %s', async (contentType, expectedContentTypes) => {
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'content-type': contentType },
+        data: mockDataStream,
+      });
+
+      const downloadPromise = downloadFile(url, dest, { expectedContentTypes });
+      setTimeout(() => mockFileStream.emit('finish'), 10);
+
+      await expect(downloadPromise).resolves.toBeUndefined();
+    });
+
+    test('should reject an invalid maxBytes value before downloading', async () => {
+      await expect(downloadFile(url, dest, { maxBytes: 0 })).rejects.toThrow(
+        "Invalid maxBytes value '0'. Expected a positive integer"
+      );
+      expect(mockAxios).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('downloadFile stall detection and rate limit', () => {
+    const url = 'https://example.com/codecov';
+    const dest = '/tmp/codecov';
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      mockFs.access.mockImplementation(
+        (path: string, mode: number, callback: (err: Error | null) => void) => {
+          callback(null);
+        }
+      );
+      mockFs.unlink.mockImplementation((path: string, callback: (err: Error | null) => void) => {
+        callback(null);
+      });
+      mockDataStream.pause = jest.fn();
+      mockDataStream.unpipe = jest.fn();
+      mockAxios.mockResolvedValue({ status: 200, headers: {}, data: mockDataStream });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    // Lets the request and the response handler run
+    const waitForResponse = async (): Promise<void> => {
+      for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+      }
+    };
+
+    test('should abort a download that receives no data for stallTimeoutMs', async () => {
+      const downloadPromise = downloadFile(url, dest, { stallTimeoutMs: 5000 });
+      const rejection = expect(downloadPromise).rejects.toThrow(
+        `Download of '${url}' stalled: no data received for 5000ms`
+      );
+      await waitForResponse();
+
+      mockDataStream.emit('data', Buffer.alloc(100));
+      jest.advanceTimersByTime(4000);
+      // Data arriving restarts the timer
+      mockDataStream.emit('data', Buffer.alloc(100));
+      jest.advanceTimersByTime(4000);
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      await rejection;
+      expect(mockFs.unlink).toHaveBeenCalledWith(dest, expect.any(Function));
+    });
+
+    test('should retry a stalled download', async () => {
+      const downloadPromise = downloadFile(url, dest, {
+        stallTimeoutMs: 5000,
+        retries: 1,
+        retryDelayMs: 100,
+        retryJitter: false,
+      });
+      await waitForResponse();
+
+      jest.advanceTimersByTime(5000);
+      await waitForResponse();
+      expect(logger.warn).toHaveBeenCalledWith(
+        `Attempt 1 of 2 to download ${url} failed: Download of '${url}' stalled: no data received for 5000ms. Retrying in 100ms`
+      );
+
+      jest.advanceTimersByTime(100);
+      await waitForResponse();
+      mockFileStream.emit('finish');
+      await expect(downloadPromise).resolves.toBeUndefined();
+      expect(mockAxios).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not abort a download when stall detection is disabled', async () => {
+      const downloadPromise = downloadFile(url, dest, { stallTimeoutMs: 0 });
+      await waitForResponse();
+
+      jest.advanceTimersByTime(10 * 60 * 1000);
+      mockFileStream.emit('finish');
+
+      await expect(downloadPromise).resolves.toBeUndefined();
+    });
+
+    test('should pause the download while it is ahead of maxBytesPerSecond', async () => {
+      const downloadPromise = downloadFile(url, dest, {
+        maxBytesPerSecond: 1000,
+        stallTimeoutMs: 1000,
+      });
+      await waitForResponse();
+
+      mockDataStream.emit('data', Buffer.alloc(500));
+      expect(mockDataStream.pause).toHaveBeenCalledTimes(1);
+      expect(mockDataStream.unpipe).toHaveBeenCalledWith(mockFileStream);
+
+      // The stall timer does not run while the download is paused on purpose
+      jest.advanceTimersByTime(499);
+      expect(mockDataStream.pipe).toHaveBeenCalledTimes(1);
+      jest.advanceTimersByTime(1);
+      expect(mockDataStream.pipe).toHaveBeenCalledTimes(2);
+
+      mockFileStream.emit('finish');
+      await expect(downloadPromise).resolves.toBeUndefined();
+    });
+
+    test('should reject an invalid maxBytesPerSecond value before downloading', async () => {
+      await expect(downloadFile(url, dest, { maxBytesPerSecond: 0 })).rejects.toThrow(
+        "Invalid maxBytesPerSecond value '0'. Expected a positive number"
+      );
+      expect(mockAxios).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('urlExists', () => {
+    test('should return true for a 2xx response', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {} });
+
+      await expect(urlExists('https://example.com/v1.0.0/file')).resolves.toBe(true);
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'HEAD',
+          url: 'https://example.com/v1.0.0/file',
+          timeout: 30000,
+          maxRedirects: 5,
+        })
+      );
+    });
+
+    test('should send credentials with the HEAD request', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {} });
+
+      await urlExists('https://mirror.example.com/file', {
+        auth: { type: 'bearer', token: 'token-value', origin: 'https://mirror.example.com' },
+      });
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'HEAD',
+          headers: { Authorization: 'Bearer token-value' },
+        })
+      );
+    });
+
+    test('should not send credentials to another origin', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {} });
+
+      await urlExists('https://cli.codecov.io/file', {
+        auth: { type: 'bearer', token: 'token-value', origin: 'https://mirror.example.com' },
+      });
+
+      const config = mockAxios.mock.calls[0]?.[0] as unknown as Record<string, unknown>;
+      expect(config).not.toHaveProperty('auth');
+      expect(config).not.toHaveProperty('headers');
+    });
+
+    test('should return false for a 404 response', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 404, headers: {} });
+
+      await expect(urlExists('https://example.com/v9.9.9/file')).resolves.toBe(false);
+    });
+
+    test('should return false for a 410 response', async () => {
+      mockAxios.mockResolvedValueOnce({ status: 410, headers: {} });
+
+      await expect(urlExists('https://example.com/v9.9.9/file')).resolves.toBe(false);
+    });
+
+    test.each([401, 403, 500])('should throw with the status of a %p response', async (status) => {
+      mockAxios.mockResolvedValueOnce({ status, headers: {} });
+
+      await expect(urlExists('https://example.com/file')).rejects.toThrow(
+        `Failed to check 'https://example.com/file' (${status})`
+      );
+    });
+
+    test('should check a server that does not allow HEAD with a ranged GET', async () => {
+      const destroy = jest.fn();
+      mockAxios
+        .mockResolvedValueOnce({ status: 405, headers: {} })
+        .mockResolvedValueOnce({ status: 206, headers: {}, data: { destroy } });
+
+      await expect(
+        urlExists('https://mirror.example.com/file', {
+          auth: { type: 'bearer', token: 'token-value', origin: 'https://mirror.example.com' },
+        })
+      ).resolves.toBe(true);
+
+      expect(mockAxios).toHaveBeenCalledTimes(2);
+      expect(mockAxios).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          method: 'GET',
+          responseType: 'stream',
+          headers: { Authorization: 'Bearer token-value', Range: 'bytes=0-0' },
+        })
+      );
+      expect(destroy).toHaveBeenCalled();
+    });
+
+    test('should reject with a timeout error', async () => {
+      const timeoutError = new Error('Timeout');
+      Object.defineProperty(timeoutError, 'code', { value: 'ECONNABORTED' });
+      mockAxios.mockRejectedValueOnce(timeoutError);
+      (mockAxios as any).isAxiosError.mockReturnValue(true);
+
+      await expect(urlExists('https://example.com/file', { timeout: 1000 })).rejects.toThrow(
+        'Request timed out after 1000ms: https://example.com/file'
+      );
+    });
+
+    test('should reject on network errors', async () => {
+      mockAxios.mockRejectedValueOnce(new Error('Network Error'));
+
+      await expect(urlExists('https://example.com/file')).rejects.toThrow(
+        "Failed to check 'https://example.com/file': Network Error"
+      );
+    });
+
+    describe('retries', () => {
+      const retryOptions = { retries: 2, retryDelayMs: 4, retryJitter: false };
+
+      beforeEach(() => {
+        jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+      });
+
+      test('should retry a 5xx response and a dropped connection', async () => {
+        const resetError = new Error('socket hang up');
+        Object.defineProperty(resetError, 'code', { value: 'ECONNRESET' });
+        mockAxios
+          .mockResolvedValueOnce({ status: 503, headers: {} })
+          .mockRejectedValueOnce(resetError)
+          .mockResolvedValueOnce({ status: 200, headers: {} });
+
+        await expect(urlExists('https://example.com/file', retryOptions)).resolves.toBe(true);
+
+        expect(mockAxios).toHaveBeenCalledTimes(3);
+        expect(logger.warn).toHaveBeenCalledWith(
+          'Attempt 1 of 3 to check https://example.com/file failed: status 503. Retrying in 4ms'
+        );
+        expect(logger.warn).toHaveBeenCalledWith(
+          "Attempt 2 of 3 to check https://example.com/file failed: Failed to check 'https://example.com/file': socket hang up. Retrying in 8ms"
+        );
+      });
+
+      test('should throw with the status when every attempt fails with a 5xx response', async () => {
+        mockAxios
+          .mockResolvedValueOnce({ status: 502, headers: {} })
+          .mockResolvedValueOnce({ status: 502, headers: {} })
+          .mockResolvedValueOnce({ status: 502, headers: {} });
+
+        await expect(urlExists('https://example.com/file', retryOptions)).rejects.toThrow(
+          "Failed to check 'https://example.com/file' (502)"
+        );
+
+        expect(mockAxios).toHaveBeenCalledTimes(3);
+      });
+
+      test('should not retry a 404 response', async () => {
+        mockAxios.mockResolvedValueOnce({ status: 404, headers: {} });
+
+        await expect(urlExists('https://example.com/file', retryOptions)).resolves.toBe(false);
+
+        expect(mockAxios).toHaveBeenCalledTimes(1);
+        expect(logger.warn).not.toHaveBeenCalled();
+      });
+    });
+  });
 });
@@ -2,10 +2,62 @@ import * as tl from 'azure-pipelines-task-lib/task';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
 import { execFileSync } from 'node:child_process';
-import { verifyFileChecksum } from './utils/fileUtils';
+import { readExpectedChecksum } from './utils/fileUtils';
+import {
+  CODECOV_PGP_KEY_FINGERPRINT,
+  downloadPgpKeys,
+  getPgpKeyUrls,
+  normalizePgpFingerprint,
+  verifyDetachedSignature,
+} from './utils/pgpUtils';
 import { quoteCommandArgument } from './utils/commandUtils';
 import { clearSensitiveEnvironmentVariables, setTokenWasSetByTask } from './utils/environmentUtils';
-import { downloadFile } from './utils/webUtils';
+import { downloadFile, urlExists, type DownloadAuth } from './utils/webUtils';
+import { downloadAll, fileDownload, type DownloadJob } from './utils/downloadManager';
+import { getDownloadSourceFromServiceConnection } from './utils/serviceConnectionUtils';
+import { getProxyEnvironment, redactProxyUrl } from './utils/proxyUtils';
+import { createProgressReporter } from './utils/progressUtils';
+import { findCoverageFiles, resolveCoverageFilePatterns } from './utils/coverageFileUtils';
+import {
+  COVERAGE_FORMAT_NAMES,
+  validateCoverageFile,
+  type CoverageFile,
+} from './utils/coverageFormatUtils';
+import { convertCoverageFiles, type ConversionTarget } from './utils/coverageConverterUtils';
+import { parsePathMappings, remapCoverageFiles } from './utils/pathMappingUtils';
+import {
+  checkCoverageThresholds,
+  formatCoveragePercentage,
+  getCoveragePercentage,
+  parseCoverageThreshold,
+  publishCoverageSummary,
+  summarizeCoverageFiles,
+  type CoverageSummary,
+  type CoverageThresholds,
+} from './utils/coverageSummaryUtils';
+import {
+  createUploadManifest,
+  getUniqueArtifactName,
+  publishUploadManifest,
+  type UploadManifest,
+} from './utils/uploadManifestUtils';
+import {
+  CLI_CONTENT_TYPES,
+  CODECOV_CLI_BASE_URL,
+  DEFAULT_DOWNLOAD_RETRIES,
+  findLocalCodecovCli,
+  getCodecovCliPlatform,
+  getCodecovCliUrls,
+  getCodecovUploadUrl,
+  LATEST_CLI_VERSION,
+  MAX_CLI_FILE_BYTES,
+  MAX_CLI_VERIFICATION_FILE_BYTES,
+  normalizeCliBaseUrl,
+  normalizeCliVersion,
+  normalizeMinimumCliVersion,
+  resolveCodecovCliVersion,
+} from './utils/cliUtils';
+import { cacheCodecovCli, findCachedCodecovCli } from './utils/toolCacheUtils';
 import { handleUnhandledError } from './utils/errorUtils';
 import logger from './utils/logger';
 
@@ -21,7 +73,117 @@ export async function run(): Promise<void> {
     const testResultFolderName = tl.getInput('testResultFolderName', false) ?? '';
     const coverageFileName = tl.getInput('coverageFileName', false) ?? '';
     const networkRootFolder = tl.getInput('networkRootFolder', false) ?? '';
+    const ifNoCoverageFilesFound = (tl.getInput('ifNoCoverageFilesFound', false) ?? '').trim();
+    if (!['', 'warn', 'error'].includes(ifNoCoverageFilesFound)) {
+      throw new Error(
+        `Invalid ifNoCoverageFilesFound value '${ifNoCoverageFilesFound}'. Expected 'warn' or 'error'`
+      );
+    }
+    const ifCoverageFileInvalid = (tl.getInput('ifCoverageFileInvalid', false) ?? '').trim();
+    if (!['', 'warn', 'error'].includes(ifCoverageFileInvalid)) {
+      throw new Error(
+        `Invalid ifCoverageFileInvalid value '${ifCoverageFileInvalid}'. Expected 'warn' or 'error'`
+      );
+    }
+    const convertTo = (tl.getInput('convertTo', false) ?? '').trim();
+    if (!['', 'cobertura', 'lcov'].includes(convertTo)) {
+      throw new Error(`Invalid convertTo value '${convertTo}'. Expected 'cobertura' or 'lcov'`);
+    }
+    const conversionTarget = convertTo !== '' ? (convertTo as ConversionTarget) : null;
+    const convertedCoverageArtifactName =
+      (tl.getInput('convertedCoverageArtifactName', false) ?? '').trim() ||
+      'codecov-converted-coverage';
+    const pathMappings = parsePathMappings(tl.getInput('pathMappings', false) ?? '');
+    const coverageThresholds: CoverageThresholds = {
+      lines: parseCoverageThreshold(
+        tl.getInput('minimumLineCoverage', false) ?? '',
+        'minimumLineCoverage'
+      ),
+      branches: parseCoverageThreshold(
+        tl.getInput('minimumBranchCoverage', false) ?? '',
+        'minimumBranchCoverage'
+      ),
+    };
+    const ifCoverageBelowMinimum = (tl.getInput('ifCoverageBelowMinimum', false) ?? '').trim();
+    if (!['', 'warn', 'error'].includes(ifCoverageBelowMinimum)) {
+      throw new Error(
+        `Invalid ifCoverageBelowMinimum value '${ifCoverageBelowMinimum}'. Expected 'warn' or 'error'`
+      );
+    }
     const verbose = tl.getBoolInput('verbose', false) ?? false;
+    const cliVersion = normalizeCliVersion(tl.getInput('cliVersion', false) ?? '');
+    const cliPath = tl.getInput('cliPath', false) ?? '';
+    const useLocalCli = tl.getBoolInput('useLocalCli', false);
+    const minimumCliVersion = normalizeMinimumCliVersion(
+      tl.getInput('minimumCliVersion', false) ?? ''
+    );
+    const pgpKeyPath = tl.getInput('pgpKeyPath', false) ?? '';
+    const pgpKeyFingerprintInput = (tl.getInput('pgpKeyFingerprint', false) ?? '').trim();
+    const pgpKeyFingerprint = normalizePgpFingerprint(
+      pgpKeyFingerprintInput !== '' ? pgpKeyFingerprintInput : CODECOV_PGP_KEY_FINGERPRINT
+    );
+
+    // Resolve the origin the Codecov CLI is downloaded from. A service connection provides the
+    // URL and credentials of an authenticated mirror, cliBaseUrl overrides the URL
+    const cliMirrorServiceConnection = tl.getInput('cliMirrorServiceConnection', false) ?? '';
+    const cliBaseUrlInput = (tl.getInput('cliBaseUrl', false) ?? '').trim();
+    let cliBaseUrl = CODECOV_CLI_BASE_URL;
+    let downloadAuth: DownloadAuth | undefined;
+    if (cliMirrorServiceConnection) {
+      const source = getDownloadSourceFromServiceConnection(cliMirrorServiceConnection);
+      cliBaseUrl = normalizeCliBaseUrl(source.baseUrl);
+      downloadAuth = source.auth;
+    }
+    if (cliBaseUrlInput !== '') {
+      cliBaseUrl = normalizeCliBaseUrl(cliBaseUrlInput);
+    }
+    const usingMirror = cliBaseUrl !== CODECOV_CLI_BASE_URL;
+    // The credentials of the service connection are only sent to its own origin
+    if (downloadAuth && new URL(cliBaseUrl).origin !== downloadAuth.origin) {
+      logger.warn(
+        `The credentials of service connection '${cliMirrorServiceConnection}' are not sent to ${cliBaseUrl}, which is not on ${downloadAuth.origin}`
+      );
+      downloadAuth = undefined;
+    }
+    const requestOptions = downloadAuth ? { auth: downloadAuth } : {};
+
+    // Transient download failures, such as a 502 or a dropped connection, are retried
+    const downloadRetriesInput = (tl.getInput('downloadRetries', false) ?? '').trim();
+    if (downloadRetriesInput !== '' && !/^\d+$/.test(downloadRetriesInput)) {
+      throw new Error(
+        `Invalid downloadRetries value '${downloadRetriesInput}'. Expected a non-negative integer`
+      );
+    }
+    const downloadRetries =
+      downloadRetriesInput !== '' ? Number(downloadRetriesInput) : DEFAULT_DOWNLOAD_RETRIES;
+
+    // A download that stops receiving data is aborted, and can optionally be rate limited
+    const downloadStallTimeoutInput = (tl.getInput('downloadStallTimeout', false) ?? '').trim();
+    if (downloadStallTimeoutInput !== '' && !/^\d+$/.test(downloadStallTimeoutInput)) {
+      throw new Error(
+        `Invalid downloadStallTimeout value '${downloadStallTimeoutInput}'. Expected a non-negative integer`
+      );
+    }
+    const downloadMaxBytesPerSecondInput = (
+      tl.getInput('downloadMaxBytesPerSecond', false) ?? ''
+    ).trim();
+    if (downloadMaxBytesPerSecondInput !== '' && !/^\d+$/.test(downloadMaxBytesPerSecondInput)) {
+      throw new Error(
+        `Invalid downloadMaxBytesPerSecond value '${downloadMaxBytesPerSecondInput}'. Expected a non-negative integer`
+      );
+    }
+    const downloadMaxBytesPerSecond = Number(downloadMaxBytesPerSecondInput);
+
+    const retryOptions = downloadRetries > 0 ? { retries: downloadRetries } : {};
+    const downloadOptions = {
+      ...retryOptions,
+      ...(downloadStallTimeoutInput !== ''
+        ? { stallTimeoutMs: Number(downloadStallTimeoutInput) * 1000 }
+        : {}),
+      ...(downloadMaxBytesPerSecond > 0 ? { maxBytesPerSecond: downloadMaxBytesPerSecond } : {}),
+    };
+    const showDownloadProgress = tl.getBoolInput('showDownloadProgress', false);
+
     // Get token from task input or pipeline variable, remove any whitespace
     const codecovTokenInput = (tl.getInput('codecovToken', false) ?? '').trim();
     const codecovTokenFromVariableRaw = tl.getVariable('CODECOV_TOKEN');
@@ -76,16 +238,145 @@ export async function run(): Promise<void> {
       logger.info(`Network root folder: ${networkRootFolder}`);
     }
     logger.info(`Verbose mode: ${verbose ? 'enabled' : 'disabled'}`);
+    logger.info(`Codecov CLI version: ${cliVersion}`);
+    if (minimumCliVersion) {
+      logger.info(`Minimum Codecov CLI version: ${minimumCliVersion}`);
+    }
+    if (usingMirror) {
+      logger.info(
+        `Codecov CLI mirror: ${cliBaseUrl}${downloadAuth ? ` (${downloadAuth.type} authentication)` : ''}`
+      );
+    }
 
     // Save the original working directory to resolve relative paths later
     const originalWorkingDir = process.cwd();
     logger.debug(`Original working directory: ${originalWorkingDir}`);
 
+    // Prepare coverage files or directory
+    let resolvedTestResultFolderPath: string | undefined;
+    let coverageFiles: string[] = [];
+    if (coverageFileName) {
+      // Every line of coverageFileName is a path or glob pattern relative to
+      // testResultFolderName, or to the original working directory when it is not provided
+      if (testResultFolderName) {
+        resolvedTestResultFolderPath = path.resolve(originalWorkingDir, testResultFolderName);
+      }
+      const { files, unmatched } = resolveCoverageFilePatterns(
+        resolvedTestResultFolderPath ?? originalWorkingDir,
+        coverageFileName
+      );
+      for (const { message } of unmatched) {
+        if (ifNoCoverageFilesFound === 'warn') {
+          logger.warn(message);
+        } else {
+          throw new Error(message);
+        }
+      }
+      coverageFiles = files;
+
+      if (coverageFiles.length === 0) {
+        const message = 'No coverage files found. Skipping the upload';
+        if (ifNoCoverageFilesFound !== 'warn') {
+          throw new Error(message);
+        }
+        logger.warn(message);
+        clearSensitiveEnvironmentVariables();
+        tl.setResult(tl.TaskResult.SucceededWithIssues, message);
+        return;
+      }
+
+      // Check the reports before the CLI is downloaded, so a broken report fails fast
+      let checkedFiles: CoverageFile[] = [];
+      for (const coverageFile of coverageFiles) {
+        try {
+          const { format, lines } = await validateCoverageFile(coverageFile);
+          logger.info(
+            `Coverage file ${coverageFile}: ${COVERAGE_FORMAT_NAMES[format]} report, ${lines.covered} of ${lines.total} lines covered`
+          );
+          checkedFiles.push({ path: coverageFile, format });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (ifCoverageFileInvalid !== 'error') {
+            logger.warn(message);
+          } else {
+            throw new Error(message);
+          }
+          checkedFiles.push({ path: coverageFile, format: null });
+        }
+      }
+
+      // Convert the reports Codecov maps badly, and upload the converted reports in their place.
+      // They are published as an artifact, so a conversion can be checked when coverage looks off
+      if (conversionTarget) {
+        // Every instance of the task converts into its own folder, so a later instance in the same
+        // job does not empty a folder that is still being uploaded
+        const convertedRoot = path.join(
+          tl.getVariable('Agent.TempDirectory') ?? '.',
+          'codecov_converted'
+        );
+        fs.mkdirSync(convertedRoot, { recursive: true });
+        const convertedDir = fs.mkdtempSync(path.join(convertedRoot, 'converted-'));
+        const { files: convertedFiles, converted } = await convertCoverageFiles(
+          checkedFiles,
+          conversionTarget,
+          convertedDir
+        );
+        checkedFiles = convertedFiles;
+        coverageFiles = convertedFiles.map((file) => file.path);
+        if (converted.length > 0) {
+          // The artifact name is only taken when there is something to publish
+          const artifactName = getUniqueArtifactName(convertedCoverageArtifactName);
+          tl.uploadArtifact(artifactName, convertedDir, artifactName);
+        } else {
+          logger.info(`No coverage files to convert to ${COVERAGE_FORMAT_NAMES[conversionTarget]}`);
+        }
+      }
+
+      // Rewrite the source file paths in copies of the reports, after the conversion so converted
+      // reports are rewritten too. Relative paths are looked up in the repository
+      if (pathMappings.length > 0) {
+        checkedFiles = await remapCoverageFiles(
+          checkedFiles,
+          pathMappings,
+          path.join(tl.getVariable('Agent.TempDirectory') ?? '.', 'codecov_remapped'),
+          (tl.getVariable('Build.SourcesDirectory') ?? '') || originalWorkingDir
+        );
+        coverageFiles = checkedFiles.map((file) => file.path);
+      }
+    } else if (testResultFolderName) {
+      if (conversionTarget) {
+        logger.warn(
+          'convertTo only applies to the files matched by coverageFileName. The reports in the test result folder are uploaded as they are'
+        );
+      }
+      if (pathMappings.length > 0) {
+        logger.warn(
+          'pathMappings only applies to the files matched by coverageFileName. The paths in the reports in the test result folder are not rewritten'
+        );
+      }
+      // Resolve test result folder path relative to the original working directory
+      resolvedTestResultFolderPath = path.resolve(originalWorkingDir, testResultFolderName);
+
+      if (!fs.existsSync(resolvedTestResultFolderPath)) {
+        throw new Error(
+          `Specified test result folder not found at ${resolvedTestResultFolderPath}`
+        );
+      }
+    }
+
+    // Select the Codecov CLI build for the agent's operating system and architecture
+    const cliPlatform = getCodecovCliPlatform();
+    const cliFileName = cliPlatform.executableName;
+    const sha256sumFileName = `${cliFileName}.SHA256SUM`;
+    const sha256sumSigFileName = `${sha256sumFileName}.sig`;
+    logger.info(`Codecov CLI platform: ${cliPlatform.name} (${process.platform}/${process.arch})`);
+
     // URLs for the Codecov CLI
-    const cliUrl = 'https://cli.codecov.io/latest/linux/codecov';
-    const sha256sumUrl = 'https://cli.codecov.io/latest/linux/codecov.SHA256SUM';
-    const sha256sumSigUrl = 'https://cli.codecov.io/latest/linux/codecov.SHA256SUM.sig';
-    const pgpKeysUrl = 'https://keybase.io/codecovsecurity/pgp_keys.asc';
+    const { cliUrl, sha256sumUrl, sha256sumSigUrl } = getCodecovCliUrls(
+      cliVersion,
+      cliPlatform,
+      cliBaseUrl
+    );
 
     // Create a directory to store files
     const tempDir = tl.getVariable('Agent.TempDirectory') ?? '.';
@@ -99,51 +390,167 @@ export async function run(): Promise<void> {
     process.chdir(workingDir);
     logger.info(`Working directory: ${workingDir}`);
 
-    // Download necessary files
-    logger.info('Downloading PGP keys...');
-    await downloadFile(pgpKeysUrl, 'pgp_keys.asc');
-    logger.info('Importing PGP keys...');
-    execFileSync('gpg', ['--no-default-keyring', '--import', 'pgp_keys.asc'], { stdio: 'inherit' });
+    // Prefer a Codecov CLI that is already installed on the agent, either configured
+    // explicitly or found on PATH when useLocalCli is set, over downloading one
+    const localCli = findLocalCodecovCli({
+      ...(cliPath ? { cliPath: path.resolve(originalWorkingDir, cliPath) } : {}),
+      searchPath: useLocalCli,
+      requestedVersion: cliVersion,
+      ...(minimumCliVersion ? { minimumVersion: minimumCliVersion } : {}),
+    });
 
-    logger.info('Downloading Codecov CLI...');
-    await downloadFile(cliUrl, 'codecov');
-    await downloadFile(sha256sumUrl, 'codecov.SHA256SUM');
-    await downloadFile(sha256sumSigUrl, 'codecov.SHA256SUM.sig');
+    // Look up a previously verified CLI in the agent tool cache. Only pinned versions can be
+    // looked up, as resolving 'latest' to a version would require a network request
+    const useToolCache = tl.getBoolInput('useToolCache', false);
+    const toolsDirectory = tl.getVariable('Agent.ToolsDirectory');
+    const cacheEnabled = useToolCache && !!toolsDirectory;
+    // Windows does not resolve executables relative to the working directory using './'
+    let codecovExecutable =
+      process.platform === 'win32' ? path.join(workingDir, cliFileName) : `./${cliFileName}`;
+    let resolvedCliVersion = cliVersion;
+    let cachedCliPath: string | null = null;
 
-    logger.info('Verifying Codecov CLI...');
-    execFileSync('gpg', ['--verify', 'codecov.SHA256SUM.sig', 'codecov.SHA256SUM'], {
-      stdio: 'inherit',
-    });
-    await verifyFileChecksum('codecov', 'codecov.SHA256SUM', logger.info.bind(logger));
-    fs.chmodSync('codecov', '755');
-    // Prepare coverage file or directory
-    let resolvedTestResultFolderPath: string | undefined;
-    let actualCoverageFilePath: string | undefined;
-    if (coverageFileName) {
-      // If testResultFolderName is provided, join it with coverageFileName
-      // Otherwise, treat coverageFileName as a full path
-      if (testResultFolderName) {
-        // Resolve paths relative to the original working directory
-        resolvedTestResultFolderPath = path.resolve(originalWorkingDir, testResultFolderName);
-        actualCoverageFilePath = path.join(resolvedTestResultFolderPath, coverageFileName);
-      } else {
-        // Resolve path relative to the original working directory
-        actualCoverageFilePath = path.resolve(originalWorkingDir, coverageFileName);
+    if (!localCli && cacheEnabled && cliVersion !== LATEST_CLI_VERSION) {
+      cachedCliPath = await findCachedCodecovCli(
+        toolsDirectory,
+        cliVersion,
+        cliPlatform.name,
+        cliFileName
+      );
+    }
+
+    if (localCli) {
+      logger.info(
+        `Using local Codecov CLI from ${localCli.source === 'cliPath' ? 'the cliPath input' : 'PATH'}: ${localCli.path} (${localCli.reason}). Skipping download and verification`
+      );
+      logger.warn(
+        `The local Codecov CLI at ${localCli.path} is not verified against the signed Codecov checksums`
+      );
+      codecovExecutable = localCli.path;
+      resolvedCliVersion = localCli.version;
+    } else if (cachedCliPath) {
+      logger.info(`Using cached Codecov CLI: ${cachedCliPath}`);
+      codecovExecutable = cachedCliPath;
+    } else {
+      // Make sure a pinned version exists before downloading anything
+      if (cliVersion !== LATEST_CLI_VERSION) {
+        logger.info(`Checking that Codecov CLI version ${cliVersion} exists...`);
+        if (!(await urlExists(cliUrl, { ...requestOptions, ...retryOptions }))) {
+          throw new Error(`Codecov CLI version ${cliVersion} was not found at ${cliUrl}`);
+        }
       }
 
-      if (!fs.existsSync(actualCoverageFilePath)) {
-        throw new Error(`Specified coverage file not found at ${actualCoverageFilePath}`);
+      // Only the key matching the pinned fingerprint is trusted, so the key file itself
+      // may come from any location, including the mirror. Signature and checksum verification
+      // are mandatory regardless of where the files were downloaded from
+      let pgpKeysFile = 'pgp_keys.asc';
+      if (pgpKeyPath) {
+        pgpKeysFile = path.resolve(originalWorkingDir, pgpKeyPath);
+        if (!fs.existsSync(pgpKeysFile)) {
+          throw new Error(`Specified PGP key file not found at ${pgpKeysFile}`);
+        }
+        logger.info(`Using PGP key file: ${pgpKeysFile}`);
       }
-    } else if (testResultFolderName) {
-      // Resolve test result folder path relative to the original working directory
-      resolvedTestResultFolderPath = path.resolve(originalWorkingDir, testResultFolderName);
 
-      if (!fs.existsSync(resolvedTestResultFolderPath)) {
-        throw new Error(
-          `Specified test result folder not found at ${resolvedTestResultFolderPath}`
-        );
+      // Download the checksum file, its signature and the PGP keys concurrently. They are
+      // verified before the CLI is downloaded, so the CLI can be verified while it is
+      // downloaded and is never on disk unless it has the signed checksum. Files left by an
+      // earlier run in the working directory are only kept if the server reports them unchanged,
+      // so a 'latest' CLI that moved on is never used
+      const verificationOptions = {
+        ...downloadOptions,
+        revalidate: true,
+        maxBytes: MAX_CLI_VERIFICATION_FILE_BYTES,
+      };
+      const verificationDownloads: DownloadJob[] = [
+        fileDownload(sha256sumUrl, sha256sumFileName, {
+          ...requestOptions,
+          ...verificationOptions,
+        }),
+        fileDownload(sha256sumSigUrl, sha256sumSigFileName, {
+          ...requestOptions,
+          ...verificationOptions,
+        }),
+      ];
+      if (!pgpKeyPath) {
+        verificationDownloads.push({
+          name: pgpKeysFile,
+          download: (jobOptions) =>
+            downloadPgpKeys(
+              getPgpKeyUrls(pgpKeyFingerprint, usingMirror ? cliBaseUrl : undefined),
+              pgpKeysFile,
+              // The public key servers never get the credentials of the mirror
+              { ...(usingMirror ? requestOptions : {}), ...verificationOptions, ...jobOptions }
+            ),
+        });
+      }
+      logger.info(
+        pgpKeyPath
+          ? 'Downloading Codecov CLI checksum file...'
+          : 'Downloading Codecov CLI checksum file and PGP keys...'
+      );
+      await downloadAll(
+        verificationDownloads,
+        showDownloadProgress
+          ? { onProgress: createProgressReporter('Downloading Codecov CLI verification files') }
+          : {}
+      );
+
+      logger.info(`Verifying Codecov CLI checksum file using PGP key ${pgpKeyFingerprint}...`);
+      const signer = await verifyDetachedSignature(
+        sha256sumFileName,
+        sha256sumSigFileName,
+        pgpKeysFile,
+        { expectedFingerprint: pgpKeyFingerprint }
+      );
+      logger.info(
+        `Good signature on ${sha256sumFileName} from key ${signer.keyId} (primary key fingerprint: ${signer.fingerprint})`
+      );
+
+      // A CLI left by an earlier run is reused when it has the signed checksum
+      logger.info('Downloading Codecov CLI...');
+      const expectedSha256 = await readExpectedChecksum(sha256sumFileName, cliFileName);
+      await downloadFile(cliUrl, cliFileName, {
+        ...requestOptions,
+        ...downloadOptions,
+        overwrite: false,
+        expectedSha256,
+        maxBytes: MAX_CLI_FILE_BYTES,
+        expectedContentTypes: CLI_CONTENT_TYPES,
+        ...(showDownloadProgress
+          ? { onProgress: createProgressReporter('Downloading Codecov CLI') }
+          : {}),
+      });
+      // Windows has no executable permission bit
+      if (cliPlatform.requiresChmod) {
+        fs.chmodSync(cliFileName, '755');
+      }
+
+      // Record the actual CLI version so the build can be reproduced later
+      resolvedCliVersion = resolveCodecovCliVersion(codecovExecutable, cliVersion);
+
+      // Only cache under a concrete version, never under the moving 'latest' alias
+      if (cacheEnabled && resolvedCliVersion !== LATEST_CLI_VERSION) {
+        try {
+          await cacheCodecovCli(
+            toolsDirectory,
+            resolvedCliVersion,
+            cliPlatform.name,
+            path.join(workingDir, cliFileName),
+            path.join(workingDir, sha256sumFileName)
+          );
+        } catch (error) {
+          // A failure to cache must not fail the upload
+          logger.warn(
+            `Failed to cache Codecov CLI: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
       }
     }
+
+    logger.info(`Resolved Codecov CLI version: ${resolvedCliVersion}`);
+    tl.setVariable('codecovCliVersion', resolvedCliVersion, false, true);
+
     // Build an array of arguments for execFileSync
     const args: string[] = [];
 
@@ -155,13 +562,13 @@ export async function run(): Promise<void> {
     // Add the command after any global options
     args.push('upload-process');
 
-    // If coverageFileName was provided, use -f with the file path
+    // If coverageFileName was provided, use -f with every matched file
     if (coverageFileName) {
-      if (actualCoverageFilePath) {
-        logger.info(`Uploading specific coverage file: ${actualCoverageFilePath}`);
-        args.push('--coverage-files-search-direct-file', actualCoverageFilePath);
-        args.push('--disable-search');
+      for (const coverageFile of coverageFiles) {
+        logger.info(`Uploading specific coverage file: ${coverageFile}`);
+        args.push('--coverage-files-search-direct-file', coverageFile);
       }
+      args.push('--disable-search');
     }
     // Otherwise use -s with the testResultFolderName directory if it's specified
     else if (testResultFolderName) {
@@ -197,6 +604,13 @@ export async function run(): Promise<void> {
     const flag = tl.getInput('flag', false);
     const branch = tl.getInput('branch', false);
     const pullRequestNumber = tl.getInput('pullRequestNumber', false);
+    const publishManifest = tl.getBoolInput('publishUploadManifest', false);
+    const uploadManifestArtifactName =
+      (tl.getInput('uploadManifestArtifactName', false) ?? '').trim() || 'codecov-upload-manifest';
+    const publishSummary = tl.getBoolInput('publishCoverageSummary', false);
+    // The coverage is also computed for the minimum coverage check
+    const summarizeCoverage =
+      publishSummary || coverageThresholds.lines !== null || coverageThresholds.branches !== null;
 
     if (coverageFilesSearchExcludeFolder) {
       args.push('--coverage-files-search-exclude-folder', coverageFilesSearchExcludeFolder);
@@ -237,14 +651,112 @@ export async function run(): Promise<void> {
     if (pullRequestNumber) {
       args.push('--pull-request-number', pullRequestNumber);
     }
+
+    // The reports the CLI uploads: the matched files, or else the files a folder search finds
+    let uploadedFiles: string[] | undefined = coverageFileName ? coverageFiles : undefined;
+    const getUploadedFiles = async (): Promise<string[]> => {
+      uploadedFiles ??= await findCoverageFiles(
+        resolvedTestResultFolderPath ?? originalWorkingDir,
+        {
+          excludeFolders: coverageFilesSearchExcludeFolder
+            ? [coverageFilesSearchExcludeFolder]
+            : [],
+        }
+      );
+      return uploadedFiles;
+    };
+
+    // Record the size and checksum of the reports before the CLI reads them, so the manifest
+    // proves exactly which files were sent
+    let uploadManifest: UploadManifest | undefined;
+    if (publishManifest) {
+      const manifestFiles = await getUploadedFiles();
+      if (manifestFiles.length === 0) {
+        logger.warn(
+          `No coverage files found in ${resolvedTestResultFolderPath}. The upload manifest will be empty`
+        );
+      }
+      uploadManifest = await createUploadManifest(manifestFiles, {
+        cliVersion: resolvedCliVersion,
+        dryRun,
+        estimated: !coverageFileName,
+      });
+    }
+
     logger.debug(
-      `Executing command: ./codecov ${args.map((arg) => quoteCommandArgument(arg)).join(' ')}`
+      `Executing command: ${codecovExecutable} ${args.map((arg) => quoteCommandArgument(arg)).join(' ')}`
     );
-    execFileSync('./codecov', args, {
+    // Make the CLI use the same proxy and CA bundle as the downloads. The proxy bypass list is
+    // evaluated for the server the CLI uploads to
+    const proxyEnvironment = getProxyEnvironment(getCodecovUploadUrl(), workingDir);
+    if (proxyEnvironment.HTTPS_PROXY) {
+      logger.info(`Codecov CLI will use proxy ${redactProxyUrl(proxyEnvironment.HTTPS_PROXY)}`);
+    }
+    if (proxyEnvironment.REQUESTS_CA_BUNDLE) {
+      logger.info(`Codecov CLI will trust the CA bundle ${proxyEnvironment.REQUESTS_CA_BUNDLE}`);
+    }
+    execFileSync(codecovExecutable, args, {
       stdio: 'inherit',
+      ...(Object.keys(proxyEnvironment).length > 0
+        ? { env: { ...process.env, ...proxyEnvironment } }
+        : {}),
     });
     logger.info('Upload completed successfully');
 
+    if (uploadManifest) {
+      await publishUploadManifest(uploadManifest, workingDir, uploadManifestArtifactName);
+    }
+
+    // The coverage summary is best effort. It only fails the task when a minimum coverage is set,
+    // because the minimum cannot be checked without it
+    let coverageSummary: CoverageSummary | undefined;
+    if (summarizeCoverage) {
+      try {
+        coverageSummary = await summarizeCoverageFiles(await getUploadedFiles());
+        logger.info(
+          `Line coverage: ${formatCoveragePercentage(coverageSummary.lines)}, branch coverage: ${formatCoveragePercentage(coverageSummary.branches)} (${coverageSummary.files.length} report(s))`
+        );
+        if (publishSummary && coverageSummary.files.length > 0) {
+          await publishCoverageSummary(coverageSummary, workingDir, dryRun);
+        }
+      } catch (error) {
+        const message = `Failed to summarize the coverage: ${error instanceof Error ? error.message : String(error)}`;
+        if (coverageThresholds.lines !== null || coverageThresholds.branches !== null) {
+          throw new Error(message);
+        }
+        logger.warn(message);
+      }
+    }
+
+    // Check the coverage after the upload, so low coverage still reaches Codecov. A dry run is
+    // checked as well, so the minimums can be tried out without uploading.
+    if (coverageSummary) {
+      tl.setVariable(
+        'codecovLineCoverage',
+        getCoveragePercentage(coverageSummary.lines)?.toFixed(2) ?? '',
+        false,
+        true
+      );
+      tl.setVariable(
+        'codecovBranchCoverage',
+        getCoveragePercentage(coverageSummary.branches)?.toFixed(2) ?? '',
+        false,
+        true
+      );
+
+      const failures = checkCoverageThresholds(coverageSummary, coverageThresholds);
+      if (failures.length > 0) {
+        const message = failures.join('; ');
+        if (ifCoverageBelowMinimum === 'warn') {
+          logger.warn(message);
+          clearSensitiveEnvironmentVariables();
+          tl.setResult(tl.TaskResult.SucceededWithIssues, message);
+          return;
+        }
+        throw new Error(message);
+      }
+    }
+
     // Clear sensitive environment variables before exiting
     clearSensitiveEnvironmentVariables();
 
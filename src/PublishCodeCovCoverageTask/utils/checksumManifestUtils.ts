@@ -0,0 +1,257 @@
+import type { HashAlgorithm } from './fileUtils';
+
+/**
+ * @module checksumManifestUtils
+ *
+ * Parser for checksum manifests such as SHA256SUMS files.
+ *
+ * Supported formats:
+ * - GNU coreutils: '<hex digest>  <file name>', or '<hex digest> *<file name>' for files hashed in
+ *   binary mode. Any run of spaces or tabs is accepted between the digest and the file name, so
+ *   file names cannot start with whitespace.
+ * - BSD/tagged: '<ALGORITHM> (<file name>) = <hex digest>', as written by `sha256sum --tag`,
+ *   `shasum --tag`, the BSD `sha256` tool and `openssl dgst` ('SHA2-256(<file name>)= <digest>').
+ * - Escaped file names: a line that starts with a backslash has a file name in which '\\', '\n'
+ *   and '\r' stand for a backslash, a line feed and a carriage return, as written by GNU coreutils.
+ *
+ * Lines may end with LF or CRLF, and a leading byte order mark is ignored. Empty lines, comments and
+ * lines in other formats are skipped and listed in ignoredLines.
+ */
+
+/**
+ * A checksum listed in a manifest
+ */
+export interface ChecksumManifestEntry {
+  /** The file name as listed in the manifest, unescaped and without a leading './' */
+  fileName: string;
+  /** The checksum as lowercase hex */
+  digest: string;
+  /** The algorithm named by a tagged line, or null for an untagged line */
+  algorithm: HashAlgorithm | null;
+  /** Whether the file was hashed in binary mode ('*' before the file name) */
+  binary: boolean;
+  /** The line number of the entry, starting at 1 */
+  lineNumber: number;
+}
+
+/**
+ * A line of a manifest that does not hold a usable checksum
+ */
+export interface IgnoredChecksumLine {
+  /** The line number, starting at 1 */
+  lineNumber: number;
+  /** Why the line was skipped */
+  reason: string;
+}
+
+/**
+ * The checksums listed in a manifest
+ */
+export interface ChecksumManifest {
+  /** Name of the manifest used in error messages, usually its path */
+  source: string;
+  /** The checksums in the order they are listed, without duplicates */
+  entries: ChecksumManifestEntry[];
+  /** Lines that do not hold a usable checksum, such as comments */
+  ignoredLines: IgnoredChecksumLine[];
+}
+
+/**
+ * Length in hex characters of the digest of each supported algorithm, from weakest to strongest
+ */
+export const HEX_DIGEST_LENGTHS: Record<HashAlgorithm, number> = {
+  sha1: 40,
+  sha256: 64,
+  sha384: 96,
+  sha512: 128,
+};
+
+/**
+ * Parses the content of a checksum manifest
+ * A file listed more than once with the same checksum is only returned once.
+ * @param content The content of the manifest
+ * @param source Name of the manifest used in error messages, usually its path
+ * @returns The checksums listed in the manifest
+ * @throws Error if a file is listed with different checksums for the same algorithm, or a tagged
+ * line has a digest that does not fit its algorithm
+ */
+export function parseChecksumManifest(content: string, source: string): ChecksumManifest {
+  const entries: ChecksumManifestEntry[] = [];
+  const ignoredLines: IgnoredChecksumLine[] = [];
+  // First entry for each file name and algorithm, to find duplicates and conflicts
+  const seen = new Map<string, ChecksumManifestEntry>();
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.trim() === '') {
+      return;
+    }
+
+    const parsed = parseChecksumLine(line, lineNumber, source);
+    if ('reason' in parsed) {
+      ignoredLines.push({ lineNumber, reason: parsed.reason });
+      return;
+    }
+
+    // Untagged digests of different lengths are checksums of different algorithms
+    const key = `${parsed.fileName}\0${parsed.algorithm ?? parsed.digest.length}`;
+    const previous = seen.get(key);
+    if (!previous) {
+      seen.set(key, parsed);
+      entries.push(parsed);
+      return;
+    }
+    if (previous.digest !== parsed.digest) {
+      throw new Error(
+        `Conflicting checksums for '${parsed.fileName}' in ${source} on lines ${previous.lineNumber} and ${lineNumber}`
+      );
+    }
+  });
+
+  return { source, entries, ignoredLines };
+}
+
+/**
+ * Finds the checksum of a file in a manifest
+ *
+ * A manifest entry matches when its file name equals the given name, or, when no entry has that
+ * exact name, when the last path segment of its file name does. When the file is listed with
+ * several algorithms, the strongest one is used unless an algorithm is given.
+ *
+ * @param manifest The parsed manifest
+ * @param fileName The name of the file, optionally with a directory relative to the manifest
+ * @param algorithm Optional algorithm the checksum must use; untagged entries match any algorithm
+ * @returns The entry, or null if the manifest has no checksum for the file
+ * @throws Error if entries for several different paths match the file name
+ */
+export function findChecksumEntry(
+  manifest: ChecksumManifest,
+  fileName: string,
+  algorithm?: HashAlgorithm
+): ChecksumManifestEntry | null {
+  const name = normalizeFileName(fileName);
+  const usable = manifest.entries.filter(
+    (entry) => !algorithm || entry.algorithm === null || entry.algorithm === algorithm
+  );
+  let candidates = usable.filter((entry) => entry.fileName === name);
+  if (candidates.length === 0) {
+    candidates = usable.filter((entry) => entry.fileName.split('/').pop() === name);
+  }
+
+  const paths = [...new Set(candidates.map((entry) => entry.fileName))];
+  if (paths.length > 1) {
+    throw new Error(
+      `Ambiguous checksum entries for '${fileName}' in ${manifest.source}: ${paths.map((entryPath) => `'${entryPath}'`).join(', ')}`
+    );
+  }
+
+  // Prefer the strongest algorithm, and a tagged entry over an untagged one
+  const strength = (entry: ChecksumManifestEntry): number =>
+    entry.algorithm ? HEX_DIGEST_LENGTHS[entry.algorithm] + 1 : entry.digest.length;
+  return candidates.reduce<ChecksumManifestEntry | null>(
+    (best, entry) => (!best || strength(entry) > strength(best) ? entry : best),
+    null
+  );
+}
+
+/**
+ * Parses a single non-empty line of a manifest
+ * @returns The entry, or the reason the line was skipped
+ * @throws Error if a tagged line has a digest that does not fit its algorithm
+ */
+function parseChecksumLine(
+  line: string,
+  lineNumber: number,
+  source: string
+): ChecksumManifestEntry | { reason: string } {
+  const escaped = line.startsWith('\\');
+  const text = escaped ? line.slice(1) : line;
+
+  // BSD/tagged format: 'SHA256 (file) = digest'. The file name may contain parentheses, so the
+  // digest is matched at the end of the line
+  const tagged = /^([A-Za-z][A-Za-z0-9-]*) ?\((.*)\) ?= ?([0-9A-Fa-f]+)$/.exec(text);
+  if (tagged?.[1] && tagged[2] !== undefined && tagged[3]) {
+    const algorithm = parseAlgorithmTag(tagged[1]);
+    if (!algorithm) {
+      return { reason: `Unsupported checksum algorithm ${tagged[1]}` };
+    }
+    const fileName = escaped ? unescapeFileName(tagged[2]) : tagged[2];
+    if (fileName === null) {
+      return { reason: 'Invalid escape sequence in the file name' };
+    }
+    const digest = tagged[3].toLowerCase();
+    if (digest.length !== HEX_DIGEST_LENGTHS[algorithm]) {
+      throw new Error(
+        `Invalid ${tagged[1]} checksum for '${fileName}' on line ${lineNumber} of ${source}: expected ${HEX_DIGEST_LENGTHS[algorithm]} hexadecimal characters, found ${digest.length}`
+      );
+    }
+    return {
+      fileName: normalizeFileName(fileName),
+      digest,
+      algorithm,
+      binary: false,
+      lineNumber,
+    };
+  }
+
+  // GNU coreutils format: 'digest  file' or 'digest *file'
+  const untagged = /^([0-9A-Fa-f]+)[ \t]+(\*?)(.+)$/.exec(text);
+  if (untagged?.[1] && untagged[3]) {
+    const fileName = escaped ? unescapeFileName(untagged[3]) : untagged[3];
+    if (fileName === null) {
+      return { reason: 'Invalid escape sequence in the file name' };
+    }
+    return {
+      fileName: normalizeFileName(fileName),
+      digest: untagged[1].toLowerCase(),
+      algorithm: null,
+      binary: untagged[2] === '*',
+      lineNumber,
+    };
+  }
+
+  return { reason: 'Not a checksum line' };
+}
+
+/**
+ * Maps the algorithm tag of a BSD-style line to a hash algorithm
+ * Accepts 'SHA256', 'SHA-256' and the OpenSSL 'SHA2-256' spelling, in any case.
+ * @returns The algorithm, or null if the algorithm is not supported
+ */
+function parseAlgorithmTag(tag: string): HashAlgorithm | null {
+  const match = /^SHA(?:2?-)?(1|256|384|512)$/i.exec(tag);
+  if (!match || (match[1] === '1' && /^SHA2/i.test(tag))) {
+    return null;
+  }
+  return `sha${match[1]}` as HashAlgorithm;
+}
+
+/**
+ * Resolves the escape sequences of a file name on a line that starts with a backslash
+ * @returns The file name, or null if it has an unknown escape sequence
+ */
+function unescapeFileName(fileName: string): string | null {
+  let valid = true;
+  const unescaped = fileName.replace(/\\(.?)/g, (_, character: string) => {
+    switch (character) {
+      case '\\':
+        return '\\';
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      default:
+        valid = false;
+        return '';
+    }
+  });
+  return valid ? unescaped : null;
+}
+
+/**
+ * Removes a leading './', which some tools write before every file name
+ */
+function normalizeFileName(fileName: string): string {
+  return fileName.replace(/^(?:\.\/)+/, '');
+}
@@ -0,0 +1,417 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import logger from './logger';
+
+/**
+ * Origin of the official Codecov CLI distribution
+ */
+export const CODECOV_CLI_BASE_URL = 'https://cli.codecov.io';
+
+/**
+ * The server the Codecov CLI uploads to, unless CODECOV_ENTERPRISE_URL points to a self-hosted one
+ */
+export const CODECOV_API_URL = 'https://api.codecov.io';
+
+/**
+ * Version identifier used when no specific Codecov CLI version is requested
+ */
+export const LATEST_CLI_VERSION = 'latest';
+
+/**
+ * Number of times a download is retried when the downloadRetries input is empty
+ * Matches the default value of the input in task.json
+ */
+export const DEFAULT_DOWNLOAD_RETRIES = 3;
+
+/**
+ * Size limit for the checksum file, its signature and the PGP keys, which are a few kilobytes
+ * A larger response is not the expected file, e.g. an error page of a misconfigured mirror
+ */
+export const MAX_CLI_VERIFICATION_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Size limit for the Codecov CLI, which is a few dozen megabytes
+ */
+export const MAX_CLI_FILE_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Media types the Codecov CLI may be served as
+ * Anything else, such as an HTML error page with status 200, is not the CLI
+ */
+export const CLI_CONTENT_TYPES = [
+  'application/octet-stream',
+  'binary/octet-stream',
+  'application/x-executable',
+  'application/x-msdownload',
+];
+
+/**
+ * Describes the Codecov CLI build to use on the current agent
+ */
+export interface CodecovCliPlatform {
+  /** Platform folder of the CLI download (e.g. 'linux', 'linux-arm64', 'macos', 'windows') */
+  name: string;
+  /** File name of the CLI executable */
+  executableName: string;
+  /** Whether the executable needs the executable permission bit set after download */
+  requiresChmod: boolean;
+}
+
+/**
+ * A Codecov CLI that is already installed on the agent
+ */
+export interface LocalCodecovCli {
+  /** Path to the executable */
+  path: string;
+  /** Version reported by the executable, prefixed with 'v' */
+  version: string;
+  /** Where the executable was found */
+  source: 'cliPath' | 'PATH';
+  /** Why the executable was considered usable, for logging */
+  reason: string;
+}
+
+/**
+ * URLs of the Codecov CLI binary and the files used to verify it
+ */
+export interface CodecovCliUrls {
+  cliUrl: string;
+  sha256sumUrl: string;
+  sha256sumSigUrl: string;
+}
+
+/**
+ * Normalizes the requested Codecov CLI version into the form used in download URLs
+ * An empty value or 'latest' (any casing) resolves to 'latest', a semantic version
+ * is returned with a leading 'v' (e.g. '0.7.4' becomes 'v0.7.4')
+ * @param version The version as provided by the user
+ * @returns The normalized version
+ * @throws Error if the version is neither 'latest' nor a semantic version
+ */
+export function normalizeCliVersion(version: string): string {
+  const trimmed = version.trim();
+  if (trimmed === '' || trimmed.toLowerCase() === LATEST_CLI_VERSION) {
+    return LATEST_CLI_VERSION;
+  }
+
+  // Only allow plain semantic versions so the value can be safely used as a URL path segment
+  const match = /^v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)$/.exec(trimmed);
+  if (!match) {
+    throw new Error(
+      `Invalid Codecov CLI version '${trimmed}'. Expected 'latest' or a version such as 'v0.7.4'`
+    );
+  }
+  return `v${match[1]}`;
+}
+
+/**
+ * Detects which Codecov CLI build to use for an operating system and CPU architecture
+ * @param platform The operating system as reported by process.platform (default: current platform)
+ * @param arch The CPU architecture as reported by process.arch (default: current architecture)
+ * @returns The Codecov CLI platform
+ * @throws Error if Codecov does not publish a CLI build for the platform and architecture
+ */
+export function getCodecovCliPlatform(
+  platform: NodeJS.Platform = process.platform,
+  arch: string = process.arch
+): CodecovCliPlatform {
+  switch (platform) {
+    case 'win32':
+      // Only an x64 build is published, Windows on ARM runs it through emulation
+      return { name: 'windows', executableName: 'codecov.exe', requiresChmod: false };
+    case 'darwin':
+      // The macOS build is a universal binary for both Intel and Apple silicon
+      return { name: 'macos', executableName: 'codecov', requiresChmod: true };
+    case 'linux':
+      if (arch === 'x64') {
+        return { name: 'linux', executableName: 'codecov', requiresChmod: true };
+      }
+      if (arch === 'arm64') {
+        return { name: 'linux-arm64', executableName: 'codecov', requiresChmod: true };
+      }
+      break;
+    default:
+      break;
+  }
+  throw new Error(`The Codecov CLI is not available for platform '${platform}' (${arch})`);
+}
+
+/**
+ * Normalizes the base URL the Codecov CLI is downloaded from, e.g. an internal mirror
+ * The mirror must use the same layout as the official distribution: <baseUrl>/<version>/<platform>/<file>
+ * @param baseUrl The base URL as provided by the user
+ * @returns The base URL without trailing slashes
+ * @throws Error if the value is not an absolute http or https URL
+ */
+export function normalizeCliBaseUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new Error(`Invalid Codecov CLI base URL '${baseUrl}'. Expected an absolute URL`);
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error(
+      `Invalid Codecov CLI base URL '${baseUrl}'. Only http and https URLs are supported`
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Gets the server the Codecov CLI uploads to
+ * A self-hosted Codecov server is set with the CODECOV_ENTERPRISE_URL variable, which the CLI
+ * reads as well.
+ * @returns The URL of the server
+ * @throws Error if CODECOV_ENTERPRISE_URL is not an absolute URL
+ */
+export function getCodecovUploadUrl(): string {
+  const enterpriseUrl = (process.env.CODECOV_ENTERPRISE_URL ?? '').trim();
+  if (enterpriseUrl === '') {
+    return CODECOV_API_URL;
+  }
+  try {
+    return new URL(enterpriseUrl).toString();
+  } catch {
+    throw new Error(
+      `Invalid CODECOV_ENTERPRISE_URL value '${enterpriseUrl}'. Expected an absolute URL`
+    );
+  }
+}
+
+/**
+ * Builds the download URLs for a specific version of the Codecov CLI
+ * @param version The normalized CLI version (see normalizeCliVersion)
+ * @param platform The Codecov CLI platform (see getCodecovCliPlatform)
+ * @param baseUrl The origin to download from (default: the official Codecov CLI distribution)
+ * @returns The URLs of the binary, its SHA256SUM file and the signature of the SHA256SUM file
+ */
+export function getCodecovCliUrls(
+  version: string,
+  platform: CodecovCliPlatform,
+  baseUrl: string = CODECOV_CLI_BASE_URL
+): CodecovCliUrls {
+  const cliUrl = `${baseUrl}/${version}/${platform.name}/${platform.executableName}`;
+  return {
+    cliUrl,
+    sha256sumUrl: `${cliUrl}.SHA256SUM`,
+    sha256sumSigUrl: `${cliUrl}.SHA256SUM.sig`,
+  };
+}
+
+/**
+ * Extracts the version from the output of `codecov --version`
+ * The CLI prints a line such as "codecovcli, version 0.7.4"
+ * @param output The output of the version command
+ * @returns The version prefixed with 'v', or null if no version could be found
+ */
+export function parseCodecovCliVersion(output: string): string | null {
+  const match = /version\s+v?(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)/i.exec(output);
+  return match ? `v${match[1]}` : null;
+}
+
+/**
+ * Resolves the actual version of a downloaded Codecov CLI by running it with --version
+ * Falls back to the requested version if the CLI output cannot be parsed
+ * @param executablePath Path to the Codecov CLI executable
+ * @param requestedVersion The version that was requested for download
+ * @returns The resolved version
+ */
+export function resolveCodecovCliVersion(executablePath: string, requestedVersion: string): string {
+  try {
+    const output = execFileSync(executablePath, ['--version'], { encoding: 'utf8' });
+    const version = parseCodecovCliVersion(typeof output === 'string' ? output : '');
+    if (version) {
+      return version;
+    }
+    logger.warn(`Unable to parse Codecov CLI version from output: ${String(output).trim()}`);
+  } catch (error) {
+    logger.warn(
+      `Unable to determine Codecov CLI version: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return requestedVersion;
+}
+
+/**
+ * Normalizes the minimum Codecov CLI version a local installation must have
+ * @param version The version as provided by the user, e.g. '0.7.4' or 'v0.7.4'
+ * @returns The version prefixed with 'v', or undefined if no minimum version is specified
+ * @throws Error if the value is not a semantic version
+ */
+export function normalizeMinimumCliVersion(version: string): string | undefined {
+  if (version.trim() === '') {
+    return undefined;
+  }
+  const normalized = normalizeCliVersion(version);
+  if (normalized === LATEST_CLI_VERSION) {
+    throw new Error(
+      `Invalid minimum Codecov CLI version '${version}'. Expected a version such as 'v0.7.4'`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Compares two Codecov CLI versions using semantic versioning precedence
+ * A pre-release version (e.g. 'v1.0.0-beta.1') sorts before the release it precedes
+ * @param a The first version, with or without a leading 'v'
+ * @param b The second version, with or without a leading 'v'
+ * @returns A negative number if a is lower than b, zero if they are equal, otherwise a positive number
+ * @throws Error if either value is not a semantic version
+ */
+export function compareCliVersions(a: string, b: string): number {
+  const left = parseSemanticVersion(a);
+  const right = parseSemanticVersion(b);
+  for (let i = 0; i < 3; i++) {
+    const difference = (left.numbers[i] ?? 0) - (right.numbers[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  if (left.preRelease === right.preRelease) {
+    return 0;
+  }
+  if (left.preRelease === '') {
+    return 1;
+  }
+  if (right.preRelease === '') {
+    return -1;
+  }
+  return left.preRelease.localeCompare(right.preRelease, 'en', { numeric: true });
+}
+
+/**
+ * Looks for a Codecov CLI that is already installed on the agent, so the download and
+ * verification steps can be skipped
+ *
+ * An explicitly configured path is always used and must be usable. Otherwise, and only when
+ * searchPath is set, the first 'codecov' executable on PATH is used if it satisfies the version
+ * requirements; if it does not, it is ignored so the task can fall back to downloading the CLI.
+ * A local CLI is not verified, so PATH is never searched unless the pipeline opts in.
+ *
+ * A local CLI is usable when it reports its version, the version is at least the minimum
+ * version (if specified), and it matches the requested version when a version is pinned.
+ *
+ * @param options The lookup options
+ * @param options.cliPath Absolute path of a pre-installed CLI, if configured
+ * @param options.searchPath Whether to look for a 'codecov' executable on PATH
+ * @param options.requestedVersion The normalized requested version (see normalizeCliVersion)
+ * @param options.minimumVersion The minimum version (see normalizeMinimumCliVersion)
+ * @returns The local CLI to use, or null if PATH is not searched, no CLI was found on PATH or it
+ * is not usable
+ * @throws Error if the configured cliPath does not exist or does not satisfy the version requirements
+ */
+export function findLocalCodecovCli(options: {
+  cliPath?: string;
+  searchPath?: boolean;
+  requestedVersion: string;
+  minimumVersion?: string;
+}): LocalCodecovCli | null {
+  if (options.cliPath) {
+    if (!fs.existsSync(options.cliPath)) {
+      throw new Error(`Specified Codecov CLI not found at ${options.cliPath}`);
+    }
+    const result = checkLocalCodecovCli(options.cliPath, options);
+    if (!result.usable) {
+      throw new Error(
+        `Specified Codecov CLI at ${options.cliPath} cannot be used: ${result.reason}`
+      );
+    }
+    return {
+      path: options.cliPath,
+      version: result.version,
+      source: 'cliPath',
+      reason: result.reason,
+    };
+  }
+
+  if (!options.searchPath) {
+    return null;
+  }
+  const pathExecutable = tl.which('codecov', false);
+  if (!pathExecutable) {
+    logger.debug('No Codecov CLI found on PATH');
+    return null;
+  }
+  const result = checkLocalCodecovCli(pathExecutable, options);
+  if (!result.usable) {
+    logger.info(`Ignoring Codecov CLI found on PATH at ${pathExecutable}: ${result.reason}`);
+    return null;
+  }
+  return { path: pathExecutable, version: result.version, source: 'PATH', reason: result.reason };
+}
+
+/**
+ * Runs a local Codecov CLI with --version and checks the version requirements
+ * @param executablePath Path to the executable
+ * @param options The version requirements
+ * @param options.requestedVersion The normalized requested version
+ * @param options.minimumVersion The minimum version, if any
+ * @returns Whether the CLI is usable, its version and the reason it was accepted or rejected
+ */
+function checkLocalCodecovCli(
+  executablePath: string,
+  options: { requestedVersion: string; minimumVersion?: string }
+): { usable: true; version: string; reason: string } | { usable: false; reason: string } {
+  let output: string;
+  try {
+    output = String(execFileSync(executablePath, ['--version'], { encoding: 'utf8' }));
+  } catch (error) {
+    return {
+      usable: false,
+      reason: `running '--version' failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const version = parseCodecovCliVersion(output);
+  if (!version) {
+    return { usable: false, reason: `unable to parse the version from '${output.trim()}'` };
+  }
+  if (options.minimumVersion && compareCliVersions(version, options.minimumVersion) < 0) {
+    return {
+      usable: false,
+      reason: `version ${version} is older than the minimum version ${options.minimumVersion}`,
+    };
+  }
+  if (
+    options.requestedVersion !== LATEST_CLI_VERSION &&
+    compareCliVersions(version, options.requestedVersion) !== 0
+  ) {
+    return {
+      usable: false,
+      reason: `version ${version} does not match the requested version ${options.requestedVersion}`,
+    };
+  }
+
+  if (options.requestedVersion !== LATEST_CLI_VERSION) {
+    return { usable: true, version, reason: `version ${version} matches the requested version` };
+  }
+  if (options.minimumVersion) {
+    return {
+      usable: true,
+      version,
+      reason: `version ${version} satisfies the minimum version ${options.minimumVersion}`,
+    };
+  }
+  return { usable: true, version, reason: `version ${version}, no minimum version required` };
+}
+
+/**
+ * Parses a semantic version into its numeric parts and pre-release identifier
+ * @param version The version, with or without a leading 'v'
+ * @returns The major, minor and patch numbers and the pre-release identifier ('' for a release)
+ * @throws Error if the value is not a semantic version
+ */
+function parseSemanticVersion(version: string): { numbers: number[]; preRelease: string } {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/.exec(version.trim());
+  if (!match) {
+    throw new Error(`Invalid Codecov CLI version '${version}'`);
+  }
+  return {
+    numbers: [Number(match[1]), Number(match[2]), Number(match[3])],
+    preRelease: match[4] ?? '',
+  };
+}
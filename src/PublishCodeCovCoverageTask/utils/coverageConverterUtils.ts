@@ -0,0 +1,434 @@
+import { promises as fsPromises } from 'node:fs';
+import * as path from 'node:path';
+import {
+  COVERAGE_FORMAT_NAMES,
+  getFolder,
+  isRecord,
+  type CoverageCounts,
+  type CoverageFile,
+  type CoverageFormat,
+} from './coverageFormatUtils';
+import logger from './logger';
+import { decodeXmlEntities, escapeXmlAttribute, scanXml } from './xmlUtils';
+
+/**
+ * @module coverageConverterUtils
+ *
+ * Converts coverage reports that Codecov maps badly into Cobertura or lcov before they are
+ * uploaded, so no separate conversion tool is needed in the pipeline.
+ *
+ * A conversion reads a report into the line and branch coverage of every source file, and writes
+ * that in the target format. Another input format only needs a reader in COVERAGE_READERS, and
+ * another target format a writer in COVERAGE_WRITERS.
+ */
+
+/**
+ * Formats coverage reports can be converted to
+ */
+export type ConversionTarget = 'cobertura' | 'lcov';
+
+/**
+ * Coverage of one source file, as read from a report
+ */
+export interface SourceFileCoverage {
+  /** Path of the source file as given by the report */
+  path: string;
+  /** Hits of every line with coverage data, by line number */
+  lines: Map<number, number>;
+  /** Branches of every line with branches, by line number */
+  branches: Map<number, CoverageCounts>;
+}
+
+/**
+ * A coverage report that was converted
+ */
+export interface ConvertedCoverageFile {
+  /** Path of the original report */
+  source: string;
+  /** Path of the converted report */
+  output: string;
+}
+
+/**
+ * Reads the coverage of the source files from a report
+ */
+type CoverageReader = (content: string) => SourceFileCoverage[];
+
+/**
+ * Readers of the formats that can be converted
+ */
+const COVERAGE_READERS: Partial<Record<CoverageFormat, CoverageReader>> = {
+  opencover: readOpenCover,
+  istanbul: readIstanbul,
+  go: readGoCoverprofile,
+};
+
+/**
+ * Writers of the target formats, with the suffix of the converted file names
+ */
+const COVERAGE_WRITERS: Record<
+  ConversionTarget,
+  { suffix: string; write: (files: SourceFileCoverage[]) => string }
+> = {
+  cobertura: { suffix: '.cobertura.xml', write: writeCobertura },
+  lcov: { suffix: '.lcov.info', write: writeLcov },
+};
+
+/**
+ * Checks whether reports of a format can be converted
+ */
+export function canConvertCoverageFormat(format: CoverageFormat): boolean {
+  return format in COVERAGE_READERS;
+}
+
+/**
+ * Converts a coverage report into another format
+ * @param content The content of the report
+ * @param from The format of the report
+ * @param to The format to convert to
+ * @returns The content of the converted report
+ * @throws Error if the format cannot be converted or the report cannot be read
+ */
+export function convertCoverageReport(
+  content: string,
+  from: CoverageFormat,
+  to: ConversionTarget
+): string {
+  const reader = COVERAGE_READERS[from];
+  if (!reader) {
+    throw new Error(
+      `${COVERAGE_FORMAT_NAMES[from]} reports cannot be converted. Supported formats: ${Object.keys(
+        COVERAGE_READERS
+      )
+        .map((format) => COVERAGE_FORMAT_NAMES[format as CoverageFormat])
+        .join(', ')}`
+    );
+  }
+  return COVERAGE_WRITERS[to].write(reader(content.replace(/^\uFEFF/, '')));
+}
+
+/**
+ * Converts coverage reports into the target format
+ *
+ * Reports that are already in the target format, cannot be converted or have an unknown format
+ * are left as they are. The converted reports are named after the originals, such as
+ * coverage.cobertura.xml for coverage.xml.
+ *
+ * @param files The reports and their formats
+ * @param to The format to convert to
+ * @param outputDirectory Folder the converted reports are written to. It is emptied first, so it
+ * only holds the reports of this run.
+ * @returns The reports to upload and their formats, in the order of the given reports, and the
+ * converted reports
+ * @throws Error if a report cannot be converted
+ */
+export async function convertCoverageFiles(
+  files: CoverageFile[],
+  to: ConversionTarget,
+  outputDirectory: string
+): Promise<{ files: CoverageFile[]; converted: ConvertedCoverageFile[] }> {
+  await fsPromises.rm(outputDirectory, { recursive: true, force: true });
+  await fsPromises.mkdir(outputDirectory, { recursive: true });
+
+  const { suffix } = COVERAGE_WRITERS[to];
+  const outputNames = new Set<string>();
+  const result: { files: CoverageFile[]; converted: ConvertedCoverageFile[] } = {
+    files: [],
+    converted: [],
+  };
+
+  for (const file of files) {
+    const { path: source, format } = file;
+    if (!format || format === to || !canConvertCoverageFormat(format)) {
+      if (format && format !== to) {
+        logger.info(
+          `Coverage file ${source} is a ${COVERAGE_FORMAT_NAMES[format]} report, which cannot be converted. It is uploaded as it is`
+        );
+      }
+      result.files.push(file);
+      continue;
+    }
+
+    // Reports from different folders often share a name, such as coverage-final.json
+    const baseName = path.basename(source, path.extname(source));
+    let outputName = `${baseName}${suffix}`;
+    for (let index = 2; outputNames.has(outputName); index++) {
+      outputName = `${baseName}-${index}${suffix}`;
+    }
+    outputNames.add(outputName);
+    const output = path.join(outputDirectory, outputName);
+
+    try {
+      const content = await fsPromises.readFile(source, 'utf8');
+      await fsPromises.writeFile(output, convertCoverageReport(content, format, to), 'utf8');
+    } catch (error) {
+      throw new Error(
+        `Failed to convert coverage file ${source}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    logger.info(
+      `Converted ${COVERAGE_FORMAT_NAMES[format]} report ${source} to ${COVERAGE_FORMAT_NAMES[to]} report ${output}`
+    );
+    result.files.push({ path: output, format: to });
+    result.converted.push({ source, output });
+  }
+
+  return result;
+}
+
+/**
+ * Returns the coverage of a source file, adding it if it does not exist yet
+ */
+function getSourceFile(
+  files: Map<string, SourceFileCoverage>,
+  filePath: string
+): SourceFileCoverage {
+  let file = files.get(filePath);
+  if (!file) {
+    file = { path: filePath, lines: new Map(), branches: new Map() };
+    files.set(filePath, file);
+  }
+  return file;
+}
+
+/**
+ * Records the hits of a line; a line reported more than once keeps its highest hits
+ */
+function addLineHits(file: SourceFileCoverage, line: number, hits: number): void {
+  file.lines.set(line, Math.max(file.lines.get(line) ?? 0, hits));
+}
+
+/**
+ * Records a branch of a line
+ */
+function addBranch(file: SourceFileCoverage, line: number, covered: boolean): void {
+  const counts = file.branches.get(line) ?? { total: 0, covered: 0 };
+  file.branches.set(line, { total: counts.total + 1, covered: counts.covered + (covered ? 1 : 0) });
+}
+
+/**
+ * Reads an OpenCover report
+ * Sequence points are recorded on their start line, and every branch point is a branch.
+ */
+function readOpenCover(content: string): SourceFileCoverage[] {
+  const files = new Map<string, SourceFileCoverage>();
+  const filesById = new Map<string, SourceFileCoverage>();
+  // Sequence points of older OpenCover versions have no fileid, only their method has a FileRef
+  let methodFileId = '';
+
+  scanXml(
+    content,
+    ({ name, attributes }) => {
+      if (name === 'File' && attributes.uid && attributes.fullPath) {
+        filesById.set(attributes.uid, getSourceFile(files, decodeXmlEntities(attributes.fullPath)));
+      } else if (name === 'FileRef') {
+        methodFileId = attributes.uid ?? '';
+      } else if (name === 'SequencePoint' || name === 'BranchPoint') {
+        const file = filesById.get(attributes.fileid ?? methodFileId);
+        const line = Number(attributes.sl);
+        // Points without a source line belong to generated code
+        if (!file || !(line > 0)) {
+          return;
+        }
+        const hits = Number(attributes.vc) || 0;
+        if (name === 'SequencePoint') {
+          addLineHits(file, line, hits);
+        } else {
+          addBranch(file, line, hits > 0);
+        }
+      }
+    },
+    () => {}
+  );
+
+  return [...files.values()];
+}
+
+/**
+ * Reads an Istanbul coverage-final.json report
+ * Statements are recorded on their start line, and every path of a branch is a branch.
+ */
+function readIstanbul(content: string): SourceFileCoverage[] {
+  const report: unknown = JSON.parse(content);
+  const files = new Map<string, SourceFileCoverage>();
+
+  for (const [key, value] of Object.entries(isRecord(report) ? report : {})) {
+    const fileCoverage = isRecord(value) && isRecord(value.data) ? value.data : value;
+    if (!isRecord(fileCoverage)) {
+      continue;
+    }
+    const file = getSourceFile(
+      files,
+      typeof fileCoverage.path === 'string' ? fileCoverage.path : key
+    );
+    const statementMap = isRecord(fileCoverage.statementMap) ? fileCoverage.statementMap : {};
+    for (const [id, hits] of Object.entries(isRecord(fileCoverage.s) ? fileCoverage.s : {})) {
+      const line = getStartLine(statementMap[id]);
+      if (line !== null && typeof hits === 'number') {
+        addLineHits(file, line, hits);
+      }
+    }
+    const branchMap = isRecord(fileCoverage.branchMap) ? fileCoverage.branchMap : {};
+    for (const [id, counts] of Object.entries(isRecord(fileCoverage.b) ? fileCoverage.b : {})) {
+      const branch = branchMap[id];
+      const line =
+        getStartLine(isRecord(branch) ? branch.loc : undefined) ??
+        (isRecord(branch) && typeof branch.line === 'number' ? branch.line : null);
+      if (line !== null && Array.isArray(counts)) {
+        for (const count of counts) {
+          addBranch(file, line, typeof count === 'number' && count > 0);
+        }
+      }
+    }
+  }
+
+  return [...files.values()];
+}
+
+/**
+ * Returns the start line of an Istanbul location, or null if it has none
+ */
+function getStartLine(location: unknown): number | null {
+  return isRecord(location) && isRecord(location.start) && typeof location.start.line === 'number'
+    ? location.start.line
+    : null;
+}
+
+/**
+ * Reads a Go coverage profile
+ * Every line a block spans is recorded with the count of the block.
+ */
+function readGoCoverprofile(content: string): SourceFileCoverage[] {
+  const files = new Map<string, SourceFileCoverage>();
+
+  for (const line of content.split(/\r?\n/)) {
+    const block = /^(.+):(\d+)\.\d+,(\d+)\.\d+ \d+ (\d+)$/.exec(line.trim());
+    if (!block?.[1] || !block[2] || !block[3] || !block[4]) {
+      continue;
+    }
+    const file = getSourceFile(files, block[1]);
+    for (let sourceLine = Number(block[2]); sourceLine <= Number(block[3]); sourceLine++) {
+      addLineHits(file, sourceLine, Number(block[4]));
+    }
+  }
+
+  return [...files.values()];
+}
+
+/**
+ * Returns the line numbers of a source file in order, with the hits of every line
+ * Lines that only have branches are hit if one of their branches was taken.
+ */
+function getLines(file: SourceFileCoverage): [number, number][] {
+  const numbers = new Set([...file.lines.keys(), ...file.branches.keys()]);
+  return [...numbers]
+    .sort((a, b) => a - b)
+    .map((line) => [
+      line,
+      file.lines.get(line) ?? ((file.branches.get(line)?.covered ?? 0) > 0 ? 1 : 0),
+    ]);
+}
+
+/**
+ * Counts the lines and branches of source files
+ */
+function countCoverage(files: SourceFileCoverage[]): {
+  lines: CoverageCounts;
+  branches: CoverageCounts;
+} {
+  const lines = files.flatMap(getLines);
+  const branches = files.flatMap((file) => [...file.branches.values()]);
+  return {
+    lines: { total: lines.length, covered: lines.filter(([, hits]) => hits > 0).length },
+    branches: {
+      total: branches.reduce((sum, counts) => sum + counts.total, 0),
+      covered: branches.reduce((sum, counts) => sum + counts.covered, 0),
+    },
+  };
+}
+
+/**
+ * Writes source files as a Cobertura report, with one package per folder and one class per file
+ */
+function writeCobertura(files: SourceFileCoverage[]): string {
+  const rate = (counts: CoverageCounts): string =>
+    counts.total > 0 ? (counts.covered / counts.total).toFixed(4) : '1';
+  const rates = (counts: { lines: CoverageCounts; branches: CoverageCounts }): string =>
+    `line-rate="${rate(counts.lines)}" branch-rate="${rate(counts.branches)}" complexity="0"`;
+
+  const packages = new Map<string, SourceFileCoverage[]>();
+  for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+    const name = getFolder(file.path);
+    const packageFiles = packages.get(name);
+    if (packageFiles) {
+      packageFiles.push(file);
+    } else {
+      packages.set(name, [file]);
+    }
+  }
+
+  const total = countCoverage(files);
+  const xml = [
+    '<?xml version="1.0" ?>',
+    '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">',
+    `<coverage ${rates(total)} lines-covered="${total.lines.covered}" lines-valid="${total.lines.total}" branches-covered="${total.branches.covered}" branches-valid="${total.branches.total}" version="1.9" timestamp="${Date.now()}">`,
+    '  <packages>',
+  ];
+  for (const [name, packageFiles] of packages) {
+    xml.push(
+      `    <package name="${escapeXmlAttribute(name)}" ${rates(countCoverage(packageFiles))}>`,
+      '      <classes>'
+    );
+    for (const file of packageFiles) {
+      const fileName = escapeXmlAttribute(file.path);
+      xml.push(
+        `        <class name="${escapeXmlAttribute(path.posix.basename(file.path.replace(/\\/g, '/')))}" filename="${fileName}" ${rates(countCoverage([file]))}>`,
+        '          <methods/>',
+        '          <lines>'
+      );
+      for (const [line, hits] of getLines(file)) {
+        const branches = file.branches.get(line);
+        xml.push(
+          branches
+            ? `            <line number="${line}" hits="${hits}" branch="true" condition-coverage="${Math.round((branches.covered / branches.total) * 100)}% (${branches.covered}/${branches.total})"/>`
+            : `            <line number="${line}" hits="${hits}" branch="false"/>`
+        );
+      }
+      xml.push('          </lines>', '        </class>');
+    }
+    xml.push('      </classes>', '    </package>');
+  }
+  xml.push('  </packages>', '</coverage>', '');
+  return xml.join('\n');
+}
+
+/**
+ * Writes source files as an lcov tracefile
+ */
+function writeLcov(files: SourceFileCoverage[]): string {
+  const output: string[] = [];
+  for (const file of files) {
+    const lines = getLines(file);
+    const hitsByLine = new Map(lines);
+    const { branches } = countCoverage([file]);
+    output.push('TN:', `SF:${file.path}`);
+    for (const [line, counts] of [...file.branches].sort(([a], [b]) => a - b)) {
+      for (let index = 0; index < counts.total; index++) {
+        // A branch on a line that never ran was not evaluated, which lcov writes as '-'
+        const taken = index < counts.covered ? '1' : (hitsByLine.get(line) ?? 0) > 0 ? '0' : '-';
+        output.push(`BRDA:${line},0,${index},${taken}`);
+      }
+    }
+    output.push(`BRF:${branches.total}`, `BRH:${branches.covered}`);
+    for (const [line, hits] of lines) {
+      output.push(`DA:${line},${hits}`);
+    }
+    output.push(
+      `LF:${lines.length}`,
+      `LH:${lines.filter(([, hits]) => hits > 0).length}`,
+      'end_of_record'
+    );
+  }
+  output.push('');
+  return output.join('\n');
+}
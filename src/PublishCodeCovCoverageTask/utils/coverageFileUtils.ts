@@ -0,0 +1,242 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'node:fs';
+import { promises as fsPromises } from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * @module coverageFileUtils
+ *
+ * Finds the coverage reports to upload: the reports named by the coverageFileName input, which
+ * may be glob patterns, and the reports the Codecov CLI uploads when it searches a folder
+ * (--coverage-files-search-root-folder).
+ *
+ * The search patterns below follow the defaults of the Codecov CLI file finder. They are kept in
+ * sync by hand, so the files found here are an estimate of the files the CLI uploads: a report the
+ * CLI finds with a pattern that is missing here is uploaded, but not listed in the upload manifest.
+ * Upload manifests built from such a search are marked as estimated.
+ */
+
+/**
+ * File name patterns of coverage reports found by the Codecov CLI
+ */
+const COVERAGE_FILE_PATTERNS = [
+  '*.clover',
+  '*.codecov.*',
+  '*.gcov',
+  '*.lcov',
+  '*.lst',
+  '*coverage*.*',
+  '*Jacoco*.xml',
+  '*jacoco*.xml',
+  'clover.xml',
+  'cobertura.xml',
+  'codecov.*',
+  'cover.out',
+  'coverage-final.json',
+  'excoveralls.json',
+  'gcov.info',
+  'lcov.dat',
+  'lcov.info',
+  'luacov.report.out',
+  'naxsi.info',
+  'nosetests.xml',
+  'report.xml',
+  'test_cov.xml',
+];
+
+/**
+ * File name patterns the Codecov CLI skips even when they match a coverage pattern, such as
+ * source files and configuration files
+ */
+const EXCLUDED_FILE_PATTERNS = [
+  '*.am',
+  '*.bash',
+  '*.bat',
+  '*.cfg',
+  '*.class',
+  '*.cmake',
+  '*.conf',
+  '*.coverage',
+  '*.cpp',
+  '*.css',
+  '*.csv',
+  '*.db',
+  '*.egg',
+  '*.env',
+  '*.exe',
+  '*.gif',
+  '*.go',
+  '*.gradle',
+  '*.gz',
+  '*.h',
+  '*.html',
+  '*.jar',
+  '*.jpeg',
+  '*.jpg',
+  '*.js',
+  '*.log',
+  '*.map',
+  '*.md',
+  '*.o',
+  '*.pem',
+  '*.png',
+  '*.ps1',
+  '*.py',
+  '*.pyc',
+  '*.rb',
+  '*.sh',
+  '*.sql',
+  '*.svg',
+  '*.ts',
+  '*.whl',
+  '*codecov.yml',
+  '*~',
+  '.coverage*',
+  'codecov.SHA256SUM',
+  'codecov.SHA256SUM.sig',
+  'coverage-summary.json',
+  'phpunit-code-coverage.xml',
+];
+
+/**
+ * Folders the Codecov CLI never searches
+ */
+const EXCLUDED_FOLDER_PATTERNS = [
+  '.git',
+  '.hg',
+  '.nyc_output',
+  '.tox',
+  '.venv',
+  '.venv-*',
+  '__pycache__',
+  'bower_components',
+  'node_modules',
+  'vendor',
+  'virtualenv',
+];
+
+/**
+ * Coverage reports matched by the entries of the coverageFileName input
+ */
+export interface CoverageFileMatches {
+  /** Absolute paths of the matched files, in the order of the entries and without duplicates */
+  files: string[];
+  /** Entries that matched no file, with a message describing each */
+  unmatched: { entry: string; message: string }[];
+}
+
+/**
+ * Resolves the entries of the coverageFileName input to coverage reports
+ *
+ * Every line of the input is a file path or a glob pattern, such as
+ * '**\/coverage/cobertura-coverage.xml', relative to the root folder. Patterns are matched with
+ * tl.findMatch, which supports the same syntax as other Azure Pipelines tasks. Lines starting with
+ * '!' exclude the files matched by an exclusion pattern, and empty lines are ignored.
+ *
+ * @param root Folder relative paths and patterns are resolved against
+ * @param input The value of the coverageFileName input
+ * @returns The matched files and the entries that matched no file
+ */
+export function resolveCoverageFilePatterns(root: string, input: string): CoverageFileMatches {
+  const entries = input
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '');
+  const exclusions = entries.filter((entry) => entry.startsWith('!'));
+  const files = new Set<string>();
+  const unmatched: CoverageFileMatches['unmatched'] = [];
+
+  for (const entry of entries) {
+    if (entry.startsWith('!')) {
+      continue;
+    }
+    // Plain paths are checked directly, so a file name with brackets is not read as a pattern
+    const isPattern = /[*?[\]{}]/.test(entry);
+    const matches = isPattern
+      ? tl
+          .findMatch(root, [entry, ...exclusions])
+          .filter((match) => fs.statSync(match).isFile())
+          .map((match) => path.resolve(match))
+      : [path.resolve(root, entry)].filter((filePath) => fs.existsSync(filePath));
+
+    if (matches.length === 0) {
+      unmatched.push({
+        entry,
+        message: isPattern
+          ? `No coverage files match '${entry}' in ${root}`
+          : `Specified coverage file not found at ${path.resolve(root, entry)}`,
+      });
+    }
+    for (const match of matches) {
+      files.add(match);
+    }
+  }
+
+  return { files: [...files], unmatched };
+}
+
+/**
+ * Finds the coverage reports in a folder and its subfolders, as the Codecov CLI searches them
+ * @param searchRoot The folder to search
+ * @param options Additional options for the search
+ * @param options.excludeFolders Folders to skip, as paths relative to the search root or folder
+ * names, like --coverage-files-search-exclude-folder
+ * @returns The absolute paths of the reports, sorted
+ * @throws Error if the search root cannot be read
+ */
+export async function findCoverageFiles(
+  searchRoot: string,
+  options: { excludeFolders?: string[] } = {}
+): Promise<string[]> {
+  const root = path.resolve(searchRoot);
+  const excludedPaths = new Set(
+    (options.excludeFolders ?? []).map((folder) => path.resolve(root, folder))
+  );
+  const excludedNames = [
+    ...EXCLUDED_FOLDER_PATTERNS,
+    ...(options.excludeFolders ?? []).filter((folder) => !/[\\/]/.test(folder)),
+  ];
+  const files: string[] = [];
+
+  const search = async (folder: string): Promise<void> => {
+    const entries = await fsPromises.readdir(folder, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        if (!excludedPaths.has(entryPath) && !matchesAny(entry.name, excludedNames)) {
+          await search(entryPath);
+        }
+      } else if (
+        entry.isFile() &&
+        matchesAny(entry.name, COVERAGE_FILE_PATTERNS) &&
+        !matchesAny(entry.name, EXCLUDED_FILE_PATTERNS)
+      ) {
+        files.push(entryPath);
+      }
+    }
+  };
+
+  try {
+    await search(root);
+  } catch (error) {
+    throw new Error(
+      `Failed to search for coverage files in ${root}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return files.sort();
+}
+
+/**
+ * Checks whether a file or folder name matches one of the given patterns
+ * Patterns only support '*', which matches any number of characters
+ */
+function matchesAny(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    new RegExp(
+      `^${pattern
+        .split('*')
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`
+    ).test(name)
+  );
+}
@@ -0,0 +1,644 @@
+import { promises as fsPromises } from 'node:fs';
+import { scanXml, type XmlElement } from './xmlUtils';
+
+/**
+ * @module coverageFormatUtils
+ *
+ * Detects the format of a coverage report, checks that it is well-formed and counts the lines
+ * and branches it covers, overall and per package. The check runs before the report is handed to
+ * the Codecov CLI, which otherwise fails in confusing ways or uploads a report Codecov cannot
+ * process.
+ *
+ * Supported formats and how they are recognized:
+ * - Cobertura: XML with a <coverage> root element that has a line-rate attribute
+ * - Clover: XML with a <coverage> root element holding a <project> element
+ * - JaCoCo: XML with a <report> root element
+ * - OpenCover: XML with a <CoverageSession> root element
+ * - lcov: text starting with a TN: or SF: record
+ * - Go coverprofile: text starting with a 'mode:' line
+ * - Istanbul JSON: a JSON object mapping file paths to objects with statementMap and s
+ *
+ * Packages are the packages of Cobertura, Clover and JaCoCo, the modules of OpenCover, and the
+ * folders of the source files in the other formats.
+ *
+ * The XML check is deliberately small: it verifies that tags are balanced and there is a single
+ * root element, which is what catches truncated and mixed-up reports, but it does not validate
+ * against a schema.
+ */
+
+/**
+ * Coverage report formats recognized by parseCoverageReport
+ */
+export type CoverageFormat =
+  | 'cobertura'
+  | 'clover'
+  | 'jacoco'
+  | 'opencover'
+  | 'lcov'
+  | 'go'
+  | 'istanbul';
+
+/**
+ * Display names of the coverage report formats
+ */
+export const COVERAGE_FORMAT_NAMES: Record<CoverageFormat, string> = {
+  cobertura: 'Cobertura',
+  clover: 'Clover',
+  jacoco: 'JaCoCo',
+  opencover: 'OpenCover',
+  lcov: 'lcov',
+  go: 'Go coverprofile',
+  istanbul: 'Istanbul JSON',
+};
+
+/**
+ * Number of lines or branches a report has coverage data for, and how many of them were executed
+ */
+export interface CoverageCounts {
+  total: number;
+  covered: number;
+}
+
+/**
+ * Coverage of one package of a report
+ */
+export interface PackageCoverage {
+  /** Name of the package, module or folder */
+  name: string;
+  lines: CoverageCounts;
+  branches: CoverageCounts;
+}
+
+/**
+ * Format and coverage of a well-formed coverage report
+ */
+export interface CoverageReportSummary {
+  /** The detected format */
+  format: CoverageFormat;
+  lines: CoverageCounts;
+  /** Branches, or zero for formats without branch data such as Go coverprofile */
+  branches: CoverageCounts;
+  /** The packages with coverage data, sorted by name */
+  packages: PackageCoverage[];
+}
+
+/**
+ * A coverage file to upload and its format
+ */
+export interface CoverageFile {
+  path: string;
+  /** The detected format, or null if the file is not a recognized coverage report */
+  format: CoverageFormat | null;
+}
+
+/**
+ * Reads a coverage report, detects its format and checks that it is well-formed
+ * @param filePath Path of the report
+ * @returns The format and coverage of the report
+ * @throws Error naming the file if it cannot be read, its format is not recognized or it is
+ * malformed
+ */
+export async function validateCoverageFile(filePath: string): Promise<CoverageReportSummary> {
+  let content: string;
+  try {
+    content = await fsPromises.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(
+      `Failed to read coverage file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  try {
+    return parseCoverageReport(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid coverage file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Detects the format of a coverage report and checks that it is well-formed
+ * @param content The content of the report
+ * @returns The format and coverage of the report
+ * @throws Error if the format is not recognized or the report is malformed
+ */
+export function parseCoverageReport(content: string): CoverageReportSummary {
+  const text = content.replace(/^\uFEFF/, '');
+  const start = text.trimStart();
+
+  if (start.startsWith('<')) {
+    return parseXmlReport(text);
+  }
+  if (start.startsWith('{')) {
+    return parseIstanbulReport(text);
+  }
+  if (/^mode:/.test(start)) {
+    return parseGoReport(text);
+  }
+  if (/^(?:TN|SF):/.test(start)) {
+    return parseLcovReport(text);
+  }
+  throw new Error(
+    `Unrecognized coverage format. Expected ${Object.values(COVERAGE_FORMAT_NAMES).join(', ')}`
+  );
+}
+
+/**
+ * Coverage data of a package collected while a report is parsed
+ */
+interface PackageData {
+  name: string;
+  /** Whether each line was executed, by file and line number or by a running number */
+  lines: Map<string, boolean>;
+  branches: CoverageCounts;
+  /** Line counts stated by the report, which take precedence over the counted lines */
+  declaredLines: CoverageCounts | undefined;
+  /** Branch counts stated by the report, which take precedence over the counted branches */
+  declaredBranches: CoverageCounts | undefined;
+}
+
+/**
+ * Collects the lines and branches of a report by package
+ */
+class CoverageCollector {
+  private readonly packages: PackageData[] = [];
+  /** The first package added with each name, so lookups do not scan every package */
+  private readonly packagesByName = new Map<string, PackageData>();
+  private declaredLines: CoverageCounts | undefined;
+  private declaredBranches: CoverageCounts | undefined;
+
+  /**
+   * Returns the package with the given name, adding it if it does not exist yet
+   */
+  getPackage(name: string): PackageData {
+    return this.packagesByName.get(name) ?? this.addPackage(name);
+  }
+
+  /**
+   * Adds a package, even if a package with the same name exists
+   * Packages with the same name are merged by toSummary.
+   */
+  addPackage(name: string): PackageData {
+    const data: PackageData = {
+      name,
+      lines: new Map(),
+      branches: { total: 0, covered: 0 },
+      declaredLines: undefined,
+      declaredBranches: undefined,
+    };
+    this.packages.push(data);
+    if (!this.packagesByName.has(name)) {
+      this.packagesByName.set(name, data);
+    }
+    return data;
+  }
+
+  /**
+   * Records a line, which counts as covered if any record of it was executed
+   * @param key Identifies the line across records, or null if every record is a separate line
+   */
+  addLine(data: PackageData, key: string | null, hits: number): void {
+    const lineKey = key ?? `#${data.lines.size}`;
+    data.lines.set(lineKey, data.lines.get(lineKey) === true || hits > 0);
+  }
+
+  /**
+   * Records branches of a package
+   */
+  addBranches(data: PackageData, total: number, covered: number): void {
+    data.branches.total += total;
+    data.branches.covered += covered;
+  }
+
+  /**
+   * Records the totals stated by the report for the whole report
+   */
+  declareTotals(lines: CoverageCounts | undefined, branches: CoverageCounts | undefined): void {
+    this.declaredLines = lines ?? this.declaredLines;
+    this.declaredBranches = branches ?? this.declaredBranches;
+  }
+
+  /**
+   * Returns the coverage of the report
+   * The totals are the ones stated by the report, or else the sums of the packages. Packages
+   * without lines and branches, such as modules OpenCover skipped, are left out.
+   */
+  toSummary(format: CoverageFormat): CoverageReportSummary {
+    const packages = new Map<string, PackageCoverage>();
+    for (const data of this.packages) {
+      const lines = data.declaredLines ?? {
+        total: data.lines.size,
+        covered: [...data.lines.values()].filter(Boolean).length,
+      };
+      const branches = data.declaredBranches ?? data.branches;
+      if (lines.total === 0 && branches.total === 0) {
+        continue;
+      }
+      const existing = packages.get(data.name);
+      packages.set(
+        data.name,
+        existing
+          ? {
+              name: data.name,
+              lines: addCounts(existing.lines, lines),
+              branches: addCounts(existing.branches, branches),
+            }
+          : { name: data.name, lines: { ...lines }, branches: { ...branches } }
+      );
+    }
+
+    const sorted = [...packages.values()].sort((a, b) => a.name.localeCompare(b.name));
+    const sum = (select: (coverage: PackageCoverage) => CoverageCounts): CoverageCounts =>
+      sorted.map(select).reduce(addCounts, { total: 0, covered: 0 });
+    return {
+      format,
+      lines: this.declaredLines ?? sum((coverage) => coverage.lines),
+      branches: this.declaredBranches ?? sum((coverage) => coverage.branches),
+      packages: sorted,
+    };
+  }
+}
+
+/**
+ * Adds two line or branch counts
+ */
+export function addCounts(a: CoverageCounts, b: CoverageCounts): CoverageCounts {
+  return { total: a.total + b.total, covered: a.covered + b.covered };
+}
+
+/**
+ * Parses an XML coverage report
+ */
+function parseXmlReport(content: string): CoverageReportSummary {
+  const collector = new CoverageCollector();
+  let root: XmlElement | undefined;
+  let hasProject = false;
+  // The package and source file the following elements belong to
+  let current = collector.getPackage('');
+  let sourceFile = '';
+
+  scanXml(
+    content,
+    (element) => {
+      const { name, attributes, ancestors } = element;
+      const parent = ancestors[ancestors.length - 1];
+      if (!root) {
+        root = element;
+        if (!['coverage', 'report', 'CoverageSession'].includes(name)) {
+          throw new Error(`Unrecognized XML coverage format with root element <${name}>`);
+        }
+        if (name === 'coverage') {
+          collector.declareTotals(
+            readCounts(attributes, 'lines-valid', 'lines-covered'),
+            readCounts(attributes, 'branches-valid', 'branches-covered')
+          );
+        }
+        return;
+      }
+
+      switch (root.name) {
+        case 'coverage':
+          if (name === 'project' && ancestors.length === 1) {
+            hasProject = true;
+          } else if (name === 'package') {
+            current = collector.getPackage(attributes.name ?? '');
+          } else if (name === 'class' || name === 'file') {
+            sourceFile = attributes.filename ?? attributes.path ?? attributes.name ?? '';
+            // Clover files outside of a <package> belong to the default package
+            if (!ancestors.includes('package')) {
+              current = collector.getPackage('');
+            }
+          } else if (name === 'line' && 'hits' in attributes) {
+            // Cobertura, where <method> elements repeat the lines of their class
+            if (!ancestors.includes('method')) {
+              collector.addLine(
+                current,
+                `${sourceFile}:${attributes.number}`,
+                Number(attributes.hits)
+              );
+              const conditions = /\((\d+)\/(\d+)\)/.exec(attributes['condition-coverage'] ?? '');
+              if (attributes.branch === 'true' && conditions?.[1] && conditions[2]) {
+                collector.addBranches(current, Number(conditions[2]), Number(conditions[1]));
+              }
+            }
+          } else if (name === 'line' && !ancestors.includes('testproject')) {
+            // Clover, where method lines describe the method and not a line of code
+            if (attributes.type === 'cond') {
+              const outcomes = [attributes.truecount, attributes.falsecount];
+              collector.addBranches(
+                current,
+                2,
+                outcomes.filter((outcome) => Number(outcome) > 0).length
+              );
+            }
+            if (attributes.type !== 'method') {
+              collector.addLine(
+                current,
+                `${sourceFile}:${attributes.num}`,
+                Number(attributes.count)
+              );
+            }
+          }
+          break;
+        case 'report':
+          if (name === 'package') {
+            current = collector.getPackage(attributes.name ?? '');
+          } else if (name === 'sourcefile') {
+            sourceFile = attributes.name ?? '';
+          } else if (name === 'counter' && (parent === 'report' || parent === 'package')) {
+            // The counters directly below <report> and <package> hold their totals
+            const counts = {
+              total:
+                parseCount(attributes.missed, 'missed') + parseCount(attributes.covered, 'covered'),
+              covered: parseCount(attributes.covered, 'covered'),
+            };
+            if (attributes.type === 'LINE') {
+              if (parent === 'report') {
+                collector.declareTotals(counts, undefined);
+              } else {
+                current.declaredLines = counts;
+              }
+            } else if (attributes.type === 'BRANCH') {
+              if (parent === 'report') {
+                collector.declareTotals(undefined, counts);
+              } else {
+                current.declaredBranches = counts;
+              }
+            }
+          } else if (name === 'line' && 'nr' in attributes) {
+            collector.addLine(current, `${sourceFile}:${attributes.nr}`, Number(attributes.ci));
+            collector.addBranches(
+              current,
+              Number(attributes.mb ?? 0) + Number(attributes.cb ?? 0),
+              Number(attributes.cb ?? 0)
+            );
+          }
+          break;
+        default:
+          // OpenCover counts sequence points, the statements the .NET debugger can stop on
+          if (name === 'Module') {
+            current = collector.addPackage('');
+          } else if (name === 'Summary' && (parent === 'CoverageSession' || parent === 'Module')) {
+            const lines = readCounts(attributes, 'numSequencePoints', 'visitedSequencePoints');
+            const branches = readCounts(attributes, 'numBranchPoints', 'visitedBranchPoints');
+            if (parent === 'CoverageSession') {
+              collector.declareTotals(lines, branches);
+            } else {
+              current.declaredLines = lines;
+              current.declaredBranches = branches;
+            }
+          } else if (name === 'SequencePoint') {
+            collector.addLine(current, null, Number(attributes.vc));
+          } else if (name === 'BranchPoint') {
+            collector.addBranches(current, 1, Number(attributes.vc) > 0 ? 1 : 0);
+          }
+      }
+    },
+    (text, ancestors) => {
+      // The name of an OpenCover module follows its summary
+      if (root?.name === 'CoverageSession' && ancestors[ancestors.length - 1] === 'ModuleName') {
+        current.name = text.trim();
+      }
+    }
+  );
+
+  if (!root) {
+    throw new Error('The XML document has no root element');
+  }
+
+  let format: CoverageFormat;
+  if (root.name === 'report') {
+    format = 'jacoco';
+  } else if (root.name === 'CoverageSession') {
+    format = 'opencover';
+  } else if (hasProject) {
+    format = 'clover';
+  } else if ('line-rate' in root.attributes) {
+    format = 'cobertura';
+  } else {
+    throw new Error(
+      'Unrecognized XML coverage format: the <coverage> root element has neither a line-rate attribute (Cobertura) nor a <project> element (Clover)'
+    );
+  }
+
+  return collector.toSummary(format);
+}
+
+/**
+ * Reads a pair of total and covered count attributes
+ * @returns The counts, or undefined if the element has neither attribute
+ * @throws Error if only one of them is present or a value is not a non-negative integer
+ */
+function readCounts(
+  attributes: Record<string, string>,
+  totalName: string,
+  coveredName: string
+): CoverageCounts | undefined {
+  if (!(totalName in attributes) && !(coveredName in attributes)) {
+    return undefined;
+  }
+  return {
+    total: parseCount(attributes[totalName], totalName),
+    covered: parseCount(attributes[coveredName], coveredName),
+  };
+}
+
+/**
+ * Parses a non-negative integer attribute of a coverage report
+ * @throws Error if the value is missing or not a non-negative integer
+ */
+function parseCount(value: string | undefined, name: string): number {
+  if (value === undefined || !/^\d+$/.test(value.trim())) {
+    throw new Error(`Invalid ${name} value '${value ?? ''}'. Expected a non-negative integer`);
+  }
+  return Number(value);
+}
+
+/**
+ * Returns the folder of a source file path, with forward slashes
+ */
+export function getFolder(filePath: string): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  const separator = normalized.lastIndexOf('/');
+  return separator === -1 ? '' : normalized.slice(0, separator);
+}
+
+/**
+ * Parses an lcov tracefile
+ * Every record starts with SF: and ends with end_of_record. Lines are counted from DA: and
+ * branches from BRDA:, since LF:, LH:, BRF: and BRH: are summaries that some tools leave out.
+ * Other records, including records added by newer lcov versions, are skipped like lcov does.
+ */
+function parseLcovReport(content: string): CoverageReportSummary {
+  const collector = new CoverageCollector();
+  let sourceFile: string | null = null;
+
+  for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (line === '') {
+      continue;
+    }
+    if (line === 'end_of_record') {
+      if (sourceFile === null) {
+        throw new Error(`Malformed lcov on line ${lineNumber}: end_of_record without SF:`);
+      }
+      sourceFile = null;
+      continue;
+    }
+
+    const match = /^([A-Z]+):(.*)$/.exec(line);
+    if (!match?.[1]) {
+      throw new Error(`Malformed lcov on line ${lineNumber}: '${line}'`);
+    }
+    const [, tag, value = ''] = match;
+    if (tag === 'SF') {
+      if (sourceFile !== null) {
+        throw new Error(
+          `Malformed lcov on line ${lineNumber}: SF: before the end_of_record of ${sourceFile}`
+        );
+      }
+      sourceFile = value;
+      continue;
+    }
+    if (tag !== 'DA' && tag !== 'BRDA') {
+      continue;
+    }
+    if (sourceFile === null) {
+      throw new Error(`Malformed lcov on line ${lineNumber}: ${tag}: outside of an SF: record`);
+    }
+    const sourcePackage = collector.getPackage(getFolder(sourceFile));
+    if (tag === 'DA') {
+      const data = /^(\d+),(-?\d+)(?:,\S+)?$/.exec(value);
+      if (!data?.[1] || !data[2]) {
+        throw new Error(`Malformed lcov on line ${lineNumber}: invalid DA: '${value}'`);
+      }
+      collector.addLine(sourcePackage, `${sourceFile}:${data[1]}`, Number(data[2]));
+    } else if (tag === 'BRDA') {
+      // BRDA:<line>,<block>,<branch>,<taken>, where taken is '-' if the block never ran
+      const taken = value.slice(value.lastIndexOf(',') + 1);
+      if (!/^\d+,.+,/.test(value) || !/^(?:-|\d+)$/.test(taken)) {
+        throw new Error(`Malformed lcov on line ${lineNumber}: invalid BRDA: '${value}'`);
+      }
+      collector.addBranches(sourcePackage, 1, taken !== '-' && Number(taken) > 0 ? 1 : 0);
+    }
+  }
+
+  if (sourceFile !== null) {
+    throw new Error(`Malformed lcov: the record of ${sourceFile} has no end_of_record`);
+  }
+  return collector.toSummary('lcov');
+}
+
+/**
+ * Parses a Go coverage profile as written by go test -coverprofile
+ * A line counts as covered when a block with a count above zero spans it. Go coverage profiles
+ * have no branch data.
+ */
+function parseGoReport(content: string): CoverageReportSummary {
+  const collector = new CoverageCollector();
+  let hasMode = false;
+
+  for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+    if (line === '') {
+      continue;
+    }
+    if (!hasMode) {
+      if (!/^mode: (?:set|count|atomic)$/.test(line)) {
+        throw new Error(
+          `Malformed Go coverprofile on line ${lineNumber}: expected 'mode: set', 'mode: count' or 'mode: atomic'`
+        );
+      }
+      hasMode = true;
+      continue;
+    }
+
+    const block = /^(.+):(\d+)\.\d+,(\d+)\.\d+ \d+ (\d+)$/.exec(line);
+    if (!block?.[1] || !block[2] || !block[3] || !block[4]) {
+      throw new Error(`Malformed Go coverprofile on line ${lineNumber}: '${line}'`);
+    }
+    const start = Number(block[2]);
+    const end = Number(block[3]);
+    if (end < start) {
+      throw new Error(
+        `Malformed Go coverprofile on line ${lineNumber}: the block ends before it starts`
+      );
+    }
+    const sourcePackage = collector.getPackage(getFolder(block[1]));
+    for (let sourceLine = start; sourceLine <= end; sourceLine++) {
+      collector.addLine(sourcePackage, `${block[1]}:${sourceLine}`, Number(block[4]));
+    }
+  }
+
+  return collector.toSummary('go');
+}
+
+/**
+ * Parses an Istanbul coverage-final.json report
+ * A line counts as covered when a statement starting on it was executed.
+ */
+function parseIstanbulReport(content: string): CoverageReportSummary {
+  let report: unknown;
+  try {
+    report = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Malformed JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isRecord(report)) {
+    throw new Error('Unrecognized JSON coverage format. Expected an object');
+  }
+
+  const collector = new CoverageCollector();
+  for (const [filePath, value] of Object.entries(report)) {
+    // Older versions of nyc wrap the coverage of a file in a data property
+    const fileCoverage = isRecord(value) && isRecord(value.data) ? value.data : value;
+    if (
+      !isRecord(fileCoverage) ||
+      !isRecord(fileCoverage.statementMap) ||
+      !isRecord(fileCoverage.s)
+    ) {
+      throw new Error(
+        `Unrecognized JSON coverage format: the entry for '${filePath}' has no statementMap and s`
+      );
+    }
+    const sourcePackage = collector.getPackage(getFolder(filePath));
+    for (const [statementId, hits] of Object.entries(fileCoverage.s)) {
+      const statement = fileCoverage.statementMap[statementId];
+      const startLine =
+        isRecord(statement) && isRecord(statement.start) ? statement.start.line : undefined;
+      if (typeof startLine !== 'number' || typeof hits !== 'number') {
+        throw new Error(
+          `Malformed Istanbul JSON: statement ${statementId} of '${filePath}' has no location or count`
+        );
+      }
+      collector.addLine(sourcePackage, `${filePath}:${startLine}`, hits);
+    }
+    // b maps every branch to the counts of its paths
+    for (const [branchId, counts] of Object.entries(
+      isRecord(fileCoverage.b) ? fileCoverage.b : {}
+    )) {
+      if (!Array.isArray(counts) || !counts.every((count) => typeof count === 'number')) {
+        throw new Error(
+          `Malformed Istanbul JSON: branch ${branchId} of '${filePath}' has no counts`
+        );
+      }
+      collector.addBranches(
+        sourcePackage,
+        counts.length,
+        counts.filter((count: number) => count > 0).length
+      );
+    }
+  }
+
+  return collector.toSummary('istanbul');
+}
+
+/**
+ * Checks whether a parsed JSON value is an object
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,245 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { promises as fsPromises } from 'node:fs';
+import * as path from 'node:path';
+import {
+  addCounts,
+  validateCoverageFile,
+  type CoverageCounts,
+  type CoverageFormat,
+  type CoverageReportSummary,
+  type PackageCoverage,
+} from './coverageFormatUtils';
+import { CODECOV_API_URL, getCodecovUploadUrl } from './cliUtils';
+import logger from './logger';
+import { escapeMarkdownTableCell } from './uploadManifestUtils';
+
+/**
+ * @module coverageSummaryUtils
+ *
+ * Computes the line and branch coverage of the uploaded reports, overall and per package, and
+ * shows it on the build summary page, so the numbers can be seen without leaving Azure DevOps. The
+ * totals can be checked against minimum percentages, so a pipeline can fail on low coverage without
+ * waiting for the Codecov status checks.
+ */
+
+/**
+ * File name of the Markdown summary added to the build summary page
+ */
+export const COVERAGE_SUMMARY_FILE_NAME = 'codecov-coverage-summary.md';
+
+/**
+ * Coverage of all reports that could be parsed
+ */
+export interface CoverageSummary {
+  /** The parsed reports and their formats */
+  files: { path: string; format: CoverageFormat }[];
+  lines: CoverageCounts;
+  branches: CoverageCounts;
+  /** Packages of all reports, merged by name and sorted by name */
+  packages: PackageCoverage[];
+}
+
+/**
+ * Parses coverage reports and adds up their coverage
+ * Reports that cannot be parsed, for example because Codecov supports their format but this task
+ * does not, are left out of the summary and named in the log.
+ * @param filePaths Paths of the reports
+ * @returns The coverage of the reports
+ */
+export async function summarizeCoverageFiles(filePaths: string[]): Promise<CoverageSummary> {
+  const summary: CoverageSummary = {
+    files: [],
+    lines: { total: 0, covered: 0 },
+    branches: { total: 0, covered: 0 },
+    packages: [],
+  };
+  const packages = new Map<string, PackageCoverage>();
+
+  for (const filePath of filePaths) {
+    let report: CoverageReportSummary;
+    try {
+      report = await validateCoverageFile(filePath);
+    } catch (error) {
+      logger.info(
+        `Coverage file ${filePath} is left out of the coverage summary: ${error instanceof Error ? error.message : String(error)}`
+      );
+      continue;
+    }
+
+    summary.files.push({ path: filePath, format: report.format });
+    summary.lines = addCounts(summary.lines, report.lines);
+    summary.branches = addCounts(summary.branches, report.branches);
+    for (const reportPackage of report.packages) {
+      const existing = packages.get(reportPackage.name);
+      packages.set(
+        reportPackage.name,
+        existing
+          ? {
+              name: reportPackage.name,
+              lines: addCounts(existing.lines, reportPackage.lines),
+              branches: addCounts(existing.branches, reportPackage.branches),
+            }
+          : reportPackage
+      );
+    }
+  }
+
+  summary.packages = [...packages.values()].sort((a, b) => a.name.localeCompare(b.name));
+  return summary;
+}
+
+/**
+ * Calculates the percentage of covered lines or branches
+ * @returns The percentage, or null if there is nothing to cover
+ */
+export function getCoveragePercentage(counts: CoverageCounts): number | null {
+  return counts.total > 0 ? (counts.covered / counts.total) * 100 : null;
+}
+
+/**
+ * Formats line or branch counts as a percentage with two decimals
+ * @returns The percentage, such as '81.25%', or 'n/a' if there is nothing to cover
+ */
+export function formatCoveragePercentage(counts: CoverageCounts): string {
+  const percentage = getCoveragePercentage(counts);
+  return percentage !== null ? `${percentage.toFixed(2)}%` : 'n/a';
+}
+
+/**
+ * Minimum line and branch coverage, in percent, or null if there is no minimum
+ */
+export interface CoverageThresholds {
+  lines: number | null;
+  branches: number | null;
+}
+
+/**
+ * Parses a minimum coverage input
+ * @param value The input value, a percentage such as '80' or '72.5', or an empty string
+ * @param inputName Name of the input, used in the error message
+ * @returns The percentage, or null if the value is empty
+ * @throws Error if the value is not a number between 0 and 100
+ */
+export function parseCoverageThreshold(value: string, inputName: string): number | null {
+  const trimmed = value.trim().replace(/%$/, '');
+  if (trimmed === '') {
+    return null;
+  }
+  const threshold = Number(trimmed);
+  if (!/^\d+(?:\.\d+)?$/.test(trimmed) || threshold > 100) {
+    throw new Error(
+      `Invalid ${inputName} value '${value}'. Expected a percentage between 0 and 100`
+    );
+  }
+  return threshold;
+}
+
+/**
+ * Checks the total coverage against the minimum percentages
+ * A minimum for which the reports have no data, such as a minimum branch coverage for Go
+ * coverprofiles, is not met.
+ * @param summary The coverage of the uploaded reports
+ * @param thresholds The minimum percentages
+ * @returns A message for every minimum that is not met
+ */
+export function checkCoverageThresholds(
+  summary: CoverageSummary,
+  thresholds: CoverageThresholds
+): string[] {
+  const failures: string[] = [];
+  const check = (kind: 'Line' | 'Branch', counts: CoverageCounts, minimum: number | null): void => {
+    if (minimum === null) {
+      return;
+    }
+    const percentage = getCoveragePercentage(counts);
+    if (percentage === null) {
+      failures.push(
+        `${kind} coverage cannot be checked against the minimum of ${minimum}%: the coverage reports have no ${kind.toLowerCase()} data`
+      );
+    } else if (percentage < minimum) {
+      failures.push(
+        `${kind} coverage ${formatCoveragePercentage(counts)} is below the minimum of ${minimum}%`
+      );
+    }
+  };
+  check('Line', summary.lines, thresholds.lines);
+  check('Branch', summary.branches, thresholds.branches);
+  return failures;
+}
+
+/**
+ * Writes the Markdown summary of the coverage and adds it to the build summary page
+ * @param summary The coverage of the uploaded reports
+ * @param directory Folder the summary is written to
+ * @param dryRun True if the CLI ran with --dry-run, so there is no commit on Codecov to link to
+ * @returns The path of the summary
+ */
+export async function publishCoverageSummary(
+  summary: CoverageSummary,
+  directory: string,
+  dryRun: boolean
+): Promise<string> {
+  const summaryPath = path.join(directory, COVERAGE_SUMMARY_FILE_NAME);
+  await fsPromises.writeFile(
+    summaryPath,
+    formatCoverageSummary(summary, dryRun ? null : getCodecovCommitUrl()),
+    'utf8'
+  );
+  tl.uploadSummary(summaryPath);
+  return summaryPath;
+}
+
+/**
+ * Formats the Markdown summary of the coverage for the build summary page
+ * @param summary The coverage of the uploaded reports
+ * @param commitUrl URL of the commit on Codecov, or null if it is not known
+ * @returns The Markdown summary
+ */
+export function formatCoverageSummary(summary: CoverageSummary, commitUrl: string | null): string {
+  const cell = (counts: CoverageCounts): string =>
+    counts.total > 0
+      ? `${formatCoveragePercentage(counts)} (${counts.covered} of ${counts.total})`
+      : 'n/a';
+  const lines = [
+    '### Code coverage',
+    '',
+    `Computed from ${summary.files.length} coverage report(s).${commitUrl ? ` [View the commit on Codecov](${commitUrl}).` : ''}`,
+    '',
+    '| Package | Line coverage | Branch coverage |',
+    '| --- | ---: | ---: |',
+    `| **Total** | **${cell(summary.lines)}** | **${cell(summary.branches)}** |`,
+  ];
+  for (const coverage of summary.packages) {
+    lines.push(
+      `| ${coverage.name ? escapeMarkdownTableCell(coverage.name) : '(default)'} | ${cell(coverage.lines)} | ${cell(coverage.branches)} |`
+    );
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Builds the URL of the built commit on Codecov from the predefined variables
+ * Only repositories on GitHub and Bitbucket have a Codecov commit page; for other providers, such
+ * as Azure Repos, there is nothing to link to. Pull request builds link to the head commit of the
+ * pull request, which is the commit the Codecov CLI reports for them. Uploads to a self-hosted
+ * Codecov server (CODECOV_ENTERPRISE_URL) are not linked, because the address of its web
+ * application is not known.
+ * @returns The URL, or null if the commit is not on app.codecov.io or outside of a build
+ */
+function getCodecovCommitUrl(): string | null {
+  if (new URL(getCodecovUploadUrl()).origin !== CODECOV_API_URL) {
+    return null;
+  }
+  const services: Record<string, string> = { GitHub: 'gh', Bitbucket: 'bb' };
+  const service = services[tl.getVariable('Build.Repository.Provider') ?? ''];
+  const repository = tl.getVariable('Build.Repository.Name');
+  const commit =
+    (tl.getVariable('System.PullRequest.SourceCommitId') ?? '') ||
+    tl.getVariable('Build.SourceVersion');
+  if (!service || !repository?.includes('/') || !commit) {
+    return null;
+  }
+  const slug = repository.split('/').map(encodeURIComponent).join('/');
+  return `https://app.codecov.io/${service}/${slug}/commit/${encodeURIComponent(commit)}`;
+}
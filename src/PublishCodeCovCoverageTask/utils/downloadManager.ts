@@ -0,0 +1,164 @@
+import { downloadFile, type DownloadProgress } from './webUtils';
+import logger from './logger';
+
+/**
+ * A download run by downloadAll
+ */
+export interface DownloadJob {
+  /** Name of the download, used in error messages */
+  name: string;
+  /**
+   * Starts the download. The signal is aborted when another download fails or the caller
+   * cancels, and onProgress is only given when progress is tracked
+   */
+  download: (options: {
+    signal: AbortSignal;
+    onProgress?: (progress: DownloadProgress) => void;
+  }) => Promise<unknown>;
+}
+
+/**
+ * Aggregated progress of all downloads started by downloadAll
+ */
+export interface DownloadAllProgress extends DownloadProgress {
+  /** Number of downloads that completed successfully */
+  completedFiles: number;
+  /** Number of downloads in the set */
+  totalFiles: number;
+}
+
+/**
+ * Creates a job that downloads a single file with downloadFile
+ * @param url The URL to download from
+ * @param dest The local file path to save the downloaded file
+ * @param options Additional options passed to downloadFile. The signal and onProgress options
+ * are provided by downloadAll
+ * @returns The download job, named after the destination file
+ */
+export function fileDownload(
+  url: string,
+  dest: string,
+  options: Omit<NonNullable<Parameters<typeof downloadFile>[2]>, 'signal' | 'onProgress'> = {}
+): DownloadJob {
+  return {
+    name: dest,
+    download: ({ signal, onProgress }) =>
+      downloadFile(url, dest, { ...options, signal, ...(onProgress ? { onProgress } : {}) }),
+  };
+}
+
+/**
+ * Runs a set of downloads concurrently
+ *
+ * At most options.concurrency downloads run at the same time. When a download fails, the
+ * downloads still running are cancelled through their signal, downloads that have not started
+ * yet are skipped, and a single error lists every download that failed.
+ *
+ * @param jobs The downloads to run, see fileDownload
+ * @param options Additional options for the downloads
+ * @param options.concurrency Maximum number of downloads running at the same time (default: 4)
+ * @param options.signal AbortSignal to cancel all downloads
+ * @param options.onProgress Optional callback for the combined progress of all downloads. The
+ * total size is only known once every download has reported its size
+ * @returns A promise that resolves when every download completed
+ * @throws Error listing the downloads that failed and the downloads that were cancelled
+ */
+export async function downloadAll(
+  jobs: DownloadJob[],
+  options: {
+    concurrency?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: DownloadAllProgress) => void;
+  } = {}
+): Promise<void> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 4));
+  const controller = new AbortController();
+  const abort = (): void => controller.abort();
+  if (options.signal?.aborted) {
+    abort();
+  }
+  options.signal?.addEventListener('abort', abort, { once: true });
+
+  const progress = jobs.map((): DownloadProgress | null => null);
+  let completedFiles = 0;
+  const reportProgress = (): void => {
+    if (!options.onProgress) {
+      return;
+    }
+    const bytesReceived = progress.reduce((sum, item) => sum + (item?.bytesReceived ?? 0), 0);
+    const sizes = progress.map((item) => item?.totalBytes ?? null);
+    const totalBytes = sizes.every((size) => size !== null)
+      ? sizes.reduce((sum: number, size) => sum + (size ?? 0), 0)
+      : null;
+    options.onProgress({
+      bytesReceived,
+      totalBytes,
+      percent:
+        totalBytes !== null && totalBytes > 0
+          ? Math.min(100, Math.round((bytesReceived / totalBytes) * 100))
+          : null,
+      completedFiles,
+      totalFiles: jobs.length,
+    });
+  };
+
+  const failures: string[] = [];
+  const cancelled = new Set<number>();
+  let nextJob = 0;
+
+  const runJobs = async (): Promise<void> => {
+    while (nextJob < jobs.length) {
+      const index = nextJob++;
+      const job = jobs[index];
+      if (!job) {
+        continue;
+      }
+      if (controller.signal.aborted) {
+        cancelled.add(index);
+        continue;
+      }
+
+      try {
+        await job.download({
+          signal: controller.signal,
+          ...(options.onProgress
+            ? {
+                onProgress: (jobProgress: DownloadProgress): void => {
+                  progress[index] = jobProgress;
+                  reportProgress();
+                },
+              }
+            : {}),
+        });
+        completedFiles++;
+        reportProgress();
+      } catch (error) {
+        // A download that fails after the others were cancelled was cancelled itself
+        if (controller.signal.aborted) {
+          cancelled.add(index);
+          continue;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Failed to download ${job.name}: ${message}. Cancelling the other downloads`);
+        failures.push(`${job.name}: ${message}`);
+        abort();
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, runJobs));
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+  }
+
+  const cancelledNames = jobs.filter((_, index) => cancelled.has(index)).map((job) => job.name);
+  if (failures.length > 0) {
+    throw new Error(
+      `Failed to download ${failures.length} of ${jobs.length} files:\n${failures.join('\n')}${cancelledNames.length > 0 ? `\nCancelled: ${cancelledNames.join(', ')}` : ''}`
+    );
+  }
+  if (cancelledNames.length > 0) {
+    throw new Error(`Downloads aborted by user: ${cancelledNames.join(', ')}`);
+  }
+}
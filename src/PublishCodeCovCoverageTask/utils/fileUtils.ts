@@ -2,96 +2,426 @@ import * as fs from 'node:fs';
 import { promises as fsPromises } from 'node:fs';
 import * as path from 'node:path';
 import * as crypto from 'node:crypto';
+import {
+  findChecksumEntry,
+  HEX_DIGEST_LENGTHS,
+  parseChecksumManifest,
+  type ChecksumManifest,
+  type ChecksumManifestEntry,
+} from './checksumManifestUtils';
+import logger from './logger';
 
 /**
- * Verifies a file's SHA-256 checksum against an expected value from a checksum file
- * Cross-platform alternative to shasum -a 256 -c <checksum_file>
+ * Verifies a file's checksum against an expected value from a checksum file
+ * Cross-platform alternative to shasum -a <algorithm> -c <checksum_file>
  * Uses streaming approach to handle large files efficiently
  *
- * The function supports configurable logging through the optional logger parameter,
+ * The checksum file may use the GNU coreutils or the BSD format, see checksumManifestUtils. When
+ * the algorithm is not given, it is taken from the tag of a BSD-style line, or detected from the
+ * name of the checksum file (e.g. 'SHA512SUMS') or the length of the digest, see
+ * detectHashAlgorithm. SHA-1 is still accepted but a deprecation warning is logged.
+ *
+ * The function supports configurable logging through the optional log parameter,
  * allowing it to be used in different contexts:
  * - Without logging: await verifyFileChecksum(filePath, checksumFilePath);
  * - With console logging: await verifyFileChecksum(filePath, checksumFilePath, console.log);
  * - With custom logging: await verifyFileChecksum(filePath, checksumFilePath, (msg) => myLogger.info(msg));
  *
  * @param filePath Path to the file to verify
- * @param checksumFilePath Path to the file containing checksums in format: "<hash> <filename>"
- * @param logger Optional function for logging messages (defaults to no logging if not provided)
+ * @param checksumFilePath Path to the checksum file, e.g. a SHA256SUMS file
+ * @param log Optional function for logging messages (defaults to no logging if not provided)
+ * @param algorithm Optional hash algorithm of the checksum file, detected when not given
  * @returns Promise that resolves when verification completes, rejects on error
  * @throws Error if verification fails, file not found, or other I/O errors occur
  */
 export async function verifyFileChecksum(
   filePath: string,
   checksumFilePath: string,
-  logger: (message: string) => void = () => {}
+  log: (message: string) => void = () => {},
+  algorithm?: HashAlgorithm
 ): Promise<void> {
-  logger(`Verifying SHA-256 checksum for ${filePath} using Node.js crypto module`);
+  const manifest = parseChecksumManifest(
+    await readChecksumFile(checksumFilePath),
+    checksumFilePath
+  );
+  const entry = getChecksumEntry(manifest, path.basename(filePath), algorithm);
+  const expectedHash = entry.digest;
+  const hashAlgorithm = algorithm ?? resolveEntryAlgorithm(entry, checksumFilePath);
+  const algorithmName = formatHashAlgorithm(hashAlgorithm);
+  log(`Verifying ${algorithmName} checksum for ${filePath} using Node.js crypto module`);
+  warnIfDeprecatedAlgorithm(hashAlgorithm, checksumFilePath);
+
+  // Calculate actual hash using a streaming approach
+  try {
+    const actualHash = await calculateFileHashStreaming(filePath, hashAlgorithm);
+
+    // Compare hashes
+    if (actualHash !== expectedHash) {
+      throw new Error(
+        `${algorithmName} checksum verification failed for ${filePath}:\nExpected: ${expectedHash}\nActual: ${actualHash}`
+      );
+    }
+
+    log(`${algorithmName} checksum verified for ${filePath}`);
+  } catch (error) {
+    throw new Error(
+      `Failed to verify checksum for ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Outcome of verifying one file against a checksum manifest
+ * - verified: the file has the checksum listed in the manifest
+ * - mismatch: the file does not have the checksum listed in the manifest
+ * - missing: the manifest has no checksum for the file
+ * - error: the file could not be read or the checksum could not be used
+ */
+export type ChecksumVerificationStatus = 'verified' | 'mismatch' | 'missing' | 'error';
+
+/**
+ * Result of verifying one file against a checksum manifest
+ */
+export interface FileChecksumResult {
+  /** Path of the verified file */
+  filePath: string;
+  /** Outcome of the verification */
+  status: ChecksumVerificationStatus;
+  /** Algorithm of the checksum, when the manifest has a checksum for the file */
+  algorithm?: HashAlgorithm;
+  /** Checksum listed in the manifest, as lowercase hex */
+  expected?: string;
+  /** Checksum of the file, as lowercase hex */
+  actual?: string;
+  /** Description of the outcome, for logs and error messages */
+  message: string;
+}
+
+/**
+ * Result of verifying several files against a checksum manifest
+ */
+export interface ChecksumVerificationReport {
+  /** Path of the checksum manifest */
+  checksumFilePath: string;
+  /** True if every file was verified */
+  verified: boolean;
+  /** One result per file, in the order the files were given */
+  results: FileChecksumResult[];
+}
+
+/**
+ * Verifies several files against a single checksum manifest, such as a SHA256SUMS file
+ * The manifest is read once and every file is checked, so one report lists all files that
+ * failed instead of stopping at the first mismatch. Files are looked up by their base name, see
+ * findChecksumEntry.
+ *
+ * @param filePaths Paths of the files to verify
+ * @param checksumFilePath Path to the checksum manifest
+ * @param options Additional options for the verification
+ * @param options.algorithm Hash algorithm of the manifest, detected per entry when not given
+ * @param options.logger Optional function for logging messages
+ * @returns Promise that resolves with the result of every file
+ * @throws Error only if the manifest cannot be read or lists conflicting checksums
+ */
+export async function verifyChecksumManifest(
+  filePaths: string[],
+  checksumFilePath: string,
+  options: { algorithm?: HashAlgorithm; logger?: (message: string) => void } = {}
+): Promise<ChecksumVerificationReport> {
+  const log = options.logger ?? ((): void => {});
+  const manifest = parseChecksumManifest(
+    await readChecksumFile(checksumFilePath),
+    checksumFilePath
+  );
+  const warnedAlgorithms = new Set<HashAlgorithm>();
+
+  const results = await Promise.all(
+    filePaths.map(async (filePath): Promise<FileChecksumResult> => {
+      const fileName = path.basename(filePath);
+      let entry: ChecksumManifestEntry | null;
+      try {
+        entry = findChecksumEntry(manifest, fileName, options.algorithm);
+      } catch (error) {
+        return {
+          filePath,
+          status: 'error',
+          message: `Failed to verify checksum for ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+      if (!entry) {
+        return {
+          filePath,
+          status: 'missing',
+          message: `Checksum not found for ${fileName} in ${checksumFilePath}`,
+        };
+      }
+
+      const expected = entry.digest;
+      let algorithm: HashAlgorithm;
+      let actual: string;
+      try {
+        algorithm = options.algorithm ?? resolveEntryAlgorithm(entry, checksumFilePath);
+        if (!warnedAlgorithms.has(algorithm)) {
+          warnedAlgorithms.add(algorithm);
+          warnIfDeprecatedAlgorithm(algorithm, checksumFilePath);
+        }
+        actual = await calculateFileHashStreaming(filePath, algorithm);
+      } catch (error) {
+        return {
+          filePath,
+          status: 'error',
+          expected,
+          message: `Failed to verify checksum for ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+
+      const algorithmName = formatHashAlgorithm(algorithm);
+      if (actual !== expected) {
+        return {
+          filePath,
+          status: 'mismatch',
+          algorithm,
+          expected,
+          actual,
+          message: `${algorithmName} checksum verification failed for ${filePath}:\nExpected: ${expected}\nActual: ${actual}`,
+        };
+      }
+      return {
+        filePath,
+        status: 'verified',
+        algorithm,
+        expected,
+        actual,
+        message: `${algorithmName} checksum verified for ${filePath}`,
+      };
+    })
+  );
+
+  for (const result of results) {
+    log(result.message);
+  }
+  return {
+    checksumFilePath,
+    verified: results.every((result) => result.status === 'verified'),
+    results,
+  };
+}
+
+/**
+ * Reads the expected hash of a file from a checksum file
+ * Used to verify a download while it is streamed, before the file is complete on disk
+ *
+ * @param checksumFilePath Path to the checksum file, e.g. a SHA256SUMS file
+ * @param fileName The name of the file to look up, without directory
+ * @returns Promise that resolves with the lowercase expected hash
+ * @throws Error if the checksum file cannot be read, lists conflicting or ambiguous checksums, or
+ * has no entry for the file
+ */
+export async function readExpectedChecksum(
+  checksumFilePath: string,
+  fileName: string
+): Promise<string> {
+  const manifest = parseChecksumManifest(
+    await readChecksumFile(checksumFilePath),
+    checksumFilePath
+  );
+  return getChecksumEntry(manifest, fileName).digest;
+}
+
+/**
+ * Looks up the checksum of a file in a manifest
+ * @throws Error if the manifest has no entry for the file or several entries match it
+ */
+function getChecksumEntry(
+  manifest: ChecksumManifest,
+  fileName: string,
+  algorithm?: HashAlgorithm
+): ChecksumManifestEntry {
+  const entry = findChecksumEntry(manifest, fileName, algorithm);
+  if (!entry) {
+    throw new Error(`Checksum not found for ${fileName} in ${manifest.source}`);
+  }
+  return entry;
+}
+
+/**
+ * Determines the algorithm of a manifest entry: the tag of a BSD-style line, otherwise the
+ * algorithm detected from the checksum file name or the digest length, and SHA-256 as a fallback
+ */
+function resolveEntryAlgorithm(
+  entry: ChecksumManifestEntry,
+  checksumFilePath: string
+): HashAlgorithm {
+  return entry.algorithm ?? detectHashAlgorithm(entry.digest, checksumFilePath) ?? 'sha256';
+}
 
-  let checksumFileContent: string;
+/**
+ * Reads the content of a checksum file
+ * @throws Error naming the checksum file if it cannot be read
+ */
+async function readChecksumFile(checksumFilePath: string): Promise<string> {
   try {
     // Read the checksum file content asynchronously
-    checksumFileContent = await fsPromises.readFile(checksumFilePath, 'utf8');
+    const checksumFileContent = await fsPromises.readFile(checksumFilePath, 'utf8');
+    return checksumFileContent;
   } catch (error) {
     throw new Error(
       `Failed to read checksum file ${checksumFilePath}: ${error instanceof Error ? error.message : String(error)}`
     );
   }
+}
 
-  // Parse the checksum file - format is typically: "<hash> <filename>"
-  // Find the line that contains our exact filename (file basename)
-  const fileName = path.basename(filePath);
-  const checksumLine = checksumFileContent.split('\n').find((line) => {
-    // Split by whitespace and check if any part matches the filename exactly
-    const parts = line.trim().split(/\s+/);
-    // The filename is typically the last part after spaces
-    return parts.length > 1 && parts[parts.length - 1] === fileName;
-  });
+/**
+ * Hash algorithms accepted for checksum files and download integrity checks
+ * SHA-1 is only accepted for checksum files, and is deprecated.
+ */
+export type HashAlgorithm = 'sha1' | 'sha256' | 'sha384' | 'sha512';
+
+/**
+ * A digest a file is expected to have
+ */
+export interface ExpectedHash {
+  /** The algorithm used to calculate the digest */
+  algorithm: HashAlgorithm;
+  /** The digest as lowercase hex */
+  digest: string;
+}
+
+/**
+ * Detects the hash algorithm of a checksum
+ * The name of the checksum file is used when it names an algorithm, such as 'SHA512SUMS',
+ * 'codecov.SHA256SUM' or 'file.sha384'. Otherwise the algorithm is derived from the length of
+ * the digest.
+ * @param digest The checksum as hex
+ * @param checksumFilePath Optional name or path of the checksum file the checksum was read from
+ * @returns The detected algorithm, or null if neither the file name nor the length identify one
+ * @throws Error if the length of the digest does not match the algorithm named by the file
+ */
+export function detectHashAlgorithm(
+  digest: string,
+  checksumFilePath?: string
+): HashAlgorithm | null {
+  const algorithmByLength =
+    (Object.keys(HEX_DIGEST_LENGTHS) as HashAlgorithm[]).find(
+      (algorithm) => HEX_DIGEST_LENGTHS[algorithm] === digest.trim().length
+    ) ?? null;
 
-  if (!checksumLine) {
-    throw new Error(`Checksum not found for ${fileName} in ${checksumFilePath}`);
+  // The checksum file may be given as a path on any platform
+  const checksumFileName = checksumFilePath?.split(/[\\/]/).pop() ?? '';
+  const match = /sha-?(1|256|384|512)(?!\d)/i.exec(checksumFileName);
+  if (!match) {
+    return algorithmByLength;
   }
 
-  // Extract expected hash - typically first part of the line
-  // Split by whitespace characters to parse the format "<hash> <filename>"
-  // Example: "a1b2c3d4e5f6... myfile.zip"
-  const parts = checksumLine.trim().split(/\s+/);
-  if (!parts[0]) {
-    throw new Error(`Invalid checksum format for ${fileName} in ${checksumFilePath}`);
+  const algorithmByName = `sha${match[1]}` as HashAlgorithm;
+  if (algorithmByLength && algorithmByLength !== algorithmByName) {
+    throw new Error(
+      `Checksum '${digest}' in ${checksumFilePath} is a ${formatHashAlgorithm(algorithmByLength)} digest, but the file name indicates ${formatHashAlgorithm(algorithmByName)}`
+    );
   }
-  const expectedHash = parts[0].toLowerCase();
+  return algorithmByName;
+}
 
-  // Calculate actual hash using a streaming approach
-  try {
-    const actualHash = await calculateFileHashStreaming(filePath);
+/**
+ * Logs a deprecation warning when a checksum file uses SHA-1
+ * The warning is always shown, also when the caller passes no logging function
+ */
+function warnIfDeprecatedAlgorithm(algorithm: HashAlgorithm, checksumFilePath: string): void {
+  if (algorithm === 'sha1') {
+    logger.warn(
+      `${checksumFilePath} uses SHA-1 checksums, which are deprecated because SHA-1 is no longer collision resistant. Use SHA-256 or stronger checksums`
+    );
+  }
+}
 
-    // Compare hashes
-    if (actualHash !== expectedHash) {
-      throw new Error(
-        `SHA-256 checksum verification failed for ${filePath}:\nExpected: ${expectedHash}\nActual: ${actualHash}`
-      );
+/**
+ * Validates a SHA-256 digest given as hex
+ * @param sha256 The digest, in upper or lower case
+ * @returns The expected hash
+ * @throws Error if the value is not 64 hexadecimal characters
+ */
+export function parseSha256(sha256: string): ExpectedHash {
+  const digest = sha256.trim().toLowerCase();
+  if (!/^[0-9a-f]+$/.test(digest) || digest.length !== HEX_DIGEST_LENGTHS.sha256) {
+    throw new Error(`Invalid SHA-256 digest '${sha256}'. Expected 64 hexadecimal characters`);
+  }
+  return { algorithm: 'sha256', digest };
+}
+
+/**
+ * Parses a Subresource Integrity string such as 'sha384-<base64 digest>'
+ * When several digests are given, the strongest supported algorithm is used, as specified by
+ * https://www.w3.org/TR/SRI/. Options after a '?' are ignored.
+ * @param integrity One or more space separated '<algorithm>-<base64 digest>' entries
+ * @returns The expected hash with the digest converted to hex
+ * @throws Error if no entry uses a supported algorithm with a digest of the right length
+ */
+export function parseIntegrity(integrity: string): ExpectedHash {
+  const algorithms = Object.keys(HEX_DIGEST_LENGTHS) as HashAlgorithm[];
+  let strongest: ExpectedHash | null = null;
+
+  for (const entry of integrity.trim().split(/\s+/)) {
+    const match = /^(sha256|sha384|sha512)-([A-Za-z0-9+/]+={0,2})(?:\?.*)?$/i.exec(entry);
+    if (!match?.[1] || !match[2]) {
+      continue;
+    }
+    const algorithm = match[1].toLowerCase() as HashAlgorithm;
+    const digest = Buffer.from(match[2], 'base64').toString('hex');
+    if (digest.length !== HEX_DIGEST_LENGTHS[algorithm]) {
+      continue;
+    }
+    if (!strongest || algorithms.indexOf(algorithm) > algorithms.indexOf(strongest.algorithm)) {
+      strongest = { algorithm, digest };
     }
+  }
 
-    logger(`SHA-256 checksum verified for ${filePath}`);
-  } catch (error) {
+  if (!strongest) {
     throw new Error(
-      `Failed to verify checksum for ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      `Invalid integrity value '${integrity}'. Expected '<algorithm>-<base64 digest>' using sha256, sha384 or sha512`
     );
   }
+  return strongest;
+}
+
+/**
+ * Formats a hash algorithm for messages, e.g. 'SHA-256'
+ * @param algorithm The hash algorithm
+ * @returns The display name of the algorithm
+ */
+export function formatHashAlgorithm(algorithm: HashAlgorithm): string {
+  return algorithm.toUpperCase().replace(/^SHA/, 'SHA-');
 }
 
 /**
- * Calculates the SHA-256 hash of a file using a streaming approach
+ * Calculates the hash of a file using a streaming approach
  * This is more memory efficient for large files
  *
  * @param filePath Path to the file to hash
+ * @param algorithm The hash algorithm (default: sha256)
  * @returns Promise that resolves with the lowercase hex digest of the hash
  */
-export function calculateFileHashStreaming(filePath: string): Promise<string> {
+export async function calculateFileHashStreaming(
+  filePath: string,
+  algorithm: HashAlgorithm = 'sha256'
+): Promise<string> {
+  const hashSum = crypto.createHash(algorithm);
+  await updateHashFromFile(hashSum, filePath);
+  return hashSum.digest('hex').toLowerCase();
+}
+
+/**
+ * Feeds the content of a file into a hash using a streaming approach
+ * Lets a download that resumes a partial file continue the hash of the bytes already on disk
+ *
+ * @param hashSum The hash to update
+ * @param filePath Path to the file to read
+ * @returns Promise that resolves when the whole file was read
+ */
+export function updateHashFromFile(hashSum: crypto.Hash, filePath: string): Promise<void> {
   return new Promise((resolve, reject) => {
     try {
       // Create a read stream from the file
       const fileStream = fs.createReadStream(filePath);
-      const hashSum = crypto.createHash('sha256');
 
       // Handle stream events
       fileStream.on('error', (error) => {
@@ -108,8 +438,7 @@ export function calculateFileHashStreaming(filePath: string): Promise<string> {
       });
 
       fileStream.on('end', () => {
-        const hash = hashSum.digest('hex').toLowerCase();
-        resolve(hash);
+        resolve();
       });
     } catch (error) {
       reject(
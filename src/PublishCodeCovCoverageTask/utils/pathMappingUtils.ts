@@ -0,0 +1,393 @@
+import { promises as fsPromises } from 'node:fs';
+import * as path from 'node:path';
+import {
+  COVERAGE_FORMAT_NAMES,
+  type CoverageFile,
+  type CoverageFormat,
+} from './coverageFormatUtils';
+import logger from './logger';
+import { decodeXmlEntities, escapeXmlAttribute, scanXml } from './xmlUtils';
+
+/**
+ * @module pathMappingUtils
+ *
+ * Rewrites the source file paths inside coverage reports, so reports created in build
+ * containers (/src/app/...) or on other agents (D:\a\1\s\...) match the files of the repository.
+ * networkRootFolder only replaces a single root; path mappings rewrite any prefix, or anything a
+ * regular expression matches.
+ *
+ * The reports are never changed in place: the rewritten reports are written to a separate folder
+ * and uploaded instead of the originals.
+ */
+
+/**
+ * A rule of the pathMappings input
+ */
+export interface PathMapping {
+  /** The rule as written in the input */
+  rule: string;
+  /** The prefix, with forward slashes and without a trailing slash, or a regular expression */
+  from: string | RegExp;
+  /** The replacement of the prefix, or of the match with $1 style references to groups */
+  to: string;
+}
+
+/**
+ * Formats whose paths can be rewritten
+ */
+const MAPPABLE_FORMATS: CoverageFormat[] = ['cobertura', 'jacoco', 'lcov'];
+
+/**
+ * Marks a rule whose 'from' is a regular expression
+ */
+const REGEX_RULE_PREFIX = 'regex:';
+
+/**
+ * Number of missing paths named in the log for each report
+ */
+const MAX_LOGGED_MISSING_PATHS = 20;
+
+/**
+ * Parses the pathMappings input
+ * Every line is a rule 'from=>to'. 'from' is a path prefix, or a regular expression when it starts
+ * with 'regex:', such as 'regex:^[A-Za-z]:\\a\\\d+\\s\\=>'. Empty lines are skipped.
+ * @param input The input value
+ * @returns The rules in the order they are tried
+ * @throws Error naming the rule if a line is not a valid rule
+ */
+export function parsePathMappings(input: string): PathMapping[] {
+  const mappings: PathMapping[] = [];
+  for (const line of input.split(/\r?\n/)) {
+    const rule = line.trim();
+    if (rule === '') {
+      continue;
+    }
+
+    const separator = rule.indexOf('=>');
+    const from = separator !== -1 ? rule.slice(0, separator).trim() : '';
+    const to = rule.slice(separator + 2).trim();
+    if (from === '' || from === REGEX_RULE_PREFIX) {
+      throw new Error(`Invalid pathMappings rule '${rule}'. Expected 'from=>to'`);
+    }
+
+    if (from.startsWith(REGEX_RULE_PREFIX)) {
+      try {
+        mappings.push({ rule, from: new RegExp(from.slice(REGEX_RULE_PREFIX.length)), to });
+      } catch (error) {
+        throw new Error(
+          `Invalid regular expression in pathMappings rule '${rule}': ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    } else {
+      mappings.push({ rule, from: from.replace(/\\/g, '/').replace(/(.)\/+$/, '$1'), to });
+    }
+  }
+  return mappings;
+}
+
+/**
+ * Rewrites a path with the first rule that matches it
+ * A prefix matches whole folder names, and backslashes in the path match forward slashes in the
+ * prefix. A Windows prefix, which starts with a drive letter or is a UNC path, matches regardless
+ * of case, as Windows paths are case-insensitive. The rest of a path rewritten by a prefix uses
+ * forward slashes.
+ * @param filePath The path to rewrite
+ * @param mappings The rules
+ * @returns The rewritten path, or null if no rule matches
+ */
+export function mapPath(filePath: string, mappings: PathMapping[]): string | null {
+  for (const { from, to } of mappings) {
+    if (from instanceof RegExp) {
+      if (filePath.search(from) !== -1) {
+        return filePath.replace(from, to);
+      }
+      continue;
+    }
+
+    const normalized = filePath.replace(/\\/g, '/');
+    const head = normalized.slice(0, from.length);
+    const next = normalized.charAt(from.length);
+    if (
+      (isWindowsPath(from) ? head.toLowerCase() !== from.toLowerCase() : head !== from) ||
+      (next !== '' && next !== '/' && !from.endsWith('/'))
+    ) {
+      continue;
+    }
+    const rest = normalized.slice(from.length).replace(/^\//, '');
+    if (to === '') {
+      return rest;
+    }
+    return rest === '' ? to : `${to.replace(/[\\/]+$/, '')}/${rest}`;
+  }
+  return null;
+}
+
+/**
+ * Returns whether a prefix with forward slashes is a Windows path, such as D:/a or //server/share
+ */
+function isWindowsPath(prefix: string): boolean {
+  return /^[A-Za-z]:(\/|$)/.test(prefix) || prefix.startsWith('//');
+}
+
+/**
+ * Result of rewriting the paths of a report
+ */
+export interface RewrittenCoverageReport {
+  /** The report with the rewritten paths */
+  content: string;
+  /** Number of paths in the report */
+  total: number;
+  /** Number of paths a rule rewrote */
+  rewritten: number;
+  /**
+   * Paths of the source files after the rewrite. JaCoCo source files are given as package name
+   * and file name, and only for the packages a rule rewrote: other package names are Java
+   * packages such as com/example, not folders of the repository.
+   */
+  sourceFiles: string[];
+  /** Source folders of a Cobertura report after the rewrite, which relative paths start from */
+  sourceFolders: string[];
+}
+
+/**
+ * Rewrites the paths of a Cobertura, JaCoCo or lcov report
+ * Cobertura reports have their class file names and source folders rewritten, lcov reports their
+ * SF records, and JaCoCo reports their package names. A JaCoCo package name such as com/example is
+ * the folder of its source files relative to a source root such as src/main/java; rewriting it
+ * turns it into the folder relative to the repository, e.g. 'com/example=>app/src/main/java/com/example'.
+ * Everything else in the report is left exactly as it is.
+ * @param content The content of the report
+ * @param format The format of the report
+ * @param mappings The rules
+ * @throws Error if the format has no paths that can be rewritten or an XML report is malformed
+ */
+export function rewriteCoveragePaths(
+  content: string,
+  format: CoverageFormat,
+  mappings: PathMapping[]
+): RewrittenCoverageReport {
+  const report: RewrittenCoverageReport = {
+    content,
+    total: 0,
+    rewritten: 0,
+    sourceFiles: [],
+    sourceFolders: [],
+  };
+  const rewrite = (value: string): string => {
+    report.total++;
+    const mapped = mapPath(value, mappings);
+    if (mapped === null || mapped === value) {
+      return value;
+    }
+    report.rewritten++;
+    return mapped;
+  };
+  const rewriteAttribute = (
+    _match: string,
+    prefix: string,
+    doubleQuoted: string | undefined,
+    singleQuoted: string | undefined
+  ): string =>
+    `${prefix}"${escapeXmlAttribute(rewrite(decodeXmlEntities(doubleQuoted ?? singleQuoted ?? '')))}"`;
+
+  if (format === 'cobertura' || format === 'jacoco') {
+    // Reject a malformed report with the line of the error before its values are decoded
+    scanXml(
+      content,
+      () => {},
+      () => {}
+    );
+  }
+
+  if (format === 'lcov') {
+    report.content = content.replace(
+      /^(SF:)(.*?)(\r?)$/gm,
+      (_match, prefix: string, value: string, cr: string) => {
+        const sourceFile = rewrite(value);
+        report.sourceFiles.push(sourceFile);
+        return `${prefix}${sourceFile}${cr}`;
+      }
+    );
+    return report;
+  }
+
+  if (format === 'cobertura') {
+    report.content = content
+      .replace(/(<class\b[^>]*?\sfilename\s*=\s*)(?:"([^"]*)"|'([^']*)')/g, rewriteAttribute)
+      .replace(
+        /(<source>)([^<]*)(<\/source>)/g,
+        (_match, open: string, value: string, close: string) =>
+          value.trim() === ''
+            ? `${open}${value}${close}`
+            : `${open}${escapeXmlAttribute(rewrite(decodeXmlEntities(value.trim())))}${close}`
+      );
+    scanXml(
+      report.content,
+      ({ name, attributes }) => {
+        if (name === 'class' && attributes.filename) {
+          report.sourceFiles.push(decodeXmlEntities(attributes.filename));
+        }
+      },
+      (text, ancestors) => {
+        if (ancestors[ancestors.length - 1] === 'source') {
+          report.sourceFolders.push(decodeXmlEntities(text.trim()));
+        }
+      }
+    );
+    return report;
+  }
+
+  if (format === 'jacoco') {
+    // Only the source files of rewritten packages can be looked up in the repository
+    const rewrittenPackages = new Set<string>();
+    report.content = content.replace(
+      /(<package\b[^>]*?\sname\s*=\s*)(?:"([^"]*)"|'([^']*)')/g,
+      (_match, prefix: string, doubleQuoted?: string, singleQuoted?: string) => {
+        const value = decodeXmlEntities(doubleQuoted ?? singleQuoted ?? '');
+        const packageName = rewrite(value);
+        if (packageName !== value) {
+          rewrittenPackages.add(packageName);
+        }
+        return `${prefix}"${escapeXmlAttribute(packageName)}"`;
+      }
+    );
+    let packageName: string | null = null;
+    scanXml(
+      report.content,
+      ({ name, attributes, ancestors }) => {
+        if (name === 'package') {
+          const value = decodeXmlEntities(attributes.name ?? '');
+          packageName = rewrittenPackages.has(value) ? value : null;
+        } else if (
+          name === 'sourcefile' &&
+          ancestors[ancestors.length - 1] === 'package' &&
+          packageName !== null &&
+          attributes.name
+        ) {
+          const fileName = decodeXmlEntities(attributes.name);
+          report.sourceFiles.push(packageName ? `${packageName}/${fileName}` : fileName);
+        }
+      },
+      () => {}
+    );
+    return report;
+  }
+
+  throw new Error(`The paths of ${COVERAGE_FORMAT_NAMES[format]} reports cannot be rewritten`);
+}
+
+/**
+ * Rewrites the paths of coverage reports into copies of the reports
+ *
+ * Only Cobertura, JaCoCo and lcov reports are rewritten; other reports, and reports in which no
+ * path was rewritten, are uploaded as they are. The log shows how many paths of each report were
+ * rewritten and names the source files that do not exist on disk after the rewrite. Relative paths
+ * are looked up in the source folders of the report and in the base directory.
+ *
+ * @param files The reports and their formats
+ * @param mappings The rules
+ * @param outputDirectory Folder the rewritten reports are written to. It is emptied first, so it
+ * only holds the reports of this run.
+ * @param baseDirectory Folder relative paths are resolved against, usually the repository
+ * @returns The reports to upload and their formats, in the order of the given reports
+ * @throws Error if a report cannot be read or rewritten
+ */
+export async function remapCoverageFiles(
+  files: CoverageFile[],
+  mappings: PathMapping[],
+  outputDirectory: string,
+  baseDirectory: string
+): Promise<CoverageFile[]> {
+  await fsPromises.rm(outputDirectory, { recursive: true, force: true });
+  await fsPromises.mkdir(outputDirectory, { recursive: true });
+
+  const outputNames = new Set<string>();
+  const result: CoverageFile[] = [];
+
+  for (const file of files) {
+    const { path: source, format } = file;
+    if (!format || !MAPPABLE_FORMATS.includes(format)) {
+      if (format) {
+        logger.info(
+          `The paths of coverage file ${source} are not rewritten: ${COVERAGE_FORMAT_NAMES[format]} reports are not supported`
+        );
+      }
+      result.push(file);
+      continue;
+    }
+
+    let report: RewrittenCoverageReport;
+    try {
+      report = rewriteCoveragePaths(await fsPromises.readFile(source, 'utf8'), format, mappings);
+    } catch (error) {
+      throw new Error(
+        `Failed to rewrite the paths of coverage file ${source}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    let output = source;
+    if (report.rewritten > 0) {
+      // Reports from different folders often share a name, such as coverage.xml
+      const extension = path.extname(source);
+      const baseName = path.basename(source, extension);
+      let outputName = `${baseName}${extension}`;
+      for (let index = 2; outputNames.has(outputName); index++) {
+        outputName = `${baseName}-${index}${extension}`;
+      }
+      outputNames.add(outputName);
+      output = path.join(outputDirectory, outputName);
+      await fsPromises.writeFile(output, report.content, 'utf8');
+    }
+    logger.info(
+      `Rewrote ${report.rewritten} of ${report.total} path(s) in coverage file ${source}${output !== source ? ` into ${output}` : ''}`
+    );
+
+    const missing = await findMissingSourceFiles(report, baseDirectory);
+    if (missing.length > 0) {
+      const listed = missing.slice(0, MAX_LOGGED_MISSING_PATHS).join(', ');
+      const more =
+        missing.length > MAX_LOGGED_MISSING_PATHS
+          ? ` and ${missing.length - MAX_LOGGED_MISSING_PATHS} more`
+          : '';
+      logger.warn(
+        `${missing.length} source file(s) of coverage file ${source} do not exist on disk: ${listed}${more}`
+      );
+    }
+
+    result.push({ path: output, format });
+  }
+
+  return result;
+}
+
+/**
+ * Returns the source files of a rewritten report that do not exist on disk
+ */
+async function findMissingSourceFiles(
+  report: RewrittenCoverageReport,
+  baseDirectory: string
+): Promise<string[]> {
+  const missing: string[] = [];
+  for (const sourceFile of new Set(report.sourceFiles)) {
+    const candidates = path.isAbsolute(sourceFile)
+      ? [sourceFile]
+      : [
+          ...report.sourceFolders.map((folder) => path.resolve(baseDirectory, folder, sourceFile)),
+          path.resolve(baseDirectory, sourceFile),
+        ];
+    let exists = false;
+    for (const candidate of candidates) {
+      exists = await fsPromises.access(candidate).then(
+        () => true,
+        () => false
+      );
+      if (exists) {
+        break;
+      }
+    }
+    if (!exists) {
+      missing.push(sourceFile);
+    }
+  }
+  return missing;
+}
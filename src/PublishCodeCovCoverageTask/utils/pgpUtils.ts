@@ -0,0 +1,229 @@
+import { promises as fsPromises } from 'node:fs';
+import * as openpgp from 'openpgp';
+import { downloadFile, type DownloadAuth, type DownloadProgress } from './webUtils';
+import logger from './logger';
+
+/**
+ * Fingerprint of the key Codecov uses to sign the SHA256SUM files of the Codecov CLI
+ * Pinned with the task so the trust anchor does not come from the same network as the artifact
+ */
+export const CODECOV_PGP_KEY_FINGERPRINT = '27034E7FDB850E0BBC2C62FF806BB28AED779869';
+
+/**
+ * Locations the Codecov public key is downloaded from, in order of preference
+ * Any location can be used since only the key matching the pinned fingerprint is trusted
+ * @param fingerprint The fingerprint of the key to download
+ * @param mirrorBaseUrl Base URL of an internal mirror; when given, the key is only downloaded
+ * from <mirrorBaseUrl>/pgp_keys.asc
+ * @returns The URLs to try
+ */
+export function getPgpKeyUrls(fingerprint: string, mirrorBaseUrl?: string): string[] {
+  if (mirrorBaseUrl) {
+    return [`${mirrorBaseUrl}/pgp_keys.asc`];
+  }
+  return [
+    'https://keybase.io/codecovsecurity/pgp_keys.asc',
+    `https://keyserver.ubuntu.com/pks/lookup?op=get&options=mr&search=0x${fingerprint}`,
+  ];
+}
+
+/**
+ * Downloads public keys from the first location that responds successfully
+ * @param urls The locations to try, in order of preference (see getPgpKeyUrls)
+ * @param dest The local file path to save the public keys to
+ * @param options Additional options passed to downloadFile
+ * @param options.auth Optional basic or bearer credentials, only sent to locations of their own
+ * origin
+ * @param options.retries Number of times a transient failure is retried for each location
+ * @param options.revalidate Whether to keep keys downloaded earlier from the same location when
+ * the server reports them unchanged
+ * @param options.maxBytes Maximum size of the key file in bytes
+ * @param options.signal AbortSignal to cancel the download; no further locations are tried
+ * @param options.onProgress Optional callback for progress updates of the current location
+ * @returns A promise that resolves with the URL the keys were downloaded from
+ * @throws Error listing every location that was tried if none of them succeeded
+ */
+export async function downloadPgpKeys(
+  urls: string[],
+  dest: string,
+  options: {
+    auth?: DownloadAuth;
+    retries?: number;
+    revalidate?: boolean;
+    maxBytes?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: DownloadProgress) => void;
+  } = {}
+): Promise<string> {
+  const failures: string[] = [];
+  for (const url of urls) {
+    try {
+      await downloadFile(url, dest, options);
+      return url;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Failed to download PGP keys from ${url}: ${message}`);
+      failures.push(`${url}: ${message}`);
+    }
+  }
+  throw new Error(`Failed to download PGP keys from any location:\n${failures.join('\n')}`);
+}
+
+/**
+ * Normalizes a PGP key fingerprint to uppercase hex without spaces or a 0x prefix
+ * @param fingerprint The fingerprint as provided by the user, e.g. '2703 4E7F DB85 ...'
+ * @returns The normalized fingerprint
+ * @throws Error if the value is not a v4 (40 hex digits) or v5/v6 (64 hex digits) fingerprint
+ */
+export function normalizePgpFingerprint(fingerprint: string): string {
+  const normalized = fingerprint.replace(/\s+/g, '').replace(/^0x/i, '').toUpperCase();
+  if (!/^(?:[0-9A-F]{40}|[0-9A-F]{64})$/.test(normalized)) {
+    throw new Error(
+      `Invalid PGP key fingerprint '${fingerprint}'. Expected 40 or 64 hexadecimal characters`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Details of the key that made a valid signature
+ */
+export interface SignatureVerificationResult {
+  /** Fingerprint of the primary key that owns the signing key, in uppercase hex */
+  fingerprint: string;
+  /** Key ID of the (sub)key that made the signature, in uppercase hex */
+  keyId: string;
+}
+
+/**
+ * Verifies a detached OpenPGP signature in process, without depending on a gpg binary
+ * Cross-platform alternative to gpg --import <keys> && gpg --verify <signature> <file>
+ *
+ * The public keys are only held in memory for the duration of the call, which acts as a
+ * dedicated, throwaway keyring. Nothing is imported into the keyring of the agent user.
+ *
+ * When an expected fingerprint is given, only the key with that fingerprint is trusted and a
+ * signature made by any other key in the key file is rejected.
+ *
+ * @param filePath Path to the signed file
+ * @param signatureFilePath Path to the detached signature, either binary or ASCII armored
+ * @param publicKeysFilePath Path to the ASCII armored public key(s) trusted to have made the signature
+ * @param options Additional options for the verification
+ * @param options.expectedFingerprint Fingerprint of the only key allowed to have made the signature
+ * @returns Promise that resolves with the details of the signing key
+ * @throws Error if the files cannot be read, cannot be parsed, the pinned key is missing, or the signature is not valid
+ */
+export async function verifyDetachedSignature(
+  filePath: string,
+  signatureFilePath: string,
+  publicKeysFilePath: string,
+  options: { expectedFingerprint?: string } = {}
+): Promise<SignatureVerificationResult> {
+  const [data, signatureData, armoredKeys] = await Promise.all([
+    readFileOrThrow(filePath),
+    readFileOrThrow(signatureFilePath),
+    readFileOrThrow(publicKeysFilePath),
+  ]);
+
+  let verificationKeys: openpgp.PublicKey[];
+  try {
+    verificationKeys = await readPublicKeys(armoredKeys.toString('utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read public keys from ${publicKeysFilePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (options.expectedFingerprint) {
+    const expectedFingerprint = normalizePgpFingerprint(options.expectedFingerprint);
+    verificationKeys = verificationKeys.filter(
+      (key) => key.getFingerprint().toUpperCase() === expectedFingerprint
+    );
+    if (verificationKeys.length === 0) {
+      throw new Error(
+        `No public key with the expected fingerprint ${expectedFingerprint} was found in ${publicKeysFilePath}`
+      );
+    }
+  }
+
+  let signature: openpgp.Signature;
+  try {
+    signature = await readSignature(signatureData);
+  } catch (error) {
+    throw new Error(
+      `Failed to read signature ${signatureFilePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const message = await openpgp.createMessage({ binary: data });
+  const { signatures } = await openpgp.verify({ message, signature, verificationKeys });
+
+  const failures: string[] = [];
+  for (const { keyID, verified } of signatures) {
+    try {
+      await verified;
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    const signingKey = verificationKeys.find((key) => key.getKeys(keyID).length > 0);
+    if (signingKey) {
+      return {
+        fingerprint: signingKey.getFingerprint().toUpperCase(),
+        keyId: keyID.toHex().toUpperCase(),
+      };
+    }
+  }
+
+  throw new Error(
+    `Signature verification failed for ${filePath} using ${signatureFilePath}: ${failures.length > 0 ? failures.join('; ') : 'no signatures found'}`
+  );
+}
+
+/**
+ * Parses all public keys from ASCII armored text
+ * Supports both a single armored block holding several keys and several concatenated armored blocks
+ * @param armoredText The ASCII armored public key(s)
+ * @returns The parsed public keys
+ */
+async function readPublicKeys(armoredText: string): Promise<openpgp.PublicKey[]> {
+  const blocks =
+    armoredText.match(
+      /-----BEGIN PGP PUBLIC KEY BLOCK-----[\s\S]*?-----END PGP PUBLIC KEY BLOCK-----/g
+    ) ?? [];
+  if (blocks.length <= 1) {
+    return openpgp.readKeys({ armoredKeys: armoredText });
+  }
+  const keys = await Promise.all(blocks.map((armoredKeys) => openpgp.readKeys({ armoredKeys })));
+  return keys.flat();
+}
+
+/**
+ * Parses a detached signature that is either ASCII armored or binary
+ * @param signatureData The raw content of the signature file
+ * @returns The parsed signature
+ */
+function readSignature(signatureData: Buffer): Promise<openpgp.Signature> {
+  const text = signatureData.toString('utf8');
+  if (text.includes('-----BEGIN PGP SIGNATURE-----')) {
+    return openpgp.readSignature({ armoredSignature: text });
+  }
+  return openpgp.readSignature({ binarySignature: new Uint8Array(signatureData) });
+}
+
+/**
+ * Reads a file and wraps any I/O error with the file path
+ * @param filePath Path to the file to read
+ * @returns The content of the file
+ */
+function readFileOrThrow(filePath: string): Promise<Buffer> {
+  return fsPromises.readFile(filePath).catch((error: unknown) => {
+    throw new Error(
+      `Failed to read file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  });
+}
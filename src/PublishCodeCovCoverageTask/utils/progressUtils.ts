@@ -0,0 +1,53 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import type { DownloadProgress } from './webUtils';
+import logger from './logger';
+
+/**
+ * Creates an onProgress callback that shows the progress of a download in the pipeline
+ *
+ * When the total size is known, the percentage is reported to Azure Pipelines with the
+ * task.setprogress logging command, which shows it next to the running task. A log line with the
+ * megabytes received and the percentage is written at most once per logIntervalMs, and once more
+ * when the download completes. Without a Content-Length the log lines only show the megabytes
+ * received and the progress in the UI is left untouched.
+ *
+ * @param operation Description of the download, e.g. 'Downloading Codecov CLI'
+ * @param options Additional options for the reporter
+ * @param options.logIntervalMs Minimum time in milliseconds between two log lines (default: 5000)
+ * @returns The callback to pass as onProgress to downloadFile or downloadAll
+ */
+export function createProgressReporter(
+  operation: string,
+  options: { logIntervalMs?: number } = {}
+): (progress: DownloadProgress) => void {
+  const logIntervalMs = options.logIntervalMs ?? 5000;
+  let lastLogTime = Date.now();
+  let lastPercent: number | null = null;
+  let completed = false;
+
+  return ({ bytesReceived, totalBytes, percent }) => {
+    if (percent !== null && percent !== lastPercent) {
+      lastPercent = percent;
+      tl.setProgress(percent, operation);
+    }
+
+    const isComplete = percent === 100;
+    const now = Date.now();
+    if ((isComplete && !completed) || now - lastLogTime >= logIntervalMs) {
+      lastLogTime = now;
+      completed = completed || isComplete;
+      logger.info(
+        totalBytes !== null && percent !== null
+          ? `${operation}: ${formatMegabytes(bytesReceived)} of ${formatMegabytes(totalBytes)} MB (${percent}%)`
+          : `${operation}: ${formatMegabytes(bytesReceived)} MB received`
+      );
+    }
+  };
+}
+
+/**
+ * Formats a number of bytes as megabytes with two decimals
+ */
+function formatMegabytes(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(2);
+}
@@ -0,0 +1,294 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import * as fs from 'node:fs';
+import * as https from 'node:https';
+import * as path from 'node:path';
+import * as tls from 'node:tls';
+import type { AxiosRequestConfig } from 'axios';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import logger from './logger';
+
+/**
+ * @module proxyUtils
+ *
+ * Network settings for agents behind a proxy or a TLS-inspecting middlebox.
+ *
+ * The proxy is taken from the agent proxy configuration (Agent.ProxyUrl, set with
+ * `config.sh --proxyurl` or the .proxy file of the agent) and falls back to the
+ * HTTPS_PROXY, HTTP_PROXY and NO_PROXY environment variables. Certificates are taken from
+ * the agent certificate configuration (Agent.CAInfo, Agent.ClientCert and related variables).
+ */
+
+/**
+ * TLS options for connections to the target server, read from the agent certificate configuration
+ */
+export interface TlsOptions {
+  /** Trusted CA certificates: the Node.js defaults plus the CA bundle of the agent */
+  ca?: (string | Buffer)[];
+  /** Client certificate in PEM format */
+  cert?: Buffer;
+  /** Private key of the client certificate in PEM format */
+  key?: Buffer;
+  /** Client certificate archive in PFX/PKCS#12 format */
+  pfx?: Buffer;
+  /** Passphrase of the private key or certificate archive */
+  passphrase?: string;
+}
+
+/**
+ * Gets the proxy to use for a request
+ * The agent proxy configuration takes precedence over the environment variables. When the agent
+ * has a proxy configured, its bypass list decides whether the proxy is used, and the environment
+ * variables are ignored.
+ * @param targetUrl The URL of the request
+ * @returns The proxy URL including any credentials, or null if the request should not use a proxy
+ */
+export function getProxyUrl(targetUrl: string): string | null {
+  if (tl.getVariable('Agent.ProxyUrl')) {
+    const agentProxy = tl.getHttpProxyConfiguration(targetUrl);
+    if (agentProxy?.proxyPassword) {
+      tl.setSecret(agentProxy.proxyPassword);
+    }
+    return agentProxy ? agentProxy.proxyFormattedUrl : null;
+  }
+
+  const isHttps = new URL(targetUrl).protocol === 'https:';
+  const environmentProxy = isHttps
+    ? (getEnvironmentVariable('HTTPS_PROXY') ?? getEnvironmentVariable('HTTP_PROXY'))
+    : getEnvironmentVariable('HTTP_PROXY');
+  if (!environmentProxy || isBypassedByNoProxy(targetUrl, getEnvironmentVariable('NO_PROXY'))) {
+    return null;
+  }
+  return environmentProxy;
+}
+
+/**
+ * Checks whether a URL matches the NO_PROXY variable
+ * Supports '*', host names (matching the host and its subdomains, with or without a leading
+ * dot) and an optional port, using the conventions of curl and most HTTP clients.
+ * @param targetUrl The URL of the request
+ * @param noProxy The value of NO_PROXY, a comma or space separated list
+ * @returns True if the request should not use a proxy
+ */
+export function isBypassedByNoProxy(targetUrl: string, noProxy: string | undefined): boolean {
+  if (!noProxy) {
+    return false;
+  }
+  const url = new URL(targetUrl);
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter((entry) => entry !== '')
+    .some((entry) => {
+      if (entry === '*') {
+        return true;
+      }
+      const match = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase());
+      const entryHost = (match?.[1] ?? '').replace(/^\*?\./, '').replace(/^\[|\]$/g, '');
+      const entryPort = match?.[2];
+      if (entryPort && entryPort !== port) {
+        return false;
+      }
+      return host === entryHost || host.endsWith(`.${entryHost}`);
+    });
+}
+
+/**
+ * Reads the CA bundle and client certificate configured for the agent
+ * @returns The TLS options, or null if the agent has no certificate configuration
+ * @throws Error if a configured certificate file cannot be read
+ */
+export function getTlsOptions(): TlsOptions | null {
+  const certConfiguration = tl.getHttpCertConfiguration();
+  if (!certConfiguration) {
+    return null;
+  }
+
+  const options: TlsOptions = {};
+  if (certConfiguration.caFile) {
+    // Setting ca replaces the default trusted certificates, so keep them next to the agent CA
+    options.ca = [
+      ...tls.rootCertificates,
+      readCertificateFile(certConfiguration.caFile, 'CA certificate'),
+    ];
+  }
+  if (certConfiguration.certFile) {
+    options.cert = readCertificateFile(certConfiguration.certFile, 'client certificate');
+  }
+  if (certConfiguration.keyFile) {
+    options.key = readCertificateFile(certConfiguration.keyFile, 'client certificate key');
+  }
+  if (certConfiguration.certArchiveFile) {
+    options.pfx = readCertificateFile(
+      certConfiguration.certArchiveFile,
+      'client certificate archive'
+    );
+  }
+  if (certConfiguration.passphrase) {
+    tl.setSecret(certConfiguration.passphrase);
+    options.passphrase = certConfiguration.passphrase;
+  }
+  return Object.keys(options).length > 0 ? options : null;
+}
+
+/**
+ * Builds the axios configuration that routes a request through the proxy and applies the
+ * agent certificates
+ *
+ * HTTPS requests through a proxy are tunneled with CONNECT using https-proxy-agent, since the
+ * proxy support built into axios does not tunnel HTTPS. HTTP requests use the proxy support of
+ * axios. Returns an empty configuration when there is no proxy and no certificate configuration.
+ *
+ * @param targetUrl The URL of the request
+ * @returns The axios configuration to merge into the request configuration
+ */
+export function getProxyRequestConfig(
+  targetUrl: string
+): Pick<AxiosRequestConfig, 'httpsAgent' | 'proxy'> {
+  const proxyUrl = getProxyUrl(targetUrl);
+  const tlsOptions = getTlsOptions();
+  const isHttps = new URL(targetUrl).protocol === 'https:';
+
+  if (proxyUrl) {
+    logger.debug(`Using proxy ${redactProxyUrl(proxyUrl)} for ${targetUrl}`);
+    if (isHttps) {
+      return {
+        httpsAgent: new HttpsProxyAgent(proxyUrl, tlsOptions ?? {}),
+        proxy: false,
+      };
+    }
+    const proxy = new URL(proxyUrl);
+    return {
+      proxy: {
+        protocol: proxy.protocol.replace(/:$/, ''),
+        host: proxy.hostname,
+        port: Number(proxy.port || (proxy.protocol === 'https:' ? 443 : 80)),
+        ...(proxy.username
+          ? {
+              auth: {
+                username: decodeURIComponent(proxy.username),
+                password: decodeURIComponent(proxy.password),
+              },
+            }
+          : {}),
+      },
+    };
+  }
+
+  if (tlsOptions && isHttps) {
+    return { httpsAgent: new https.Agent(tlsOptions), proxy: false };
+  }
+  // Proxy variables may be set that this request bypasses, make sure axios does not apply them
+  return getEnvironmentVariable('HTTPS_PROXY') || getEnvironmentVariable('HTTP_PROXY')
+    ? { proxy: false }
+    : {};
+}
+
+/**
+ * File name of the CA bundle written for the Codecov CLI
+ */
+const CLI_CA_BUNDLE_FILE_NAME = 'codecov_ca_bundle.pem';
+
+/**
+ * Builds the environment variables that make the Codecov CLI use the same proxy and CA bundle
+ *
+ * The CLI is a Python application, which reads the proxy from HTTPS_PROXY/HTTP_PROXY/NO_PROXY
+ * and a custom CA bundle from REQUESTS_CA_BUNDLE. REQUESTS_CA_BUNDLE replaces the certificates
+ * the CLI trusts by default, so the agent CA certificate is written to a bundle together with the
+ * Node.js root certificates, which come from the same Mozilla CA store as those of the CLI.
+ *
+ * The CLI has no way to present a client certificate or to skip certificate validation, so the
+ * agent client certificate and Agent.SkipCertValidation are not applied to it. A warning is logged
+ * when either is configured.
+ *
+ * @param targetUrl The URL the CLI uploads to, used to evaluate the agent proxy bypass list
+ * @param tempDirectory Folder the CA bundle is written to
+ * @returns The environment variables to add to the environment of the CLI, empty if none are needed
+ * @throws Error if the agent CA certificate cannot be read or the bundle cannot be written
+ */
+export function getProxyEnvironment(
+  targetUrl: string,
+  tempDirectory: string
+): Record<string, string> {
+  const environment: Record<string, string> = {};
+
+  if (tl.getVariable('Agent.ProxyUrl')) {
+    const proxyUrl = getProxyUrl(targetUrl);
+    if (proxyUrl) {
+      environment.HTTPS_PROXY = proxyUrl;
+      environment.HTTP_PROXY = proxyUrl;
+    } else {
+      logger.debug(`${targetUrl} bypasses the agent proxy`);
+    }
+  }
+
+  const certConfiguration = tl.getHttpCertConfiguration();
+  if (certConfiguration?.caFile) {
+    const bundlePath = path.join(tempDirectory, CLI_CA_BUNDLE_FILE_NAME);
+    const agentCertificate = readCertificateFile(certConfiguration.caFile, 'CA certificate');
+    try {
+      fs.mkdirSync(tempDirectory, { recursive: true });
+      fs.writeFileSync(
+        bundlePath,
+        `${tls.rootCertificates.join('\n')}\n${agentCertificate.toString('utf8').trim()}\n`
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to write the CA bundle for the Codecov CLI '${bundlePath}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    environment.REQUESTS_CA_BUNDLE = bundlePath;
+  }
+  if (certConfiguration?.certFile || certConfiguration?.certArchiveFile) {
+    logger.warn(
+      'The agent client certificate is only used for the downloads. The Codecov CLI cannot present a client certificate'
+    );
+  }
+  if (tl.getVariable('Agent.SkipCertValidation')?.toLowerCase() === 'true') {
+    logger.warn(
+      'Agent.SkipCertValidation is not applied to the Codecov CLI, which always validates the certificate of the server'
+    );
+  }
+  return environment;
+}
+
+/**
+ * Removes the credentials from a proxy URL so it can be logged
+ * @param proxyUrl The proxy URL
+ * @returns The proxy URL without credentials
+ */
+export function redactProxyUrl(proxyUrl: string): string {
+  try {
+    const url = new URL(proxyUrl);
+    if (url.username || url.password) {
+      url.username = '***';
+      url.password = '';
+    }
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return '<invalid proxy URL>';
+  }
+}
+
+/**
+ * Gets an environment variable by its upper or lower case name, as both are used for proxies
+ */
+function getEnvironmentVariable(name: string): string | undefined {
+  const value = process.env[name] ?? process.env[name.toLowerCase()];
+  return value && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Reads a certificate file configured for the agent
+ * @throws Error naming the file if it cannot be read
+ */
+function readCertificateFile(filePath: string, description: string): Buffer {
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    throw new Error(
+      `Failed to read the agent ${description} '${filePath}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
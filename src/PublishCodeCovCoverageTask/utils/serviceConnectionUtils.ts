@@ -0,0 +1,65 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import type { DownloadAuth } from './webUtils';
+
+/**
+ * An alternative origin to download the Codecov CLI from, such as an internal mirror
+ */
+export interface DownloadSource {
+  /** Base URL of the mirror */
+  baseUrl: string;
+  /** Credentials sent with the requests to the origin of the mirror */
+  auth?: DownloadAuth;
+}
+
+/**
+ * Reads the URL and credentials of a download mirror from a service connection
+ *
+ * Supported authorization schemes:
+ * - UsernamePassword (e.g. a Generic service connection): sent as basic authentication.
+ *   For Azure Artifacts, use a personal access token as the password.
+ * - Token: the 'apitoken' parameter is sent as a bearer token
+ * - None: no credentials are sent
+ *
+ * Credentials are registered as secrets so they are masked in the pipeline log, and are only sent
+ * to the origin of the service connection URL. They are not sent when cliBaseUrl points to another
+ * host, or to the public key servers the Codecov PGP keys are downloaded from.
+ *
+ * @param connectionId The service connection input value
+ * @returns The base URL and credentials of the mirror
+ * @throws Error if the service connection has no URL or uses an unsupported authorization scheme
+ */
+export function getDownloadSourceFromServiceConnection(connectionId: string): DownloadSource {
+  const baseUrl = tl.getEndpointUrl(connectionId, true);
+  if (!baseUrl) {
+    throw new Error(`Service connection '${connectionId}' does not define a URL`);
+  }
+  let origin: string;
+  try {
+    ({ origin } = new URL(baseUrl));
+  } catch {
+    throw new Error(`Service connection '${connectionId}' has an invalid URL '${baseUrl}'`);
+  }
+
+  const scheme = tl.getEndpointAuthorizationScheme(connectionId, true) ?? 'None';
+  switch (scheme.toLowerCase()) {
+    case 'usernamepassword': {
+      const username = tl.getEndpointAuthorizationParameter(connectionId, 'username', true) ?? '';
+      const password = tl.getEndpointAuthorizationParameter(connectionId, 'password', true) ?? '';
+      if (password) {
+        tl.setSecret(password);
+      }
+      return { baseUrl, auth: { type: 'basic', username, password, origin } };
+    }
+    case 'token': {
+      const token = tl.getEndpointAuthorizationParameter(connectionId, 'apitoken', false) ?? '';
+      tl.setSecret(token);
+      return { baseUrl, auth: { type: 'bearer', token, origin } };
+    }
+    case 'none':
+      return { baseUrl };
+    default:
+      throw new Error(
+        `Service connection '${connectionId}' uses the unsupported authorization scheme '${scheme}'`
+      );
+  }
+}
@@ -0,0 +1,126 @@
+import * as fs from 'node:fs';
+import { promises as fsPromises } from 'node:fs';
+import * as path from 'node:path';
+import { verifyFileChecksum } from './fileUtils';
+import logger from './logger';
+
+/**
+ * @module toolCacheUtils
+ *
+ * Caches a verified Codecov CLI in the agent tool cache (Agent.ToolsDirectory) so that
+ * subsequent pipeline runs on the same agent can skip downloading and verifying it again.
+ *
+ * The layout follows the convention used by the Azure Pipelines tool installer tasks:
+ *
+ *   <toolsDirectory>/codecov/<version>/<platform>/codecov
+ *   <toolsDirectory>/codecov/<version>/<platform>/codecov.SHA256SUM
+ *   <toolsDirectory>/codecov/<version>/<platform>.complete
+ *
+ * A binary is only added to the cache after it passed signature and checksum verification,
+ * and the .complete marker is written last so a partially populated cache entry is never used.
+ * The SHA256SUM file is stored next to the binary so the checksum can be re-verified every
+ * time the cached binary is reused.
+ */
+
+/**
+ * Name of the tool folder in the agent tool cache
+ */
+const CACHE_TOOL_NAME = 'codecov';
+
+/**
+ * Gets the cache directory for a specific Codecov CLI version and platform
+ * @param toolsDirectory The agent tool cache directory (Agent.ToolsDirectory)
+ * @param version The Codecov CLI version
+ * @param platform The Codecov CLI platform
+ * @returns The path of the cache directory
+ */
+export function getCodecovCliCacheDirectory(
+  toolsDirectory: string,
+  version: string,
+  platform: string
+): string {
+  return path.join(toolsDirectory, CACHE_TOOL_NAME, version, platform);
+}
+
+/**
+ * Looks up a previously cached Codecov CLI and re-verifies its SHA-256 checksum
+ * A cache entry that fails verification is removed so it will be replaced on the next download
+ * @param toolsDirectory The agent tool cache directory (Agent.ToolsDirectory)
+ * @param version The Codecov CLI version
+ * @param platform The Codecov CLI platform
+ * @param executableName The file name of the Codecov CLI executable
+ * @returns The path of the cached executable, or null if there is no usable cache entry
+ */
+export async function findCachedCodecovCli(
+  toolsDirectory: string,
+  version: string,
+  platform: string,
+  executableName: string
+): Promise<string | null> {
+  const cacheDirectory = getCodecovCliCacheDirectory(toolsDirectory, version, platform);
+  const executablePath = path.join(cacheDirectory, executableName);
+  const checksumFilePath = path.join(cacheDirectory, `${executableName}.SHA256SUM`);
+
+  if (!fs.existsSync(`${cacheDirectory}.complete`) || !fs.existsSync(executablePath)) {
+    logger.debug(`No cached Codecov CLI found in ${cacheDirectory}`);
+    return null;
+  }
+
+  try {
+    await verifyFileChecksum(executablePath, checksumFilePath, logger.info.bind(logger));
+  } catch (error) {
+    logger.warn(
+      `Cached Codecov CLI in ${cacheDirectory} failed verification and will be replaced: ${error instanceof Error ? error.message : String(error)}`
+    );
+    await removeCacheEntry(cacheDirectory);
+    return null;
+  }
+
+  return executablePath;
+}
+
+/**
+ * Adds a verified Codecov CLI to the agent tool cache
+ * @param toolsDirectory The agent tool cache directory (Agent.ToolsDirectory)
+ * @param version The Codecov CLI version
+ * @param platform The Codecov CLI platform
+ * @param executablePath Path to the verified Codecov CLI executable
+ * @param checksumFilePath Path to the verified SHA256SUM file of the executable
+ * @returns The path of the cached executable
+ */
+export async function cacheCodecovCli(
+  toolsDirectory: string,
+  version: string,
+  platform: string,
+  executablePath: string,
+  checksumFilePath: string
+): Promise<string> {
+  const cacheDirectory = getCodecovCliCacheDirectory(toolsDirectory, version, platform);
+  const executableName = path.basename(executablePath);
+  const cachedExecutablePath = path.join(cacheDirectory, executableName);
+
+  logger.info(`Caching Codecov CLI ${version} in ${cacheDirectory}`);
+
+  // Remove any stale or partial entry before populating it again
+  await removeCacheEntry(cacheDirectory);
+  await fsPromises.mkdir(cacheDirectory, { recursive: true });
+  await fsPromises.copyFile(executablePath, cachedExecutablePath);
+  await fsPromises.chmod(cachedExecutablePath, 0o755);
+  await fsPromises.copyFile(
+    checksumFilePath,
+    path.join(cacheDirectory, `${executableName}.SHA256SUM`)
+  );
+  // Write the marker last so an interrupted copy is never treated as a valid cache entry
+  await fsPromises.writeFile(`${cacheDirectory}.complete`, '');
+
+  return cachedExecutablePath;
+}
+
+/**
+ * Removes a cache entry and its completion marker
+ * @param cacheDirectory The cache directory to remove
+ */
+async function removeCacheEntry(cacheDirectory: string): Promise<void> {
+  await fsPromises.rm(`${cacheDirectory}.complete`, { force: true });
+  await fsPromises.rm(cacheDirectory, { recursive: true, force: true });
+}
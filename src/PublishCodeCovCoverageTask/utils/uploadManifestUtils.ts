@@ -0,0 +1,212 @@
+import * as tl from 'azure-pipelines-task-lib/task';
+import { promises as fsPromises } from 'node:fs';
+import * as path from 'node:path';
+import { calculateFileHashStreaming } from './fileUtils';
+import logger from './logger';
+
+/**
+ * @module uploadManifestUtils
+ *
+ * Records which coverage reports were sent to Codecov. The manifest lists the size and SHA-256
+ * checksum of every report, so an auditor can later prove exactly which files were uploaded. It is
+ * published as a pipeline artifact and summarized on the build summary page.
+ */
+
+/**
+ * File name of the upload manifest
+ */
+export const UPLOAD_MANIFEST_FILE_NAME = 'codecov-upload-manifest.json';
+
+/**
+ * Task variable listing the artifact names used by earlier instances of the task in the job
+ */
+const PUBLISHED_ARTIFACTS_VARIABLE = 'CODECOV_PUBLISHED_ARTIFACTS';
+
+/**
+ * A coverage report listed in the upload manifest
+ */
+export interface UploadManifestFile {
+  /** Absolute path of the report on the agent */
+  path: string;
+  /** Size of the report in bytes */
+  size: number;
+  /** SHA-256 checksum of the report as lowercase hex */
+  sha256: string;
+}
+
+/**
+ * The coverage reports sent to Codecov by one run of the task
+ */
+export interface UploadManifest {
+  /** Time the manifest was created, as an ISO 8601 string */
+  createdAt: string;
+  /** Version of the Codecov CLI that uploaded the reports */
+  cliVersion: string;
+  /** True if the CLI ran with --dry-run, so nothing was sent */
+  dryRun: boolean;
+  /**
+   * True if the CLI searched a folder for the reports itself. The files are then found by the task
+   * with a copy of the search patterns of the CLI, so they are an estimate of what was uploaded.
+   */
+  estimated: boolean;
+  /** The reports, in the order they were given */
+  files: UploadManifestFile[];
+}
+
+/**
+ * Calculates the size and SHA-256 checksum of every coverage report
+ * @param filePaths Paths of the reports
+ * @param details Details of the upload recorded in the manifest
+ * @param details.cliVersion Version of the Codecov CLI that uploads the reports
+ * @param details.dryRun True if the CLI runs with --dry-run
+ * @param details.estimated True if the CLI searches a folder for the reports itself
+ * @returns The manifest
+ * @throws Error if a report cannot be read
+ */
+export async function createUploadManifest(
+  filePaths: string[],
+  details: { cliVersion: string; dryRun: boolean; estimated: boolean }
+): Promise<UploadManifest> {
+  const files = await Promise.all(
+    filePaths.map(async (filePath): Promise<UploadManifestFile> => {
+      const absolutePath = path.resolve(filePath);
+      try {
+        const stats = await fsPromises.stat(absolutePath);
+        const sha256 = await calculateFileHashStreaming(absolutePath, 'sha256');
+        return { path: absolutePath, size: stats.size, sha256 };
+      } catch (error) {
+        throw new Error(
+          `Failed to record coverage file ${absolutePath} in the upload manifest: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    })
+  );
+
+  return {
+    createdAt: new Date().toISOString(),
+    cliVersion: details.cliVersion,
+    dryRun: details.dryRun,
+    estimated: details.estimated,
+    files,
+  };
+}
+
+/**
+ * Makes the name of a pipeline artifact unique in the run
+ *
+ * Artifact names must be unique in a run. Matrix jobs, retried jobs and several instances of the
+ * task in one job would otherwise publish the same name twice and fail. The job ID and attempt are
+ * appended, and a running number when an earlier instance of the task in the same job already used
+ * the name.
+ *
+ * @param name The artifact name given by the user
+ * @returns The unique name, such as codecov-upload-manifest-<job ID>-1
+ */
+export function getUniqueArtifactName(name: string): string {
+  const job = [tl.getVariable('System.JobId'), tl.getVariable('System.JobAttempt')]
+    .filter(Boolean)
+    .join('-');
+  const baseName = job ? `${name}-${job}` : name;
+  const published = (tl.getVariable(PUBLISHED_ARTIFACTS_VARIABLE) ?? '').split(',').filter(Boolean);
+  let uniqueName = baseName;
+  for (let index = 2; published.includes(uniqueName); index++) {
+    uniqueName = `${baseName}-${index}`;
+  }
+  tl.setVariable(PUBLISHED_ARTIFACTS_VARIABLE, [...published, uniqueName].join(','));
+  return uniqueName;
+}
+
+/**
+ * Writes the manifest as JSON and publishes it
+ *
+ * The manifest is uploaded as a pipeline artifact, and a Markdown summary listing every report
+ * with a link to the artifact is added to the build summary page.
+ *
+ * @param manifest The manifest to publish
+ * @param directory Folder the manifest and its summary are written to. Every artifact gets its own
+ * subfolder, so a later instance of the task does not overwrite a manifest being uploaded.
+ * @param artifactName Name of the pipeline artifact, which is made unique in the run
+ * @returns The path of the manifest
+ */
+export async function publishUploadManifest(
+  manifest: UploadManifest,
+  directory: string,
+  artifactName: string
+): Promise<string> {
+  const uniqueArtifactName = getUniqueArtifactName(artifactName);
+  const artifactDirectory = path.join(directory, uniqueArtifactName);
+  await fsPromises.mkdir(artifactDirectory, { recursive: true });
+  const manifestPath = path.join(artifactDirectory, UPLOAD_MANIFEST_FILE_NAME);
+  await fsPromises.writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+  logger.info(
+    `Recorded ${manifest.files.length} coverage file(s) in the upload manifest ${manifestPath}`
+  );
+
+  tl.uploadArtifact(uniqueArtifactName, manifestPath, uniqueArtifactName);
+
+  const summaryPath = path.join(artifactDirectory, 'codecov-upload-manifest.md');
+  await fsPromises.writeFile(
+    summaryPath,
+    formatUploadManifestSummary(manifest, uniqueArtifactName, getArtifactsUrl()),
+    'utf8'
+  );
+  tl.uploadSummary(summaryPath);
+
+  return manifestPath;
+}
+
+/**
+ * Formats the Markdown summary of a manifest for the build summary page
+ * @param manifest The manifest
+ * @param artifactName Name of the pipeline artifact holding the manifest
+ * @param artifactsUrl URL of the artifacts of the build, or null if it is not known
+ * @returns The Markdown summary
+ */
+export function formatUploadManifestSummary(
+  manifest: UploadManifest,
+  artifactName: string,
+  artifactsUrl: string | null
+): string {
+  const artifact = artifactsUrl ? `[${artifactName}](${artifactsUrl})` : `\`${artifactName}\``;
+  const lines = [
+    '### Codecov upload manifest',
+    '',
+    `${manifest.files.length} coverage file(s) ${manifest.dryRun ? 'were found for a dry run of' : 'were uploaded with'} Codecov CLI ${manifest.cliVersion}. The full manifest, \`${UPLOAD_MANIFEST_FILE_NAME}\`, is published in the ${artifact} artifact.`,
+    '',
+  ];
+  if (manifest.estimated) {
+    lines.push(
+      '> The Codecov CLI searched the folder for coverage files itself. This list is an estimate found with the same search patterns and may differ from the files the CLI uploaded. Set `coverageFileName` to upload an exact list.',
+      ''
+    );
+  }
+  if (manifest.files.length > 0) {
+    lines.push('| File | Size (bytes) | SHA-256 |', '| --- | ---: | --- |');
+    for (const file of manifest.files) {
+      lines.push(`| ${escapeMarkdownTableCell(file.path)} | ${file.size} | \`${file.sha256}\` |`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Builds the URL of the artifacts tab of the running build from the predefined variables
+ * @returns The URL, or null outside of a build
+ */
+function getArtifactsUrl(): string | null {
+  const collectionUri = tl.getVariable('System.CollectionUri');
+  const teamProject = tl.getVariable('System.TeamProject');
+  const buildId = tl.getVariable('Build.BuildId');
+  if (!collectionUri || !teamProject || !buildId) {
+    return null;
+  }
+  return `${collectionUri.replace(/\/?$/, '/')}${encodeURIComponent(teamProject)}/_build/results?buildId=${encodeURIComponent(buildId)}&view=artifacts&type=publishedArtifacts`;
+}
+
+/**
+ * Escapes the characters that would break a Markdown table cell
+ */
+export function escapeMarkdownTableCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+}
@@ -1,11 +1,79 @@
+import * as crypto from 'node:crypto';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import axios, { type AxiosResponse } from 'axios';
-import type { Stream } from 'node:stream';
+import axios, { type AxiosRequestConfig, type AxiosResponse } from 'axios';
+import type { Readable, Stream } from 'node:stream';
+import {
+  calculateFileHashStreaming,
+  formatHashAlgorithm,
+  parseIntegrity,
+  parseSha256,
+  updateHashFromFile,
+  type ExpectedHash,
+} from './fileUtils';
+import { getProxyRequestConfig } from './proxyUtils';
 import logger from './logger';
 
+/**
+ * Credentials sent with a request to an authenticated server, such as an internal mirror
+ * The credentials are only sent to their origin; requests to any other host, such as a public
+ * key server, are sent without them.
+ */
+export type DownloadAuth = (
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string }
+) & {
+  /** Scheme, host and port of the server the credentials belong to, e.g. https://mirror:8443 */
+  origin: string;
+};
+
+/**
+ * Progress of a download, reported through the onProgress option of downloadFile
+ */
+export interface DownloadProgress {
+  /** Number of bytes received so far, including bytes of a resumed partial file */
+  bytesReceived: number;
+  /** Size of the file, or null if the server did not send a Content-Length */
+  totalBytes: number | null;
+  /** Percentage downloaded, or null if the size is unknown */
+  percent: number | null;
+}
+
 /**
  * Downloads a file from a URL to a local destination
+ *
+ * The request uses the proxy and certificates configured for the agent, see proxyUtils.
+ *
+ * Transient failures are retried with exponential backoff when options.retries is greater than 0:
+ * 5xx responses, 429 responses with a Retry-After header, dropped connections (ECONNRESET)
+ * and timeouts. Any other failure, such as a 404 or a cancelled download, fails immediately.
+ * The partially downloaded file is removed before the next attempt, unless the download can be
+ * resumed.
+ *
+ * When options.resume is enabled and the server advertises 'Accept-Ranges: bytes' together with
+ * an ETag or Last-Modified validator, an interrupted download keeps its partial file and the
+ * validator is stored next to it in '<dest>.resume.json'. The next attempt, or a later call with
+ * the same URL and destination, continues with a Range request. The request is sent with If-Range,
+ * so the server only returns the remaining bytes if the file has not changed; if it has changed or
+ * the server ignores the range, the full file is downloaded again.
+ *
+ * When options.expectedSha256 or options.integrity is given, the file is hashed while it is
+ * downloaded. If the hash does not match, the download is rejected and the file is deleted, so
+ * it can never be used. An existing file is only kept with overwrite set to false when it has the
+ * expected hash.
+ *
+ * When options.revalidate is enabled, the ETag, Last-Modified date and final URL of a completed
+ * download are stored in '<dest>.metadata.json'. A later call for the same URL and destination
+ * sends If-None-Match and If-Modified-Since, and keeps the existing file when the server answers
+ * 304 Not Modified. An existing file that has an expected hash is kept without a request.
+ *
+ * options.maxBytes and options.expectedContentTypes guard against a server that sends something
+ * else than the file, such as an HTML error page with status 200. The download is aborted as soon
+ * as the Content-Length or the number of bytes received exceeds the limit, and the file is deleted.
+ *
+ * options.timeout only covers the time until the response starts. A download that stops receiving
+ * data for options.stallTimeoutMs is aborted and retried like a dropped connection.
+ *
  * @param url The URL to download from
  * @param dest The local file path to save the downloaded file
  * @param options Additional options for the download
@@ -15,40 +83,239 @@ import logger from './logger';
  * @param options.onProgress Optional callback for progress updates with { bytesReceived, totalBytes, percent }
  * @param options.overwrite Whether to overwrite the destination file if it already exists (default: true)
  * @param options.progressThrottleMs Throttle interval in milliseconds for progress updates (default: 200)
+ * @param options.auth Optional basic or bearer credentials, only sent to their own origin
+ * @param options.retries Number of times a transient failure is retried (default: 0)
+ * @param options.retryDelayMs Delay in milliseconds before the first retry, doubled for every
+ * following retry (default: 1000)
+ * @param options.maxRetryDelayMs Upper limit in milliseconds for the delay between retries,
+ * including a delay requested with Retry-After (default: 30000)
+ * @param options.retryJitter Whether to randomize each delay between half and the full
+ * value so that agents retrying at the same time do not hit the server together (default: true)
+ * @param options.resume Whether to resume an interrupted download with a Range request when the
+ * server supports it (default: true)
+ * @param options.revalidate Whether to keep an existing file that has not changed on the server,
+ * using a conditional request (default: false)
+ * @param options.stallTimeoutMs Time in milliseconds without receiving any data after which the
+ * download is aborted, 0 to wait indefinitely (default: 60000)
+ * @param options.maxBytesPerSecond Optional rate limit for the download, in bytes per second
+ * @param options.maxBytes Maximum size of the file in bytes; larger downloads are rejected
+ * @param options.expectedContentTypes Media types the server may send the file as, e.g.
+ * 'application/octet-stream' or 'text/*'. Parameters such as the charset are ignored
+ * @param options.expectedSha256 The SHA-256 digest the file must have, as hex
+ * @param options.integrity The digest the file must have as a Subresource Integrity string,
+ * e.g. 'sha512-<base64 digest>'. Cannot be combined with expectedSha256
  * @returns A promise that resolves when the download is complete
+ * @throws Error if the download fails or the file does not have the expected hash
  */
-export function downloadFile(
+export async function downloadFile(
   fileUrl: string,
   dest: string,
   options: {
     timeout?: number;
     maxRedirects?: number;
     signal?: AbortSignal;
-    onProgress?: (progress: {
-      bytesReceived: number;
-      totalBytes: number | null;
-      percent: number | null;
-    }) => void;
+    onProgress?: (progress: DownloadProgress) => void;
     overwrite?: boolean;
     progressThrottleMs?: number;
+    auth?: DownloadAuth;
+    retries?: number;
+    retryDelayMs?: number;
+    maxRetryDelayMs?: number;
+    retryJitter?: boolean;
+    resume?: boolean;
+    revalidate?: boolean;
+    stallTimeoutMs?: number;
+    maxBytesPerSecond?: number;
+    maxBytes?: number;
+    expectedContentTypes?: string[];
+    expectedSha256?: string;
+    integrity?: string;
   } = {}
 ): Promise<void> {
-  logger.info(`Downloading ${fileUrl} to ${dest}`);
+  const expectedHash = getExpectedHash(options);
+  if (
+    options.maxBytes !== undefined &&
+    (!Number.isSafeInteger(options.maxBytes) || options.maxBytes <= 0)
+  ) {
+    throw new Error(`Invalid maxBytes value '${options.maxBytes}'. Expected a positive integer`);
+  }
+  if (
+    options.maxBytesPerSecond !== undefined &&
+    (!Number.isFinite(options.maxBytesPerSecond) || options.maxBytesPerSecond <= 0)
+  ) {
+    throw new Error(
+      `Invalid maxBytesPerSecond value '${options.maxBytesPerSecond}'. Expected a positive number`
+    );
+  }
+  if (
+    options.stallTimeoutMs !== undefined &&
+    (!Number.isFinite(options.stallTimeoutMs) || options.stallTimeoutMs < 0)
+  ) {
+    throw new Error(
+      `Invalid stallTimeoutMs value '${options.stallTimeoutMs}'. Expected a non-negative number`
+    );
+  }
+  const maxAttempts = Math.max(0, Math.floor(options.retries ?? 0)) + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    if (maxAttempts > 1) {
+      logger.info(`Downloading ${fileUrl} to ${dest} (attempt ${attempt} of ${maxAttempts})`);
+    } else {
+      logger.info(`Downloading ${fileUrl} to ${dest}`);
+    }
+
+    try {
+      await downloadFileOnce(fileUrl, dest, options, expectedHash);
+      return;
+    } catch (error) {
+      if (!(error instanceof TransientDownloadError) || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelayMs(attempt, error.retryAfterMs, options);
+      logger.warn(
+        `Attempt ${attempt} of ${maxAttempts} to download ${fileUrl} failed: ${error.message}. Retrying in ${delayMs}ms`
+      );
+      await waitBeforeRetry(delayMs, fileUrl, options.signal);
+    }
+  }
+}
+
+/**
+ * Gets the hash a download must have from the options of downloadFile
+ * @param options The integrity options of downloadFile
+ * @returns The expected hash, or null if the download is not verified
+ * @throws Error if both options are given or a value is invalid
+ */
+function getExpectedHash(options: {
+  expectedSha256?: string;
+  integrity?: string;
+}): ExpectedHash | null {
+  if (options.expectedSha256 && options.integrity) {
+    throw new Error('Specify either expectedSha256 or integrity, not both');
+  }
+  if (options.integrity) {
+    return parseIntegrity(options.integrity);
+  }
+  return options.expectedSha256 ? parseSha256(options.expectedSha256) : null;
+}
+
+/**
+ * Error for a failed download attempt that may succeed when it is retried
+ */
+class TransientDownloadError extends Error {
+  /**
+   * @param message The error message
+   * @param retryAfterMs Delay in milliseconds requested by the server with Retry-After, if any
+   */
+  constructor(
+    message: string,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'TransientDownloadError';
+  }
+}
+
+/**
+ * Error codes of network failures that are worth retrying
+ */
+const TRANSIENT_ERROR_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED']);
+
+/**
+ * Calculates the delay before the next attempt using exponential backoff
+ * A delay requested by the server with Retry-After takes precedence over the backoff
+ * @param attempt The attempt that failed, starting at 1
+ * @param retryAfterMs Delay requested by the server, if any
+ * @param options The retry options of downloadFile
+ * @returns The delay in milliseconds
+ */
+function getRetryDelayMs(
+  attempt: number,
+  retryAfterMs: number | null,
+  options: { retryDelayMs?: number; maxRetryDelayMs?: number; retryJitter?: boolean }
+): number {
+  const maxDelayMs = options.maxRetryDelayMs ?? 30000;
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+
+  const delayMs = Math.min((options.retryDelayMs ?? 1000) * 2 ** (attempt - 1), maxDelayMs);
+  if (options.retryJitter === false) {
+    return delayMs;
+  }
+  return Math.round(delayMs / 2 + Math.random() * (delayMs / 2));
+}
+
+/**
+ * Waits before the next download attempt, stopping early when the download is cancelled
+ * @param delayMs The delay in milliseconds
+ * @param fileUrl The URL being downloaded, used in the error message
+ * @param signal AbortSignal to allow manual cancellation of the download
+ * @returns A promise that resolves after the delay
+ */
+function waitBeforeRetry(delayMs: number, fileUrl: string, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(`Download aborted by user: ${fileUrl}`));
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new Error(`Download aborted by user: ${fileUrl}`));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Makes a single attempt to download a file from a URL to a local destination
+ * Transient failures are rejected with a TransientDownloadError so downloadFile can retry them
+ * @param url The URL to download from
+ * @param dest The local file path to save the downloaded file
+ * @param options Additional options for the download (see downloadFile)
+ * @param expectedHash The hash the file must have, or null if it is not verified
+ * @returns A promise that resolves when the download is complete
+ */
+function downloadFileOnce(
+  fileUrl: string,
+  dest: string,
+  options: {
+    timeout?: number;
+    maxRedirects?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: DownloadProgress) => void;
+    overwrite?: boolean;
+    progressThrottleMs?: number;
+    auth?: DownloadAuth;
+    resume?: boolean;
+    revalidate?: boolean;
+    stallTimeoutMs?: number;
+    maxBytesPerSecond?: number;
+    maxBytes?: number;
+    expectedContentTypes?: string[];
+  },
+  expectedHash: ExpectedHash | null
+): Promise<void> {
   return new Promise<void>((resolve, reject) => {
     // Create an abort controller for the axios request
     const controller = new AbortController();
     // Use the provided signal or our controller's signal
     const signal = options.signal ?? controller.signal;
 
-    // Check if the destination file already exists
-    if (fs.existsSync(dest)) {
-      // By default overwrite is true unless explicitly set to false
-      if (options.overwrite === false) {
-        logger.info(`File already exists at '${dest}' and overwrite is false, skipping download`);
-        return resolve();
-      }
-      logger.info(`File already exists at '${dest}', will be overwritten`);
-    }
+    // Continue a previously interrupted download if its partial file can be resumed
+    let resumeState = options.resume === false ? null : readResumeState(fileUrl, dest);
+    const resumeFrom = resumeState ? fs.statSync(dest).size : 0;
+
+    // Hash of the file while it is downloaded, when the file has to be verified
+    let hashSum = expectedHash ? crypto.createHash(expectedHash.algorithm) : null;
+
+    // Validators of an existing file that is only downloaded again if it changed on the server
+    let cachedMetadata: DownloadMetadata | null = null;
 
     // Ensure parent directory exists
     const parentDir = path.dirname(dest);
@@ -56,27 +323,29 @@ export function downloadFile(
     // Flags to track if cleanup has already been performed and if file is closed
     let cleanupPerformed = false;
     let fileIsClosed = false;
-    let file: fs.WriteStream;
-    // Use asynchronous directory creation to avoid blocking the event loop
-    fs.promises
-      .mkdir(parentDir, { recursive: true })
-      .then(() => {
-        // Create the file stream after the directory is successfully created
-        file = fs.createWriteStream(dest);
-
-        // Continue with the axios request after directory is created
-        setupAxiosRequest();
-      })
-      .catch((err) => {
-        return reject(
-          new Error(`Failed to create directory '${parentDir}': ${(err as Error).message}`)
-        );
-      });
+    let file: fs.WriteStream | undefined;
+
+    // Opens the destination file. A resumed download appends to the partial file. The metadata
+    // of a previous download no longer applies once the file is written
+    const openFile = (): fs.WriteStream => {
+      removeDownloadMetadata(dest);
+      file =
+        resumeFrom > 0 ? fs.createWriteStream(dest, { flags: 'a' }) : fs.createWriteStream(dest);
+      return file;
+    };
 
     // Define the function to set up the axios request
     const setupAxiosRequest = (): void => {
       // Setup axios config
 
+      // Timers of the stall detection and the rate limit, stopped when the download ends
+      let stallTimer: NodeJS.Timeout | undefined;
+      let throttleTimer: NodeJS.Timeout | undefined;
+      const stopTimers = (): void => {
+        clearTimeout(stallTimer);
+        clearTimeout(throttleTimer);
+      };
+
       // Function to clean up on error
       const cleanup = (error: Error, response?: AxiosResponse<unknown>): void => {
         // Guard against multiple executions
@@ -86,6 +355,7 @@ export function downloadFile(
 
         // Mark cleanup as performed
         cleanupPerformed = true;
+        stopTimers();
 
         // Abort the request if it's still in progress
         if (!signal.aborted) {
@@ -115,9 +385,17 @@ export function downloadFile(
           }
         }
 
-        // Close the file if not already closed and wait for it to complete before accessing/deleting the file
-        if (fileIsClosed) {
-          // File already closed, proceed with cleanup
+        // Keep the partial file of an interrupted download that can be resumed, so the next
+        // attempt can continue where this one stopped
+        const removePartialFile = (): void => {
+          if (error instanceof TransientDownloadError && resumeState) {
+            logger.info(`Keeping partial download '${dest}' so it can be resumed`);
+            reject(error);
+            return;
+          }
+          removeResumeState(dest);
+
+          // Check if file exists before trying to delete it
           fs.access(dest, fs.constants.F_OK, (accessErr) => {
             if (accessErr) {
               // File doesn't exist, just reject with the original error
@@ -134,30 +412,39 @@ export function downloadFile(
               });
             }
           });
+        };
+
+        // The file is not opened before the response to a conditional request, so a failed
+        // request leaves the existing file untouched
+        if (!file) {
+          reject(error);
+          return;
+        }
+
+        // Close the file if not already closed and wait for it to complete before accessing/deleting the file
+        if (fileIsClosed) {
+          removePartialFile();
         } else {
           fileIsClosed = true;
-          file.close(() => {
-            // Check if file exists before trying to delete it
-            fs.access(dest, fs.constants.F_OK, (accessErr) => {
-              if (accessErr) {
-                // File doesn't exist, just reject with the original error
-                reject(error);
-              } else {
-                // File exists, try to delete it
-                fs.unlink(dest, (unlinkErr) => {
-                  if (unlinkErr) {
-                    logger.warn(
-                      `Warning: Failed to clean up temporary file '${dest}': ${unlinkErr.message}`
-                    );
-                  }
-                  reject(error);
-                });
-              }
-            });
-          });
+          file.close(() => removePartialFile());
         }
       };
 
+      // Request only the missing bytes of a resumed download. With If-Range the server sends
+      // the full file instead if it changed since the partial file was downloaded
+      const authConfig = getAuthConfig(fileUrl, options.auth);
+      const headers: Record<string, string> = {
+        ...(authConfig.headers as Record<string, string> | undefined),
+        ...(resumeState && resumeFrom > 0
+          ? { Range: `bytes=${resumeFrom}-`, 'If-Range': resumeState.validator }
+          : {}),
+        // Only download the file again if it changed since it was downloaded
+        ...(cachedMetadata?.etag ? { 'If-None-Match': cachedMetadata.etag } : {}),
+        ...(cachedMetadata?.lastModified
+          ? { 'If-Modified-Since': cachedMetadata.lastModified }
+          : {}),
+      };
+
       // Setup axios config
       axios({
         method: 'GET',
@@ -167,15 +454,99 @@ export function downloadFile(
         maxRedirects: options.maxRedirects ?? 5,
         signal: signal,
         validateStatus: () => true, // Don't throw on any status code
+        ...getProxyRequestConfig(fileUrl),
+        ...authConfig,
+        ...(Object.keys(headers).length > 0 ? { headers } : {}),
       })
         .then((response) => {
+          // The existing file is still current
+          if (response.status === 304 && cachedMetadata) {
+            cleanupPerformed = true;
+            (response.data as { destroy?: () => void } | undefined)?.destroy?.();
+            logger.info(`${fileUrl} has not changed since it was downloaded, keeping '${dest}'`);
+            resolve();
+            return;
+          }
+
           // Handle non-success status codes
           if (response.status < 200 || response.status >= 300) {
-            return cleanup(new Error(`Failed to get '${fileUrl}' (${response.status})`), response);
+            const message = `Failed to get '${fileUrl}' (${response.status})`;
+            if (response.status >= 500) {
+              return cleanup(new TransientDownloadError(message), response);
+            }
+            const retryAfterMs =
+              response.status === 429 ? getRetryAfterMs(response.headers ?? {}) : null;
+            if (response.status === 416 && resumeFrom > 0) {
+              // The partial file no longer matches the file on the server, start over
+              resumeState = null;
+              return cleanup(new TransientDownloadError(message, 0), response);
+            }
+            if (retryAfterMs !== null) {
+              return cleanup(new TransientDownloadError(message, retryAfterMs), response);
+            }
+            return cleanup(new Error(message), response);
+          }
+
+          // Reject a response that is not the file, such as an HTML error page
+          if (options.expectedContentTypes && options.expectedContentTypes.length > 0) {
+            const contentType: unknown = response.headers['content-type'];
+            if (!isExpectedContentType(contentType, options.expectedContentTypes)) {
+              return cleanup(
+                new Error(
+                  `Unexpected content type '${typeof contentType === 'string' ? contentType : ''}' for '${fileUrl}'. Expected ${options.expectedContentTypes.join(', ')}`
+                ),
+                response
+              );
+            }
+          }
+
+          // A 206 continues the partial file, any other success status means the server sent
+          // the full file, so the partial file is discarded
+          const resumed = resumeFrom > 0 && response.status === 206;
+          if (resumeFrom > 0 && !resumed) {
+            logger.info(
+              `Server did not resume the download of ${fileUrl}, downloading the full file`
+            );
+            fs.truncateSync(dest, 0);
+            hashSum = expectedHash ? crypto.createHash(expectedHash.algorithm) : null;
+          }
+          if (resumed) {
+            const contentRangeStart = getContentRangeStart(response.headers);
+            if (contentRangeStart !== resumeFrom) {
+              resumeState = null;
+              return cleanup(
+                new TransientDownloadError(
+                  `Server resumed the download of '${fileUrl}' at an unexpected position`,
+                  0
+                ),
+                response
+              );
+            }
+          }
+
+          // Remember how to resume this download if it is interrupted
+          resumeState = options.resume === false ? null : getResumeState(fileUrl, response.headers);
+          if (resumeState) {
+            writeResumeState(dest, resumeState);
+          } else {
+            removeResumeState(dest);
           }
 
-          // Get total size from headers
-          const totalBytes = getNumericHeader(response.headers, 'content-length');
+          // Get total size from headers. The size of a resumed download includes the bytes on disk
+          const contentLength = getNumericHeader(response.headers, 'content-length');
+          const totalBytes =
+            resumed && contentLength !== null ? contentLength + resumeFrom : contentLength;
+
+          // Reject a file that is too large before any of it is written
+          const { maxBytes } = options;
+          if (maxBytes !== undefined && totalBytes !== null && totalBytes > maxBytes) {
+            return cleanup(
+              new Error(
+                `Download of '${fileUrl}' is ${totalBytes} bytes, which exceeds the limit of ${maxBytes} bytes`
+              ),
+              response
+            );
+          }
 
           if (options.onProgress) {
             if (totalBytes !== null && totalBytes > 0) {
@@ -186,7 +557,7 @@ export function downloadFile(
           }
 
           // Setup progress tracking manually since onDownloadProgress doesn't work with streams
-          let bytesReceived = 0;
+          let bytesReceived = resumed ? resumeFrom : 0;
           let lastReportedPercent: number | null = null;
           const progressThrottleMs = options.progressThrottleMs ?? 200;
           let lastProgressTime = Date.now();
@@ -224,48 +595,168 @@ export function downloadFile(
             });
           }
 
+          // Validators stored once the download is complete
+          const metadata = options.revalidate ? getDownloadMetadata(fileUrl, response) : null;
+          const output = file ?? openFile();
+
+          // The Content-Length may be missing or wrong, so the bytes received are counted as well
+          if (maxBytes !== undefined) {
+            let receivedBytes = resumed ? resumeFrom : 0;
+            (response.data as Stream).on('data', (chunk: Buffer) => {
+              receivedBytes += chunk.length;
+              if (receivedBytes > maxBytes) {
+                cleanup(
+                  new Error(`Download of '${fileUrl}' exceeded the limit of ${maxBytes} bytes`),
+                  response
+                );
+              }
+            });
+          }
+
+          // Abort a download that stops receiving data. The request timeout only covers the
+          // time until the response starts
+          const data = response.data as Readable;
+          const stallTimeoutMs = options.stallTimeoutMs ?? 60000;
+          const restartStallTimer = (): void => {
+            clearTimeout(stallTimer);
+            if (stallTimeoutMs > 0) {
+              stallTimer = setTimeout(() => {
+                cleanup(
+                  new TransientDownloadError(
+                    `Download of '${fileUrl}' stalled: no data received for ${stallTimeoutMs}ms`
+                  ),
+                  response
+                );
+              }, stallTimeoutMs);
+              // The open connection keeps the process alive, the timer only guards it
+              stallTimer.unref();
+            }
+          };
+          data.on('data', restartStallTimer);
+          // A throttled download still has to write the last data once the response ended
+          data.on('end', () => clearTimeout(stallTimer));
+
+          // Hash the file while it is downloaded
+          if (hashSum) {
+            const downloadHash = hashSum;
+            (response.data as Stream).on('data', (chunk: Buffer) => {
+              downloadHash.update(chunk);
+            });
+          }
+
           // Pipe response to file
-          (response.data as Stream).pipe(file);
+          (response.data as Stream).pipe(output);
+          restartStallTimer();
+
+          // Pause the response while the download is ahead of the rate limit. The response is
+          // unpiped while it is paused, since the pipe resumes it as soon as the file drains.
+          // The stall timer does not run while the download is paused on purpose
+          const { maxBytesPerSecond } = options;
+          if (maxBytesPerSecond !== undefined) {
+            const throttleStart = Date.now();
+            let throttledBytes = 0;
+            data.on('data', (chunk: Buffer) => {
+              throttledBytes += chunk.length;
+              const delayMs =
+                (throttledBytes / maxBytesPerSecond) * 1000 - (Date.now() - throttleStart);
+              if (delayMs > 0 && !cleanupPerformed) {
+                data.unpipe(output);
+                data.pause();
+                clearTimeout(stallTimer);
+                clearTimeout(throttleTimer);
+                throttleTimer = setTimeout(() => {
+                  if (cleanupPerformed) {
+                    return;
+                  }
+                  restartStallTimer();
+                  if (data.readableEnded) {
+                    output.end();
+                  } else {
+                    data.pipe(output);
+                  }
+                }, delayMs);
+              }
+            });
+          }
+
+          // Verify the hash of the complete file and resolve the promise
+          const complete = (): void => {
+            stopTimers();
+            if (hashSum && expectedHash) {
+              const algorithm = formatHashAlgorithm(expectedHash.algorithm);
+              const actualHash = hashSum.digest('hex');
+              if (actualHash !== expectedHash.digest) {
+                // The file is deleted together with its resume state, it must never be used
+                return cleanup(
+                  new Error(
+                    `${algorithm} checksum verification failed for ${fileUrl}:\nExpected: ${expectedHash.digest}\nActual: ${actualHash}`
+                  ),
+                  response
+                );
+              }
+              logger.info(`${algorithm} checksum verified for ${fileUrl}`);
+            }
+            removeResumeState(dest);
+            if (metadata) {
+              writeDownloadMetadata(dest, metadata);
+            }
+            logger.info(`Downloaded ${fileUrl} successfully`);
+            resolve();
+          };
 
           // Handle file events
-          file.on('finish', () => {
+          output.on('finish', () => {
+            // Closing the file during cleanup also emits 'finish', which must not be
+            // reported as a successful download
+            if (cleanupPerformed) {
+              return;
+            }
+
             // Only close the file if it hasn't been closed already
             if (fileIsClosed) {
-              logger.info(`Downloaded ${fileUrl} successfully`);
-              resolve();
+              complete();
               return;
             }
 
             fileIsClosed = true;
 
             // Close the file and resolve the promise
-            file.close((err) => {
+            output.close((err) => {
               if (err) {
                 return cleanup(err, response);
               }
-              logger.info(`Downloaded ${fileUrl} successfully`);
-              resolve();
+              complete();
             });
           });
 
-          file.on('error', (err: Error) => {
+          output.on('error', (err: Error) => {
             cleanup(err, response);
           });
 
-          // Handle stream errors
+          // Handle stream errors, such as the connection dropping mid-download
           (response.data as Stream).on('error', (err: Error) => {
-            cleanup(err, response);
+            cleanup(
+              isTransientNetworkError(err) ? new TransientDownloadError(err.message) : err,
+              response
+            );
           });
         })
         .catch((error: unknown) => {
           // Handle axios errors (network issues, timeout, etc.)
           if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
             cleanup(
-              new Error(`Request timed out after ${options.timeout ?? 30000}ms: ${fileUrl}`),
+              new TransientDownloadError(
+                `Request timed out after ${options.timeout ?? 30000}ms: ${fileUrl}`
+              ),
               error.response
             );
           } else if (axios.isCancel(error)) {
             cleanup(new Error(`Download aborted by user: ${fileUrl}`));
+          } else if (isTransientNetworkError(error)) {
+            cleanup(
+              new TransientDownloadError(String((error as { message?: unknown }).message)),
+              axios.isAxiosError(error) ? error.response : undefined
+            );
           } else {
             cleanup(
               error instanceof Error ? error : new Error(String(error)),
@@ -274,9 +765,344 @@ export function downloadFile(
           }
         });
     };
+
+    // Define the function that creates the file and starts the request
+    const startDownload = (): void => {
+      // Use asynchronous directory creation to avoid blocking the event loop
+      fs.promises
+        .mkdir(parentDir, { recursive: true })
+        .then(() => {
+          // Create the file stream after the directory is successfully created. The response
+          // to a conditional request may keep the existing file, so it is opened later
+          if (!cachedMetadata) {
+            openFile();
+          }
+
+          // Continue with the axios request after directory is created
+          setupAxiosRequest();
+        })
+        .catch((err) => {
+          return reject(
+            new Error(`Failed to create directory '${parentDir}': ${(err as Error).message}`)
+          );
+        });
+    };
+
+    // Check if the destination file already exists
+    if (resumeFrom > 0) {
+      logger.info(`Resuming download of ${fileUrl} from byte ${resumeFrom}`);
+      if (hashSum) {
+        // Continue the hash with the bytes already on disk
+        updateHashFromFile(hashSum, dest).then(startDownload, reject);
+        return;
+      }
+    } else if (fs.existsSync(dest)) {
+      // By default overwrite is true unless explicitly set to false
+      // A file with resume state is incomplete and is never kept as it is
+      cachedMetadata =
+        options.revalidate && !resumeState && !expectedHash
+          ? readDownloadMetadata(fileUrl, dest)
+          : null;
+      if (cachedMetadata) {
+        logger.info(`File already exists at '${dest}', checking whether ${fileUrl} has changed`);
+      } else if (
+        expectedHash &&
+        !resumeState &&
+        (options.overwrite === false || options.revalidate)
+      ) {
+        // An existing file is only kept if it has the expected hash
+        calculateFileHashStreaming(dest, expectedHash.algorithm)
+          .then((existingHash) => {
+            if (existingHash === expectedHash.digest) {
+              logger.info(
+                `File already exists at '${dest}' with the expected checksum and overwrite is false, skipping download`
+              );
+              resolve();
+              return;
+            }
+            logger.warn(
+              `File already exists at '${dest}' but does not have the expected checksum, will be overwritten`
+            );
+            startDownload();
+          })
+          .catch(reject);
+        return;
+      } else if (options.overwrite === false && !resumeState) {
+        logger.info(`File already exists at '${dest}' and overwrite is false, skipping download`);
+        return resolve();
+      } else {
+        logger.info(`File already exists at '${dest}', will be overwritten`);
+      }
+    }
+
+    startDownload();
+  });
+}
+
+/**
+ * Builds the axios configuration that sends the given credentials to a URL
+ * Returns an empty configuration when no credentials are given or the URL has another origin
+ */
+function getAuthConfig(
+  requestUrl: string,
+  auth?: DownloadAuth
+): Pick<AxiosRequestConfig, 'auth' | 'headers'> {
+  if (!auth || new URL(requestUrl).origin !== new URL(auth.origin).origin) {
+    return {};
+  }
+  if (auth.type === 'basic') {
+    return { auth: { username: auth.username, password: auth.password } };
+  }
+  if (auth.type === 'bearer') {
+    return { headers: { Authorization: `Bearer ${auth.token}` } };
+  }
+  return {};
+}
+
+/**
+ * What is needed to resume an interrupted download, stored next to the partial file
+ */
+interface ResumeState {
+  /** The URL the partial file was downloaded from */
+  url: string;
+  /** The strong ETag or the Last-Modified date of the file, sent with If-Range */
+  validator: string;
+}
+
+/**
+ * Gets the path of the file holding the resume state of a download
+ */
+function getResumeStatePath(dest: string): string {
+  return `${dest}.resume.json`;
+}
+
+/**
+ * Builds the resume state from the response headers
+ * Returns null if the server does not support range requests or sends no usable validator.
+ * A weak ETag cannot be used with If-Range, Last-Modified is used instead.
+ */
+function getResumeState(fileUrl: string, headers: Record<string, unknown>): ResumeState | null {
+  const acceptRanges = headers['accept-ranges'];
+  if (typeof acceptRanges !== 'string' || !acceptRanges.toLowerCase().includes('bytes')) {
+    return null;
+  }
+  const { etag } = headers;
+  if (typeof etag === 'string' && etag !== '' && !etag.startsWith('W/')) {
+    return { url: fileUrl, validator: etag };
+  }
+  const lastModified = headers['last-modified'];
+  if (typeof lastModified === 'string' && lastModified !== '') {
+    return { url: fileUrl, validator: lastModified };
+  }
+  return null;
+}
+
+/**
+ * Reads the resume state of a partial file
+ * Returns null if there is no partial file, no resume state, or the state belongs to another URL.
+ */
+function readResumeState(fileUrl: string, dest: string): ResumeState | null {
+  const statePath = getResumeStatePath(dest);
+  if (!fs.existsSync(dest) || !fs.existsSync(statePath)) {
+    return null;
+  }
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf8')) as Partial<ResumeState>;
+    if (state.url !== fileUrl || typeof state.validator !== 'string') {
+      return null;
+    }
+    return { url: state.url, validator: state.validator };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores the resume state of a download next to its destination file
+ */
+function writeResumeState(dest: string, state: ResumeState): void {
+  fs.writeFileSync(getResumeStatePath(dest), JSON.stringify(state));
+}
+
+/**
+ * Removes the resume state of a download, if any
+ */
+function removeResumeState(dest: string): void {
+  const statePath = getResumeStatePath(dest);
+  if (fs.existsSync(statePath)) {
+    fs.rmSync(statePath, { force: true });
+  }
+}
+
+/**
+ * Checks the Content-Type of a response against the expected media types
+ * Parameters such as the charset are ignored, and 'type/*' matches any subtype.
+ */
+function isExpectedContentType(contentType: unknown, expectedContentTypes: string[]): boolean {
+  if (typeof contentType !== 'string') {
+    return false;
+  }
+  const mediaType = (contentType.split(';')[0] ?? '').trim().toLowerCase();
+  return expectedContentTypes.some((expected) => {
+    const expectedType = expected.trim().toLowerCase();
+    return expectedType.endsWith('/*')
+      ? mediaType.startsWith(expectedType.slice(0, -1))
+      : mediaType === expectedType;
   });
 }
 
+/**
+ * Validators of a completed download, stored next to the downloaded file
+ */
+interface DownloadMetadata {
+  /** The URL the file was requested from */
+  url: string;
+  /** The URL the file was served from after following redirects */
+  finalUrl: string;
+  /** The ETag of the file, sent with If-None-Match */
+  etag?: string;
+  /** The Last-Modified date of the file, sent with If-Modified-Since */
+  lastModified?: string;
+  /** The size of the downloaded file in bytes */
+  size: number;
+}
+
+/**
+ * Gets the path of the file holding the metadata of a completed download
+ */
+function getDownloadMetadataPath(dest: string): string {
+  return `${dest}.metadata.json`;
+}
+
+/**
+ * Builds the metadata of a download from the response
+ * Returns null if the server sends neither an ETag nor a Last-Modified date. The size is filled
+ * in once the download is complete.
+ */
+function getDownloadMetadata(
+  fileUrl: string,
+  response: { headers: Record<string, unknown>; request?: unknown }
+): DownloadMetadata | null {
+  const { etag } = response.headers;
+  const lastModified = response.headers['last-modified'];
+  if (
+    (typeof etag !== 'string' || etag === '') &&
+    (typeof lastModified !== 'string' || lastModified === '')
+  ) {
+    return null;
+  }
+  // The Node.js adapter of axios exposes the URL after redirects on the underlying response
+  const finalUrl = (response.request as { res?: { responseUrl?: string } } | undefined)?.res
+    ?.responseUrl;
+  return {
+    url: fileUrl,
+    finalUrl: finalUrl ?? fileUrl,
+    ...(typeof etag === 'string' && etag !== '' ? { etag } : {}),
+    ...(typeof lastModified === 'string' && lastModified !== '' ? { lastModified } : {}),
+    size: 0,
+  };
+}
+
+/**
+ * Reads the metadata of a completed download
+ * Returns null if there is no metadata, the metadata belongs to another URL, or the file on disk
+ * no longer has the size that was downloaded.
+ */
+function readDownloadMetadata(fileUrl: string, dest: string): DownloadMetadata | null {
+  const metadataPath = getDownloadMetadataPath(dest);
+  if (!fs.existsSync(metadataPath)) {
+    return null;
+  }
+  try {
+    const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf8')) as Partial<DownloadMetadata>;
+    if (
+      metadata.url !== fileUrl ||
+      typeof metadata.size !== 'number' ||
+      fs.statSync(dest).size !== metadata.size ||
+      (typeof metadata.etag !== 'string' && typeof metadata.lastModified !== 'string')
+    ) {
+      return null;
+    }
+    return {
+      url: metadata.url,
+      finalUrl: typeof metadata.finalUrl === 'string' ? metadata.finalUrl : metadata.url,
+      ...(typeof metadata.etag === 'string' ? { etag: metadata.etag } : {}),
+      ...(typeof metadata.lastModified === 'string' ? { lastModified: metadata.lastModified } : {}),
+      size: metadata.size,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores the metadata of a completed download next to its destination file
+ * Failing to store the metadata only means the file is downloaded again next time.
+ */
+function writeDownloadMetadata(dest: string, metadata: DownloadMetadata): void {
+  try {
+    fs.writeFileSync(
+      getDownloadMetadataPath(dest),
+      JSON.stringify({ ...metadata, size: fs.statSync(dest).size })
+    );
+  } catch (error) {
+    logger.debug(
+      `Failed to store the download metadata of '${dest}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Removes the metadata of a download, if any
+ */
+function removeDownloadMetadata(dest: string): void {
+  const metadataPath = getDownloadMetadataPath(dest);
+  if (fs.existsSync(metadataPath)) {
+    fs.rmSync(metadataPath, { force: true });
+  }
+}
+
+/**
+ * Parses the first byte position from the Content-Range header of a 206 response
+ * Returns null if the header is missing or invalid.
+ */
+function getContentRangeStart(headers: Record<string, unknown>): number | null {
+  const value = headers['content-range'];
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = /^bytes\s+(\d+)-\d+\/(?:\d+|\*)$/i.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Checks whether an error is a network failure that is worth retrying
+ */
+function isTransientNetworkError(error: unknown): boolean {
+  // Not using instanceof, errors raised by Node.js streams may come from another realm
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const { code } = error as { code?: unknown };
+  return typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code);
+}
+
+/**
+ * Parses the Retry-After header, which holds either a number of seconds or an HTTP date
+ * Returns null if the header is missing or invalid.
+ */
+function getRetryAfterMs(headers: Record<string, unknown>): number | null {
+  const value = headers['retry-after'];
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number.parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
 /**
  * Safely extracts and parses a numeric header from an Axios response.
  * Returns null if the header is missing or not a valid number.
@@ -289,3 +1115,119 @@ function getNumericHeader(headers: Record<string, unknown>, headerName: string):
   }
   return null;
 }
+
+/**
+ * Status codes that mean the URL does not exist
+ */
+const NOT_FOUND_STATUSES = new Set([404, 410]);
+
+/**
+ * Checks whether a URL exists by sending a HEAD request
+ *
+ * Only 404 and 410 mean the URL does not exist. A server that does not allow HEAD (405) is asked
+ * for the first byte with a ranged GET instead. Transient failures are retried like in
+ * downloadFile: 5xx responses, 429 responses with a Retry-After header, dropped connections and
+ * timeouts.
+ *
+ * @param fileUrl The URL to check
+ * @param options Additional options for the request
+ * @param options.timeout Timeout in milliseconds before the request is aborted (default: 30000)
+ * @param options.maxRedirects Maximum number of redirects to follow (default: 5)
+ * @param options.auth Optional basic or bearer credentials, only sent to their own origin
+ * @param options.retries Number of times a transient failure is retried (default: 0)
+ * @param options.retryDelayMs Delay in milliseconds before the first retry, doubled for every
+ * following retry (default: 1000)
+ * @param options.maxRetryDelayMs Upper limit in milliseconds for the delay between retries,
+ * including a delay requested with Retry-After (default: 30000)
+ * @param options.retryJitter Whether to randomize each delay between half and the full value
+ * (default: true)
+ * @returns A promise that resolves to true if the server responds with a 2xx status code, false
+ * if it responds with 404 or 410
+ * @throws Error for any other status code, such as 401 or a 5xx once the retries are used up,
+ * and if the request fails due to a network error or timeout
+ */
+export async function urlExists(
+  fileUrl: string,
+  options: {
+    timeout?: number;
+    maxRedirects?: number;
+    auth?: DownloadAuth;
+    retries?: number;
+    retryDelayMs?: number;
+    maxRetryDelayMs?: number;
+    retryJitter?: boolean;
+  } = {}
+): Promise<boolean> {
+  const maxAttempts = Math.max(0, Math.floor(options.retries ?? 0)) + 1;
+  const authConfig = getAuthConfig(fileUrl, options.auth);
+  const waitToRetry = async (
+    attempt: number,
+    failure: string,
+    retryAfterMs: number | null
+  ): Promise<void> => {
+    const delayMs = getRetryDelayMs(attempt, retryAfterMs, options);
+    logger.warn(
+      `Attempt ${attempt} of ${maxAttempts} to check ${fileUrl} failed: ${failure}. Retrying in ${delayMs}ms`
+    );
+    await waitBeforeRetry(delayMs, fileUrl);
+  };
+  let method: 'HEAD' | 'GET' = 'HEAD';
+
+  for (let attempt = 1; ; attempt++) {
+    logger.debug(`Checking that ${fileUrl} exists`);
+    let response: AxiosResponse;
+    try {
+      response = await axios({
+        method,
+        url: fileUrl,
+        timeout: options.timeout ?? 30000,
+        maxRedirects: options.maxRedirects ?? 5,
+        validateStatus: () => true, // Don't throw on any status code
+        ...getProxyRequestConfig(fileUrl),
+        ...authConfig,
+        // Only ask for the first byte, the body is not read
+        ...(method === 'GET'
+          ? {
+              responseType: 'stream' as const,
+              headers: {
+                ...(authConfig.headers as Record<string, string> | undefined),
+                Range: 'bytes=0-0',
+              },
+            }
+          : {}),
+      });
+    } catch (error: unknown) {
+      const message =
+        axios.isAxiosError(error) && error.code === 'ECONNABORTED'
+          ? `Request timed out after ${options.timeout ?? 30000}ms: ${fileUrl}`
+          : `Failed to check '${fileUrl}': ${error instanceof Error ? error.message : String(error)}`;
+      if (!isTransientNetworkError(error) || attempt >= maxAttempts) {
+        throw new Error(message);
+      }
+      await waitToRetry(attempt, message, null);
+      continue;
+    }
+
+    (response.data as { destroy?: () => void } | undefined)?.destroy?.();
+    logger.debug(`${method} ${fileUrl} returned status ${response.status}`);
+    if (response.status >= 200 && response.status < 300) {
+      return true;
+    }
+    if (NOT_FOUND_STATUSES.has(response.status)) {
+      return false;
+    }
+    if (response.status === 405 && method === 'HEAD') {
+      logger.debug(`${fileUrl} does not allow HEAD requests, checking it with a ranged GET`);
+      method = 'GET';
+      attempt--;
+      continue;
+    }
+
+    const message = `Failed to check '${fileUrl}' (${response.status})`;
+    const retryAfterMs = response.status === 429 ? getRetryAfterMs(response.headers ?? {}) : null;
+    if ((response.status < 500 && retryAfterMs === null) || attempt >= maxAttempts) {
+      throw new Error(message);
+    }
+    await waitToRetry(attempt, `status ${response.status}`, retryAfterMs);
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * @module xmlUtils
+ *
+ * A minimal XML scanner for coverage reports. The task has no XML parser dependency, and coverage
+ * reports only need elements, attributes and the occasional text, so the scanner checks that a
+ * document is well-formed and reports its elements and texts in document order.
+ */
+
+/**
+ * An element of an XML document, reported by scanXml
+ */
+export interface XmlElement {
+  /** The element name, including any namespace prefix */
+  name: string;
+  /** The attributes of the element, with entities left undecoded */
+  attributes: Record<string, string>;
+  /** Names of the enclosing elements, starting with the root element */
+  ancestors: string[];
+}
+
+/**
+ * Scans an XML document and reports every element and every text to callbacks
+ * Checks that the document is well-formed: tags are balanced, attributes are quoted, character
+ * references name valid characters and there is exactly one root element. Comments, processing instructions, CDATA sections and the document
+ * type declaration are skipped.
+ * @throws Error with the line number if the document is malformed
+ */
+export function scanXml(
+  content: string,
+  onElement: (element: XmlElement) => void,
+  onText: (text: string, ancestors: string[]) => void
+): void {
+  const stack: string[] = [];
+  let rootClosed = false;
+  let index = 0;
+
+  const fail = (message: string, position: number): never => {
+    const line = content.slice(0, position).split('\n').length;
+    throw new Error(`Malformed XML on line ${line}: ${message}`);
+  };
+  const skipTo = (terminator: string, position: number, what: string): number => {
+    const end = content.indexOf(terminator, position);
+    if (end === -1) {
+      fail(`${what} is not closed`, position);
+    }
+    return end + terminator.length;
+  };
+  const checkReferences = (value: string, position: number): void => {
+    for (const reference of value.matchAll(/&#(x[0-9A-Fa-f]+|\d+);/g)) {
+      if (!isXmlCharacter(parseCharacterReference(reference[1] ?? ''))) {
+        fail(`invalid character reference '${reference[0]}'`, position + reference.index);
+      }
+    }
+  };
+
+  const startTag =
+    /<([A-Za-z_][\w:.-]*)((?:\s+[A-Za-z_:][\w:.-]*\s*=\s*(?:"[^"<]*"|'[^'<]*'))*)\s*(\/?)>/y;
+  const endTag = /<\/([A-Za-z_][\w:.-]*)\s*>/y;
+  const attribute = /([A-Za-z_:][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  while (index < content.length) {
+    const next = content.indexOf('<', index);
+    const text = content.slice(index, next === -1 ? content.length : next);
+    if (text.trim() !== '') {
+      if (stack.length === 0) {
+        fail('text outside of the root element', index);
+      }
+      checkReferences(text, index);
+      onText(text, [...stack]);
+    }
+    if (next === -1) {
+      break;
+    }
+    index = next;
+
+    if (content.startsWith('<?', index)) {
+      index = skipTo('?>', index, 'Processing instruction');
+    } else if (content.startsWith('<!--', index)) {
+      index = skipTo('-->', index, 'Comment');
+    } else if (content.startsWith('<![CDATA[', index)) {
+      if (stack.length === 0) {
+        fail('CDATA section outside of the root element', index);
+      }
+      index = skipTo(']]>', index, 'CDATA section');
+    } else if (content.startsWith('<!DOCTYPE', index)) {
+      const end = content.indexOf('>', index);
+      const subset = content.indexOf('[', index);
+      index =
+        subset !== -1 && (end === -1 || subset < end)
+          ? skipTo(']>', index, 'Document type declaration')
+          : skipTo('>', index, 'Document type declaration');
+    } else if (content.startsWith('</', index)) {
+      endTag.lastIndex = index;
+      const match = endTag.exec(content);
+      if (!match?.[1]) {
+        return fail('invalid end tag', index);
+      }
+      const open = stack.pop();
+      if (open !== match[1]) {
+        fail(open ? `</${match[1]}> does not close <${open}>` : `unexpected </${match[1]}>`, index);
+      }
+      if (stack.length === 0) {
+        rootClosed = true;
+      }
+      index = endTag.lastIndex;
+    } else {
+      startTag.lastIndex = index;
+      const match = startTag.exec(content);
+      if (!match?.[1]) {
+        return fail('invalid start tag', index);
+      }
+      if (rootClosed) {
+        fail(`<${match[1]}> after the end of the root element`, index);
+      }
+      checkReferences(match[0], index);
+      const attributes: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of (match[2] ?? '').matchAll(attribute)) {
+        if (name) {
+          attributes[name] = doubleQuoted ?? singleQuoted ?? '';
+        }
+      }
+      onElement({ name: match[1], attributes, ancestors: [...stack] });
+      if (match[3] === '/') {
+        rootClosed = rootClosed || stack.length === 0;
+      } else {
+        stack.push(match[1]);
+      }
+      index = startTag.lastIndex;
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`unexpected end of document, <${stack[stack.length - 1]}> is not closed`, index);
+  }
+}
+
+/**
+ * Decodes the predefined entities and character references of an attribute value or text
+ * @throws Error if a character reference does not name a valid character; scanXml reports the
+ * line of such a reference
+ */
+export function decodeXmlEntities(value: string): string {
+  const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return value.replace(/&(#x[0-9A-Fa-f]+|#\d+|[a-z]+);/g, (match, entity: string) => {
+    if (!entity.startsWith('#')) {
+      return entities[entity] ?? match;
+    }
+    const codePoint = parseCharacterReference(entity.slice(1));
+    if (!isXmlCharacter(codePoint)) {
+      throw new Error(`Malformed XML: invalid character reference '${match}'`);
+    }
+    return String.fromCodePoint(codePoint);
+  });
+}
+
+/**
+ * Parses the number of a character reference, such as 'x41' or '65'
+ */
+function parseCharacterReference(reference: string): number {
+  return reference.startsWith('x') ? parseInt(reference.slice(1), 16) : Number(reference);
+}
+
+/**
+ * Checks that a code point is a character XML documents may contain
+ * Excludes most control characters, surrogates and code points beyond U+10FFFF.
+ */
+function isXmlCharacter(codePoint: number): boolean {
+  return (
+    codePoint === 0x9 ||
+    codePoint === 0xa ||
+    codePoint === 0xd ||
+    (codePoint >= 0x20 && codePoint <= 0xd7ff) ||
+    (codePoint >= 0xe000 && codePoint <= 0xfffd) ||
+    (codePoint >= 0x10000 && codePoint <= 0x10ffff)
+  );
+}
+
+/**
+ * Escapes a value for use in a double-quoted attribute
+ */
+export function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}